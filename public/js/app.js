@@ -11,7 +11,23 @@ const state = {
   attachments: [],
   isProcessing: false,
   selectedModel: "claude-opus-4.5",
+  // 可用模型（含能力信息）
+  models: [],
+  // 斜杠命令提示（内置命令与提示词模板：{ usage, description }）
+  commands: [],
+  // 当前分支上存在兄弟分支的消息（消息 ID -> { index, siblingIds }）
+  branches: {},
+  // 回复完成后正在同步消息 ID 与分支信息
+  syncingHistory: false,
+  // 模型对比
+  compareMode: false,
+  compareModels: [],
+  // 进行中的对比：{ comparisonId, targets, contents }
+  activeComparison: null,
   pendingMessage: null,
+  pendingWorkspace: null,
+  // 当前会话的配置（打开配置面板时加载）
+  sessionConfig: null,
   // 消息状态映射：按消息ID存储，防止竞态条件
   messageStates: new Map(),
   // 当前正在处理的消息ID
@@ -24,10 +40,15 @@ const elements = {
   messageInput: null,
   sendBtn: null,
   fileInput: null,
+  workspaceInput: null,
+  commandHints: null,
   attachmentsPreview: null,
   sessionsList: null,
   newChatBtn: null,
   modelSelect: null,
+  compareBtn: null,
+  compareBar: null,
+  configPanel: null,
   headerTitle: null,
   statusDot: null,
   statusText: null,
@@ -39,6 +60,7 @@ document.addEventListener("DOMContentLoaded", () => {
   initSocket();
   initEventListeners();
   loadModels();
+  loadCommands();
 });
 
 function initElements() {
@@ -46,10 +68,15 @@ function initElements() {
   elements.messageInput = document.getElementById("message-input");
   elements.sendBtn = document.getElementById("send-btn");
   elements.fileInput = document.getElementById("file-input");
+  elements.workspaceInput = document.getElementById("workspace-input");
+  elements.commandHints = document.getElementById("command-hints");
   elements.attachmentsPreview = document.getElementById("attachments-preview");
   elements.sessionsList = document.getElementById("sessions-list");
   elements.newChatBtn = document.getElementById("new-chat-btn");
   elements.modelSelect = document.getElementById("model-select");
+  elements.compareBtn = document.getElementById("compare-btn");
+  elements.compareBar = document.getElementById("compare-bar");
+  elements.configPanel = document.getElementById("config-panel");
   elements.headerTitle = document.getElementById("header-title");
   elements.statusDot = document.getElementById("status-dot");
   elements.statusText = document.getElementById("status-text");
@@ -63,6 +90,10 @@ function initSocket() {
     console.log("✅ 已连接到服务器");
     updateConnectionStatus(true);
     refreshSessions();
+    // 重连后房间会丢失，重新加入当前会话
+    if (state.currentSessionId) {
+      state.socket.emit("join-session", { sessionId: state.currentSessionId });
+    }
   });
 
   state.socket.on("disconnect", () => {
@@ -70,11 +101,19 @@ function initSocket() {
     updateConnectionStatus(false);
   });
 
+  // 握手认证失败时提示登录
+  state.socket.on("connect_error", handleConnectError);
+
   // 会话事件
   state.socket.on("session-created", handleSessionCreated);
   state.socket.on("sessions-list", handleSessionsList);
   state.socket.on("session-deleted", handleSessionDeleted);
   state.socket.on("messages-history", handleMessagesHistory);
+  state.socket.on("session-joined", handleSessionJoined);
+  state.socket.on("model-switched", handleModelSwitched);
+  state.socket.on("branch-switched", handleBranchSwitched);
+  state.socket.on("command-result", handleCommandResult);
+  state.socket.on("session-config-updated", handleSessionConfigUpdated);
 
   // 消息事件
   state.socket.on("message-start", handleMessageStart);
@@ -86,6 +125,43 @@ function initSocket() {
   // 工具事件
   state.socket.on("tool-call", handleToolCall);
   state.socket.on("tool-result", handleToolResult);
+  state.socket.on("tool-approval-request", handleToolApprovalRequest);
+  state.socket.on("tool-approval-resolved", handleToolApprovalResolved);
+
+  // 模型对比事件
+  state.socket.on("compare-start", handleCompareStart);
+  state.socket.on("compare-delta", handleCompareDelta);
+  state.socket.on("compare-tool-call", handleCompareToolCall);
+  state.socket.on("compare-tool-result", handleCompareToolResult);
+  state.socket.on("compare-result", handleCompareResult);
+  state.socket.on("compare-complete", handleCompareComplete);
+  state.socket.on("compare-error", handleCompareError);
+}
+
+async function handleConnectError(error) {
+  if (error.message !== "未授权") return;
+  updateConnectionStatus(false);
+
+  const token = prompt("服务器已启用认证，请输入访问 Token：");
+  if (!token) return;
+
+  try {
+    const response = await fetch("/api/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token }),
+    });
+    const result = await response.json();
+    if (!result.success) {
+      showError("登录失败: " + result.error);
+      return;
+    }
+    // 登录成功后 Cookie 已设置，重新连接并加载模型列表
+    state.socket.connect();
+    loadModels();
+  } catch (err) {
+    showError("登录失败: " + err.message);
+  }
 }
 
 function updateConnectionStatus(connected) {
@@ -108,6 +184,7 @@ function initEventListeners() {
   elements.messageInput.addEventListener("input", () => {
     elements.messageInput.style.height = "auto";
     elements.messageInput.style.height = Math.min(elements.messageInput.scrollHeight, 200) + "px";
+    renderCommandHints();
   });
 
   // 文件上传
@@ -115,13 +192,60 @@ function initEventListeners() {
     elements.fileInput.click();
   });
   elements.fileInput.addEventListener("change", handleFileSelect);
+  document.getElementById("config-btn").addEventListener("click", toggleConfigPanel);
+  document.getElementById("config-save").addEventListener("click", saveSessionConfig);
+  document.getElementById("config-use-attachments").addEventListener("click", useAttachmentsAsDefault);
+  document.getElementById("config-clear-attachments").addEventListener("click", () => {
+    emitSessionConfig({ attachments: null });
+  });
+  document.getElementById("workspace-btn").addEventListener("click", () => {
+    elements.workspaceInput.click();
+  });
+  elements.workspaceInput.addEventListener("change", handleWorkspaceSelect);
 
   // 新建会话
   elements.newChatBtn.addEventListener("click", createNewSession);
 
   // 模型选择
   elements.modelSelect.addEventListener("change", (e) => {
+    const previousModel = state.selectedModel;
     state.selectedModel = e.target.value;
+    applyModelCapabilities();
+
+    // 会话中途切换模型：通知服务器（历史会带给新模型）
+    if (state.currentSessionId && state.messages.length > 0) {
+      if (state.isProcessing) {
+        showError("正在生成回复，请稍后再切换模型");
+        setSelectedModel(previousModel);
+        return;
+      }
+      state.socket.emit("switch-model", {
+        sessionId: state.currentSessionId,
+        model: state.selectedModel,
+      });
+      state.modelBeforeSwitch = previousModel;
+    }
+  });
+
+  // 模型对比
+  elements.compareBtn.addEventListener("click", toggleCompareMode);
+  elements.compareBar.addEventListener("change", () => {
+    state.compareModels = Array.from(elements.compareBar.querySelectorAll("input:checked")).map((input) => input.value);
+  });
+
+  // 消息操作：编辑、重新生成、切换分支；对比结果中继续某个模型的对话
+  elements.chatContainer.addEventListener("click", (e) => {
+    const continueBtn = e.target.closest(".compare-continue");
+    if (continueBtn) {
+      continueComparison(continueBtn.dataset.sessionId);
+      return;
+    }
+    const button = e.target.closest("[data-action]");
+    if (!button) return;
+    const messageEl = button.closest(".message");
+    if (messageEl && messageEl.dataset.messageId) {
+      handleMessageAction(button.dataset.action, messageEl.dataset.messageId, button.dataset.target);
+    }
   });
 
   // 功能卡片点击
@@ -152,7 +276,19 @@ function createNewSession() {
 function switchSession(sessionId, options = {}) {
   const { preserveMessages = false, skipHistory = false } = options;
 
+  // 离开之前的会话房间
+  if (state.currentSessionId && state.currentSessionId !== sessionId) {
+    state.socket.emit("leave-session", { sessionId: state.currentSessionId });
+  }
   state.currentSessionId = sessionId;
+  const session = state.sessions.find((s) => s.sessionId === sessionId);
+  if (session && session.model) {
+    setSelectedModel(session.model);
+  }
+  state.isProcessing = false;
+  state.activeMessageId = null;
+  updateSendButton();
+  closeConfigPanel();
   if (!preserveMessages) {
     state.messages = [];
     elements.chatContainer.innerHTML = "";
@@ -165,9 +301,11 @@ function switchSession(sessionId, options = {}) {
   
   elements.headerTitle.textContent = `会话: ${sessionId.substring(0, 20)}...`;
   
-  // 获取消息历史
+  // 获取消息历史（渲染历史后再加入房间，避免覆盖正在生成的回复）
   if (!skipHistory) {
     state.socket.emit("get-messages", { sessionId });
+  } else {
+    state.socket.emit("join-session", { sessionId });
   }
   
   // 隐藏欢迎消息
@@ -197,7 +335,13 @@ function handleSessionCreated(data) {
     } else {
       switchSession(data.sessionId);
     }
+    if (state.pendingWorkspace) {
+      const file = state.pendingWorkspace;
+      state.pendingWorkspace = null;
+      uploadWorkspace(data.sessionId, file);
+    }
   } else {
+    state.pendingWorkspace = null;
     showError("创建会话失败: " + data.error);
   }
 }
@@ -225,8 +369,107 @@ function handleSessionDeleted(data) {
 
 function handleMessagesHistory(data) {
   if (data.success && data.sessionId === state.currentSessionId) {
+    const syncing = state.syncingHistory;
+    state.syncingHistory = false;
     state.messages = data.messages;
+    state.branches = data.branches || {};
+
+    // 回复完成后的同步：只补充消息操作，保留界面中的工具调用等内容
+    if (syncing && decorateMessages()) return;
     renderMessages();
+    if (!syncing) {
+      state.socket.emit("join-session", { sessionId: data.sessionId });
+    }
+  }
+}
+
+function handleBranchSwitched(data) {
+  if (!data.success) {
+    showError("切换分支失败: " + data.error);
+    return;
+  }
+  if (data.sessionId !== state.currentSessionId) return;
+  state.messages = data.messages;
+  state.branches = data.branches || {};
+  renderMessages();
+  refreshSessions();
+}
+
+// 编辑、重新生成或切换分支
+function handleMessageAction(action, messageId, targetId) {
+  if (state.isProcessing) {
+    showError("正在生成回复，请稍后再试");
+    return;
+  }
+  const sessionId = state.currentSessionId;
+
+  if (action === "branch" && targetId) {
+    state.socket.emit("switch-branch", { sessionId, messageId: targetId });
+  } else if (action === "edit") {
+    const message = state.messages.find((m) => m.id === messageId);
+    const content = window.prompt("编辑消息（将从这里创建新的分支）", message ? message.content : "");
+    if (!content || !content.trim() || (message && content.trim() === message.content)) return;
+    state.socket.emit("edit-message", { sessionId, messageId, prompt: content.trim() });
+  } else if (action === "regenerate") {
+    state.socket.emit("regenerate", { sessionId, messageId });
+  }
+}
+
+// 编辑或重新生成开始时，移除分叉点之后的消息
+function truncateForBranch(branchFrom) {
+  let index = state.messages.findIndex((m) => m.id === branchFrom.messageId);
+  if (index < 0) return;
+  if (branchFrom.mode === "regenerate") {
+    while (index >= 0 && state.messages[index].role !== "user") index--;
+    index++;
+  }
+  state.messages = state.messages.slice(0, index);
+  state.branches = {};
+  renderMessages();
+}
+
+function handleModelSwitched(data) {
+  if (!data.success) {
+    showError("切换模型失败: " + data.error);
+    if (data.sessionId === state.currentSessionId && state.modelBeforeSwitch) {
+      setSelectedModel(state.modelBeforeSwitch);
+    }
+    return;
+  }
+
+  if (data.forkedSessionId) {
+    refreshSessions();
+    switchSession(data.forkedSessionId);
+    setSelectedModel(data.model);
+    return;
+  }
+
+  if (data.sessionId !== state.currentSessionId) return;
+  setSelectedModel(data.model);
+  addSystemNote(`🔁 已切换到 ${modelName(data.model)}，之前的对话会作为上下文发送给新模型`);
+  refreshSessions();
+}
+
+// 加入会话后，若该会话正在生成回复，则回放已生成的部分
+function handleSessionJoined(data) {
+  if (!data.success || data.sessionId !== state.currentSessionId) return;
+
+  const live = data.inProgress;
+  if (!live || state.activeMessageId) return;
+
+  handleMessageStart({ sessionId: live.sessionId, senderId: state.socket.id });
+  if (live.reasoning) {
+    handleReasoningDelta({ sessionId: live.sessionId, content: live.reasoning });
+  }
+  live.toolCalls.forEach((call) => {
+    handleToolCall({ sessionId: live.sessionId, ...call });
+    if (call.result !== undefined) {
+      handleToolResult({ sessionId: live.sessionId, ...call });
+    }
+  });
+  live.pendingApprovals.forEach((request) => handleToolApprovalRequest(request));
+  if (live.content) {
+    handleMessageDelta({ sessionId: live.sessionId, content: live.content });
   }
 }
 
@@ -237,7 +480,7 @@ function renderSessionsList() {
       <div class="session-item ${session.sessionId === state.currentSessionId ? "active" : ""}" 
            data-session-id="${session.sessionId}"
            onclick="switchSession('${session.sessionId}')">
-        <span class="session-icon">💬</span>
+        <span class="session-icon">${session.comparisonId ? "⚖️" : "💬"}</span>
         <div class="session-info">
           <div class="session-name">${escapeHtml(session.title || session.sessionId.substring(0, 20) + "...")}</div>
           <div class="session-meta">${session.messageCount || 0} 条消息</div>
@@ -254,9 +497,23 @@ function sendMessage() {
   const prompt = elements.messageInput.value.trim();
   if (!prompt && state.attachments.length === 0) return;
   if (state.isProcessing) return;
+  if (state.attachments.some((a) => a.uploading)) {
+    showError("附件仍在上传中，请稍候");
+    return;
+  }
 
   const attachmentsSnapshot = [...state.attachments];
 
+  // 对比模式：发送给所有选中的模型
+  if (state.compareMode) {
+    if (sendComparison(prompt, attachmentsSnapshot)) {
+      elements.messageInput.value = "";
+      elements.messageInput.style.height = "auto";
+      clearAttachments();
+    }
+    return;
+  }
+
   // 确保有活跃会话
   if (!state.currentSessionId) {
     state.pendingMessage = {
@@ -266,13 +523,16 @@ function sendMessage() {
     };
   }
 
-  // 添加用户消息到 UI
-  addMessage("user", prompt, attachmentsSnapshot);
+  // 添加用户消息到 UI（斜杠命令由服务器解析，展开后的模板在 message-start 中显示）
+  if (!isSlashCommand(prompt)) {
+    addMessage("user", prompt, attachmentsSnapshot);
+  }
 
   // 清空输入
   elements.messageInput.value = "";
   elements.messageInput.style.height = "auto";
   clearAttachments();
+  renderCommandHints();
 
   // 没有会话则先创建，等创建完成后发送
   if (!state.currentSessionId) {
@@ -288,16 +548,32 @@ function sendMessageToSession(sessionId, prompt, attachments, model) {
     sessionId,
     prompt,
     model,
-    attachments: (attachments || []).map((a) => ({
-      type: "file",
-      path: a.path,
-      displayName: a.originalName,
-    })),
+    attachments: toAttachmentPayload(attachments),
   });
 }
 
+function toAttachmentPayload(attachments) {
+  return (attachments || []).map((a) =>
+    a.workspaceId
+      ? { type: "directory", workspaceId: a.workspaceId, displayName: a.originalName }
+      : { type: "file", uploadId: a.id, displayName: a.originalName }
+  );
+}
+
 function handleMessageStart(data) {
   if (data.sessionId !== state.currentSessionId) return;
+
+  if (data.branchFrom) {
+    truncateForBranch(data.branchFrom);
+  }
+
+  // 其他客户端发送的消息或编辑后的消息：补充显示用户消息（重新生成沿用原提问）
+  const fromOther = data.senderId && data.senderId !== state.socket.id;
+  const mode = data.branchFrom ? data.branchFrom.mode : null;
+  if (mode !== "regenerate" && (fromOther || mode === "edit" || data.template)) {
+    const attachments = (data.attachments || []).map((a) => ({ originalName: a.displayName || "附件" }));
+    addMessage("user", data.prompt || "", attachments);
+  }
   
   state.isProcessing = true;
   updateSendButton();
@@ -382,7 +658,8 @@ function handleReasoningDelta(data) {
   if (messageEl) {
     const block = messageEl.querySelector(".reasoning-block");
     const content = messageEl.querySelector(".reasoning-content");
-    if (block && content) {
+    // 模型不支持思考过程时不显示思考面板
+    if (block && content && modelCapabilities().reasoning !== false) {
       block.classList.remove("hidden");
       content.textContent = msgState.reasoningContent;
     }
@@ -401,6 +678,12 @@ function handleMessageComplete(data) {
   if (messageId) {
     state.messageStates.delete(messageId);
     state.activeMessageId = null;
+
+    // 显示本轮用量
+    const messageEl = document.getElementById(messageId);
+    if (messageEl && data.usage) {
+      messageEl.querySelector(".message-content").insertAdjacentHTML("beforeend", renderUsage(data.usage));
+    }
   }
   
   // 保存到消息历史
@@ -408,11 +691,27 @@ function handleMessageComplete(data) {
     role: "assistant",
     content: data.content,
   });
+
+  // 同步消息 ID 与分支信息
+  state.syncingHistory = true;
+  state.socket.emit("get-messages", { sessionId: data.sessionId });
   
   // 更新会话消息数
   refreshSessions();
 }
 
+function renderUsage(usage, options = {}) {
+  const tokens = usage.inputTokens + usage.cacheReadTokens + usage.cacheWriteTokens + usage.outputTokens;
+  const parts = [`🔢 ${tokens.toLocaleString()} tokens`];
+  if (usage.toolCalls > 0) parts.push(`🔧 ${usage.toolCalls} 次工具调用`);
+  parts.push(`⏱️ ${(usage.latencyMs / 1000).toFixed(1)}s`);
+  if (options.firstToken && usage.firstTokenMs !== undefined) {
+    parts.push(`首字 ${(usage.firstTokenMs / 1000).toFixed(1)}s`);
+  }
+  if (usage.cost > 0) parts.push(`💲${usage.cost.toFixed(4)}`);
+  return `<div class="message-usage">${parts.join(" · ")}</div>`;
+}
+
 function handleMessageError(data) {
   if (data.sessionId !== state.currentSessionId) return;
   
@@ -430,6 +729,9 @@ function handleMessageError(data) {
       const bubble = messageEl.querySelector(".message-bubble");
       bubble.innerHTML = `<span style="color: var(--error-color)">❌ 错误: ${escapeHtml(data.error)}</span>`;
     }
+  } else if (data.code) {
+    // 未开始处理就被拒绝（限流、配额等）
+    showError(data.error);
   }
 }
 
@@ -498,6 +800,61 @@ function handleToolResult(data) {
   }
 }
 
+function handleToolApprovalRequest(data) {
+  if (data.sessionId !== state.currentSessionId) return;
+
+  const messageEl = document.getElementById(state.currentMessageId);
+  const toolsContainer = messageEl && messageEl.querySelector(".tools-container");
+  if (!toolsContainer) return;
+
+  const seconds = Math.round(data.timeoutMs / 1000);
+  const approvalHtml = `
+    <div class="tool-call tool-approval" id="approval-${data.requestId}">
+      <div class="tool-call-header">🙋 请求执行工具: ${escapeHtml(data.toolName)}</div>
+      <div class="tool-call-args">${escapeHtml(formatToolArgs(data.args))}</div>
+      <div class="tool-approval-actions">
+        <button class="tool-approval-btn approve" data-approved="true">允许</button>
+        <button class="tool-approval-btn" data-approved="false">拒绝</button>
+        <span class="tool-approval-hint">${seconds} 秒内未处理将自动拒绝</span>
+      </div>
+    </div>
+  `;
+  toolsContainer.insertAdjacentHTML("beforeend", approvalHtml);
+
+  const approvalEl = document.getElementById(`approval-${data.requestId}`);
+  approvalEl.querySelectorAll("button").forEach((button) => {
+    button.addEventListener("click", () => {
+      approvalEl.querySelectorAll("button").forEach((b) => (b.disabled = true));
+      state.socket.emit("tool-approval-response", {
+        requestId: data.requestId,
+        approved: button.dataset.approved === "true",
+      });
+    });
+  });
+  scrollToBottom();
+}
+
+function handleToolApprovalResolved(data) {
+  const approvalEl = document.getElementById(`approval-${data.requestId}`);
+  if (!approvalEl) return;
+
+  const actionsEl = approvalEl.querySelector(".tool-approval-actions");
+  if (!actionsEl) return;
+
+  if (data.success === false) {
+    actionsEl.innerHTML = `<span class="tool-call-error">❌ ${escapeHtml(data.error)}</span>`;
+    return;
+  }
+
+  const labels = {
+    user: data.decision === "approved" ? "✅ 已允许" : "🚫 已拒绝",
+    timeout: "⏰ 审批超时，已拒绝",
+    policy: "🚫 已被策略禁止",
+    "no-client": "🚫 已取消",
+  };
+  actionsEl.innerHTML = `<span class="tool-approval-hint">${labels[data.reason] || data.decision}</span>`;
+}
+
 function formatToolResult(result) {
   if (!result) return '无结果';
   try {
@@ -509,7 +866,7 @@ function formatToolResult(result) {
 }
 
 // ===== UI 辅助函数 =====
-function addMessage(role, content, attachments = [], save = true) {
+function addMessage(role, content, attachments = [], save = true, meta = {}) {
   const messageHtml = `
     <div class="message ${role}">
       <div class="message-avatar">${role === "user" ? "👤" : "🤖"}</div>
@@ -517,6 +874,8 @@ function addMessage(role, content, attachments = [], save = true) {
         <div class="message-bubble">
           ${role === "user" ? escapeHtml(content) : renderMarkdown(content)}
         </div>
+        ${role === "assistant" && meta.model ? `<div class="message-model">${escapeHtml(modelName(meta.model))}</div>` : ""}
+        ${role === "assistant" && meta.usage ? renderUsage(meta.usage) : ""}
         ${
           attachments.length > 0
             ? `
@@ -541,8 +900,50 @@ function addMessage(role, content, attachments = [], save = true) {
 function renderMessages() {
   elements.chatContainer.innerHTML = "";
   state.messages.forEach((msg) => {
-    addMessage(msg.role, msg.content, [], false);
+    addMessage(msg.role, msg.content, [], false, { model: msg.model, usage: msg.usage });
   });
+  decorateMessages();
+}
+
+// 为界面中的消息补充 ID 与操作按钮（界面与消息历史数量不一致时返回 false）
+function decorateMessages() {
+  const messageEls = elements.chatContainer.querySelectorAll(".message");
+  if (messageEls.length !== state.messages.length) return false;
+
+  messageEls.forEach((el, index) => {
+    const msg = state.messages[index];
+    const existing = el.querySelector(".message-actions");
+    if (existing) existing.remove();
+    if (!msg.id) return;
+    el.dataset.messageId = msg.id;
+    el.querySelector(".message-content").insertAdjacentHTML("beforeend", renderMessageActions(msg));
+  });
+  return true;
+}
+
+function renderMessageActions(msg) {
+  const parts = [];
+  const branch = state.branches[msg.id];
+  if (branch) {
+    const prev = branch.siblingIds[branch.index - 1];
+    const next = branch.siblingIds[branch.index + 1];
+    parts.push(
+      `<button class="message-action" data-action="branch" data-target="${escapeAttr(prev || "")}" ${prev ? "" : "disabled"} title="上一个版本">‹</button>`,
+      `<span class="branch-index">${branch.index + 1} / ${branch.siblingIds.length}</span>`,
+      `<button class="message-action" data-action="branch" data-target="${escapeAttr(next || "")}" ${next ? "" : "disabled"} title="下一个版本">›</button>`
+    );
+  }
+  parts.push(
+    msg.role === "user"
+      ? `<button class="message-action" data-action="edit" title="编辑并重新发送">✏️</button>`
+      : `<button class="message-action" data-action="regenerate" title="重新生成">🔄</button>`
+  );
+  return `<div class="message-actions">${parts.join("")}</div>`;
+}
+
+function addSystemNote(text) {
+  elements.chatContainer.insertAdjacentHTML("beforeend", `<div class="system-note">${escapeHtml(text)}</div>`);
+  scrollToBottom();
 }
 
 function scrollToBottom() {
@@ -554,7 +955,10 @@ function updateSendButton() {
     elements.sendBtn.innerHTML = "⏹️";
     elements.sendBtn.classList.add("stop-btn");
     elements.sendBtn.onclick = () => {
-      state.socket.emit("abort", { sessionId: state.currentSessionId });
+      const sessionIds = state.activeComparison
+        ? state.activeComparison.targets.map((t) => t.sessionId)
+        : [state.currentSessionId];
+      sessionIds.forEach((sessionId) => state.socket.emit("abort", { sessionId }));
     };
   } else {
     elements.sendBtn.innerHTML = "➤";
@@ -567,11 +971,201 @@ function showError(message) {
   alert(message);
 }
 
+// ===== 模型对比 =====
+function toggleCompareMode() {
+  state.compareMode = !state.compareMode;
+  if (state.compareMode && state.compareModels.length === 0) {
+    // 默认对比当前模型与列表中的下一个模型
+    const other = state.models.find((m) => m.id !== state.selectedModel);
+    state.compareModels = other ? [state.selectedModel, other.id] : [state.selectedModel];
+  }
+  elements.compareBtn.classList.toggle("active", state.compareMode);
+  elements.compareBar.classList.toggle("hidden", !state.compareMode);
+  elements.messageInput.placeholder = state.compareMode
+    ? "输入提示词，按 Enter 发送给所有选中的模型..."
+    : "输入消息，按 Enter 发送...";
+  renderCompareBar();
+}
+
+function renderCompareBar() {
+  elements.compareBar.innerHTML =
+    "<span>对比模型:</span>" +
+    state.models
+      .map(
+        (m) =>
+          `<label><input type="checkbox" value="${escapeHtml(m.id)}" ${state.compareModels.includes(m.id) ? "checked" : ""}> ${escapeHtml(m.name)}</label>`
+      )
+      .join("");
+}
+
+function sendComparison(prompt, attachments) {
+  if (!prompt) return false;
+  if (state.compareModels.length < 2) {
+    showError("请至少选择两个模型进行对比");
+    return false;
+  }
+
+  // 对比结果不属于当前会话，离开当前会话后单独显示
+  if (state.currentSessionId) {
+    state.socket.emit("leave-session", { sessionId: state.currentSessionId });
+  }
+  state.currentSessionId = null;
+  state.messages = [];
+  state.branches = {};
+  elements.chatContainer.innerHTML = "";
+  elements.headerTitle.textContent = "⚖️ 模型对比";
+  document.querySelectorAll(".session-item").forEach((item) => item.classList.remove("active"));
+
+  addMessage("user", prompt, attachments, false);
+  state.isProcessing = true;
+  updateSendButton();
+
+  state.socket.emit("compare", {
+    prompt,
+    models: state.compareModels,
+    attachments: toAttachmentPayload(attachments),
+  });
+  return true;
+}
+
+function handleCompareStart(data) {
+  state.activeComparison = { comparisonId: data.comparisonId, targets: data.targets, contents: {} };
+  const columns = data.targets
+    .map(
+      (target) => `
+      <div class="compare-column" data-model="${escapeAttr(target.model)}">
+        <div class="compare-column-title">🤖 ${escapeHtml(modelName(target.model))}</div>
+        <div class="compare-tools"></div>
+        <div class="assistant-content">
+          <div class="typing-indicator">
+            <span></span><span></span><span></span>
+          </div>
+        </div>
+      </div>
+    `
+    )
+    .join("");
+  elements.chatContainer.insertAdjacentHTML(
+    "beforeend",
+    `<div class="compare-grid" id="compare-${data.comparisonId}">${columns}</div>`
+  );
+  scrollToBottom();
+}
+
+// 查找对比结果中某个模型的列（不属于当前对比时返回 null）
+function compareColumn(data) {
+  if (!state.activeComparison || data.comparisonId !== state.activeComparison.comparisonId) return null;
+  return document.querySelector(
+    `#compare-${data.comparisonId} .compare-column[data-model="${CSS.escape(data.model)}"]`
+  );
+}
+
+function handleCompareDelta(data) {
+  const column = compareColumn(data);
+  if (!column) return;
+  const contents = state.activeComparison.contents;
+  contents[data.model] = (contents[data.model] || "") + data.content;
+  column.querySelector(".assistant-content").innerHTML = renderMarkdown(contents[data.model]);
+  scrollToBottom();
+}
+
+function handleCompareToolCall(data) {
+  const column = compareColumn(data);
+  if (!column) return;
+  column
+    .querySelector(".compare-tools")
+    .insertAdjacentHTML(
+      "beforeend",
+      `<span class="attachment-tag" data-tool-call-id="${escapeAttr(data.toolCallId)}">🔧 ${escapeHtml(data.toolName)}</span>`
+    );
+}
+
+function handleCompareToolResult(data) {
+  const column = compareColumn(data);
+  if (!column) return;
+  const tag = column.querySelector(`[data-tool-call-id="${CSS.escape(data.toolCallId)}"]`);
+  if (tag) {
+    tag.textContent = `✅ ${data.toolName}`;
+  }
+}
+
+function handleCompareResult(data) {
+  const column = compareColumn(data);
+  if (!column) return;
+
+  const content = column.querySelector(".assistant-content");
+  if (data.success) {
+    content.innerHTML = renderMarkdown(data.content || "");
+    column.insertAdjacentHTML(
+      "beforeend",
+      `<div class="compare-footer">${renderUsage(data.usage, { firstToken: true })}</div>`
+    );
+  } else {
+    content.innerHTML = `<span style="color: var(--error-color)">❌ 错误: ${escapeHtml(data.error || "未知错误")}</span>`;
+  }
+  column.insertAdjacentHTML(
+    "beforeend",
+    `<button class="compare-continue" data-session-id="${escapeAttr(data.sessionId)}">继续此对话</button>`
+  );
+}
+
+function handleCompareComplete(data) {
+  if (!state.activeComparison || data.comparisonId !== state.activeComparison.comparisonId) return;
+  state.activeComparison = null;
+  state.isProcessing = false;
+  updateSendButton();
+  refreshSessions();
+}
+
+function handleCompareError(data) {
+  state.activeComparison = null;
+  state.isProcessing = false;
+  updateSendButton();
+  showError("模型对比失败: " + data.error);
+}
+
+// 选择对比结果中的一个模型继续对话
+function continueComparison(sessionId) {
+  if (state.compareMode) {
+    toggleCompareMode();
+  }
+  refreshSessions();
+  switchSession(sessionId);
+}
+
 // ===== 文件上传 =====
+// 超过该大小的文件使用分片上传（可续传）
+const CHUNKED_UPLOAD_THRESHOLD = 8 * 1024 * 1024;
+// 单个分片的最大重试次数
+const CHUNK_RETRY_LIMIT = 5;
+
 async function handleFileSelect(e) {
-  const files = Array.from(e.target.files);
+  let files = Array.from(e.target.files);
   if (files.length === 0) return;
 
+  // 模型不支持图片输入时过滤掉图片
+  if (modelCapabilities().vision === false) {
+    const images = files.filter((file) => file.type.startsWith("image/"));
+    if (images.length > 0) {
+      showError(`当前模型不支持图片输入，已忽略: ${images.map((f) => f.name).join(", ")}`);
+      files = files.filter((file) => !file.type.startsWith("image/"));
+    }
+    if (files.length === 0) {
+      e.target.value = "";
+      return;
+    }
+  }
+
+  // 大文件逐个分片上传，其余文件一次性上传
+  files
+    .filter((file) => file.size > CHUNKED_UPLOAD_THRESHOLD)
+    .forEach((file) => uploadChunked(file));
+  files = files.filter((file) => file.size <= CHUNKED_UPLOAD_THRESHOLD);
+  if (files.length === 0) {
+    e.target.value = "";
+    return;
+  }
+
   const formData = new FormData();
   files.forEach((file) => formData.append("files", file));
 
@@ -596,12 +1190,156 @@ async function handleFileSelect(e) {
   e.target.value = "";
 }
 
+/**
+ * 分片上传：按服务器返回的分片大小逐片上传，每片附带 SHA-256 校验和
+ * 网络中断时等待后用 HEAD 查询服务器已接收的偏移量再续传
+ */
+async function uploadChunked(file) {
+  const attachment = { originalName: file.name, uploading: { offset: 0, size: file.size } };
+  state.attachments.push(attachment);
+  renderAttachments();
+
+  try {
+    const response = await fetch("/api/upload/chunked", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ filename: file.name, size: file.size, mimetype: file.type }),
+    });
+    const init = await response.json();
+    if (!init.success) throw new Error(init.error);
+    attachment.transferUrl = response.headers.get("Location") || `/api/upload/chunked/${init.id}`;
+
+    let offset = init.offset;
+    let retries = 0;
+    while (offset < file.size) {
+      if (attachment.cancelled) return;
+      const chunk = await file.slice(offset, offset + init.chunkSize).arrayBuffer();
+      const headers = {
+        "Content-Type": "application/offset+octet-stream",
+        "Upload-Offset": String(offset),
+      };
+      const checksum = await chunkChecksum(chunk);
+      if (checksum) headers["Upload-Checksum"] = checksum;
+
+      let chunkResponse;
+      try {
+        chunkResponse = await fetch(attachment.transferUrl, { method: "PATCH", headers, body: chunk });
+      } catch (error) {
+        if (++retries > CHUNK_RETRY_LIMIT) throw error;
+        await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** retries));
+        offset = (await fetchUploadOffset(attachment.transferUrl)) ?? offset;
+        continue;
+      }
+
+      const result = await chunkResponse
+        .json()
+        .catch(() => ({ success: false, error: `HTTP ${chunkResponse.status}` }));
+      if (result.success) {
+        offset = result.offset;
+        retries = 0;
+      } else if ([409, 460].includes(chunkResponse.status) && ++retries <= CHUNK_RETRY_LIMIT) {
+        // 偏移量不一致时从服务器的偏移量续传，校验失败时重发该分片
+        if (typeof result.offset === "number") offset = result.offset;
+      } else {
+        throw new Error(result.error);
+      }
+
+      attachment.uploading.offset = offset;
+      renderAttachments();
+    }
+
+    const completeResponse = await fetch(`${attachment.transferUrl}/complete`, { method: "POST" });
+    const result = await completeResponse.json();
+    if (!result.success) throw new Error(result.error);
+    if (attachment.cancelled) {
+      fetch(`/api/upload/${result.file.id}`, { method: "DELETE" });
+      return;
+    }
+
+    delete attachment.uploading;
+    delete attachment.transferUrl;
+    Object.assign(attachment, result.file);
+    renderAttachments();
+  } catch (error) {
+    if (attachment.cancelled) return;
+    if (attachment.transferUrl) {
+      fetch(attachment.transferUrl, { method: "DELETE" });
+    }
+    state.attachments = state.attachments.filter((a) => a !== attachment);
+    renderAttachments();
+    showError(`上传失败: ${file.name}: ${error.message}`);
+  }
+}
+
+// 分片的校验和（crypto.subtle 仅在安全上下文中可用，不可用时不附带）
+async function chunkChecksum(buffer) {
+  if (!window.crypto?.subtle) return null;
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", buffer));
+  return `sha256 ${btoa(String.fromCharCode(...digest))}`;
+}
+
+// 查询服务器已接收的偏移量（失败时返回 null）
+async function fetchUploadOffset(url) {
+  try {
+    const response = await fetch(url, { method: "HEAD" });
+    return response.ok ? Number(response.headers.get("Upload-Offset")) : null;
+  } catch {
+    return null;
+  }
+}
+
+// 选择项目压缩包：工作区属于会话，没有会话时先创建
+function handleWorkspaceSelect(e) {
+  const file = e.target.files[0];
+  e.target.value = "";
+  if (!file) return;
+
+  if (state.currentSessionId) {
+    uploadWorkspace(state.currentSessionId, file);
+  } else {
+    state.pendingWorkspace = file;
+    createNewSession();
+  }
+}
+
+async function uploadWorkspace(sessionId, file) {
+  const formData = new FormData();
+  formData.append("sessionId", sessionId);
+  formData.append("archive", file);
+
+  try {
+    const response = await fetch("/api/upload/workspace", {
+      method: "POST",
+      body: formData,
+    });
+
+    const result = await response.json();
+    if (result.success) {
+      const { workspace } = result;
+      state.attachments.push({
+        workspaceId: workspace.id,
+        sessionId,
+        originalName: workspace.name,
+        extraction: { kind: "archive", summary: `${workspace.files} 个文件` },
+      });
+      renderAttachments();
+    } else {
+      showError("项目上传失败: " + result.error);
+    }
+  } catch (error) {
+    showError("项目上传失败: " + error.message);
+  }
+}
+
 function renderAttachments() {
   elements.attachmentsPreview.innerHTML = state.attachments
     .map(
       (a, i) => `
-      <div class="attachment-preview">
+      <div class="attachment-preview" title="${escapeHtml(attachmentNote(a))}">
         <span>📎 ${a.originalName}</span>
+        ${a.extraction ? `<span class="attachment-extraction">${escapeHtml(a.extraction.summary)}</span>` : ""}
+        ${a.extractionError ? `<span class="attachment-extraction error">⚠️</span>` : ""}
+        ${a.uploading ? `<span class="attachment-extraction">${Math.floor((a.uploading.offset / a.uploading.size) * 100)}%</span>` : ""}
         <button class="remove-btn" onclick="removeAttachment(${i})">×</button>
       </div>
     `
@@ -609,40 +1347,234 @@ function renderAttachments() {
     .join("");
 }
 
+// 附件的提取说明（发送时附带提取结果，失败时附带原始文件）
+function attachmentNote(a) {
+  if (a.extractionError) return `提取失败，将发送原始文件: ${a.extractionError}`;
+  if (!a.extraction) return "";
+  const kinds = { text: "已提取文本", table: "已生成表格预览", archive: "已解压为目录" };
+  return `${kinds[a.extraction.kind] || "已提取"}（${a.extraction.summary}${a.extraction.truncated ? "，内容已截断" : ""}）`;
+}
+
 function removeAttachment(index) {
   const attachment = state.attachments[index];
   
-  // 从服务器删除文件
-  fetch(`/api/upload/${attachment.filename}`, { method: "DELETE" });
+  // 从服务器删除文件（已被会话引用的文件服务器会保留），上传中的文件取消上传
+  if (attachment.uploading) {
+    attachment.cancelled = true;
+    if (attachment.transferUrl) {
+      fetch(attachment.transferUrl, { method: "DELETE" });
+    }
+  } else if (attachment.workspaceId) {
+    const query = new URLSearchParams({ sessionId: attachment.sessionId });
+    fetch(`/api/upload/workspace/${attachment.workspaceId}?${query}`, { method: "DELETE" });
+  } else {
+    fetch(`/api/upload/${attachment.id}`, { method: "DELETE" });
+  }
   
   // 从状态中移除
   state.attachments.splice(index, 1);
   renderAttachments();
 }
 
+// 发送后清空待发送的附件（文件由服务器随会话保留，未使用的会过期清理）
 function clearAttachments() {
-  state.attachments.forEach((a) => {
-    fetch(`/api/upload/${a.filename}`, { method: "DELETE" });
-  });
   state.attachments = [];
   renderAttachments();
 }
 
+// ===== 会话配置 =====
+async function toggleConfigPanel() {
+  if (!elements.configPanel.classList.contains("hidden")) {
+    closeConfigPanel();
+    return;
+  }
+  if (!state.currentSessionId) {
+    showError("请先开始一个会话");
+    return;
+  }
+
+  try {
+    const response = await fetch(`/api/sessions/${encodeURIComponent(state.currentSessionId)}/config`);
+    const result = await response.json();
+    if (!result.success) throw new Error(result.error);
+    renderSessionConfig(result.config);
+    elements.configPanel.classList.remove("hidden");
+    document.getElementById("config-btn").classList.add("active");
+  } catch (error) {
+    showError("获取会话配置失败: " + error.message);
+  }
+}
+
+function closeConfigPanel() {
+  elements.configPanel.classList.add("hidden");
+  document.getElementById("config-btn").classList.remove("active");
+}
+
+function renderSessionConfig(config) {
+  state.sessionConfig = config;
+  document.getElementById("config-persona").value = config.persona || "";
+  document.getElementById("config-system-prompt").value = config.systemPrompt || "";
+  document.getElementById("config-show-reasoning").checked = config.showReasoning !== false;
+  document.getElementById("config-timeout").value = config.timeoutMs ? Math.round(config.timeoutMs / 1000) : "";
+  const attachments = config.attachments || [];
+  document.getElementById("config-attachments").textContent =
+    attachments.length > 0
+      ? `默认附件: ${attachments.map((a) => a.displayName || a.path.split("/").pop()).join(", ")}`
+      : "没有默认附件";
+}
+
+function emitSessionConfig(config) {
+  if (!state.currentSessionId) return;
+  state.socket.emit("update-session-config", { sessionId: state.currentSessionId, config });
+}
+
+function saveSessionConfig() {
+  const timeout = Number(document.getElementById("config-timeout").value);
+  emitSessionConfig({
+    persona: document.getElementById("config-persona").value.trim() || null,
+    systemPrompt: document.getElementById("config-system-prompt").value.trim() || null,
+    showReasoning: document.getElementById("config-show-reasoning").checked ? null : false,
+    timeoutMs: timeout > 0 ? timeout * 1000 : null,
+  });
+}
+
+// 将输入框中待发送的附件设为每条消息默认附带的附件
+function useAttachmentsAsDefault() {
+  if (state.attachments.length === 0) {
+    showError("没有待发送的附件");
+    return;
+  }
+  if (state.attachments.some((a) => a.uploading)) {
+    showError("附件仍在上传中，请稍候");
+    return;
+  }
+  emitSessionConfig({ attachments: toAttachmentPayload(state.attachments) });
+  clearAttachments();
+}
+
+function handleSessionConfigUpdated(data) {
+  if (data.sessionId !== state.currentSessionId) return;
+  if (!data.success) {
+    showError("修改会话配置失败: " + data.error);
+    return;
+  }
+  renderSessionConfig(data.config);
+  addSystemNote("⚙️ 会话配置已更新，从下一条消息开始生效");
+}
+
+// ===== 斜杠命令 =====
+// 以 / 开头（不是 //）的消息由服务器按斜杠命令解析
+function isSlashCommand(prompt) {
+  return /^\/[a-z]/.test(prompt);
+}
+
+async function loadCommands() {
+  try {
+    const response = await fetch("/api/templates");
+    const result = await response.json();
+    if (result.success) {
+      state.commands = [
+        ...result.commands.map((c) => ({ name: c.name, usage: c.usage, description: c.description })),
+        ...result.templates.map((t) => ({
+          name: t.name,
+          usage: [`/${t.name}`, ...t.variables.map((v) => (v.default === undefined ? `<${v.name}>` : `[${v.name}]`))].join(" "),
+          description: t.description,
+        })),
+      ];
+    }
+  } catch (error) {
+    console.error("加载命令列表失败:", error);
+  }
+}
+
+// 输入命令名时提示匹配的命令与模板
+function renderCommandHints() {
+  const match = /^\/([a-z0-9_-]*)$/.exec(elements.messageInput.value);
+  const hints = match ? state.commands.filter((c) => c.name.startsWith(match[1])) : [];
+  elements.commandHints.classList.toggle("hidden", hints.length === 0);
+  elements.commandHints.innerHTML = hints
+    .map(
+      (c) => `
+      <div class="command-hint" onclick="useCommand('${c.name}')">
+        <code>${escapeHtml(c.usage)}</code>
+        <span>${escapeHtml(c.description)}</span>
+      </div>
+    `
+    )
+    .join("");
+}
+
+function useCommand(name) {
+  elements.messageInput.value = `/${name} `;
+  elements.messageInput.focus();
+  renderCommandHints();
+}
+
+function handleCommandResult(data) {
+  if (data.sessionId && data.sessionId !== state.currentSessionId) return;
+  if (!data.success) {
+    showError(data.error);
+    return;
+  }
+  if (data.command === "help") {
+    elements.chatContainer.insertAdjacentHTML(
+      "beforeend",
+      `<div class="system-note command-help">${renderMarkdown(data.content)}</div>`
+    );
+    scrollToBottom();
+  }
+}
+
 // ===== 模型加载 =====
 async function loadModels() {
   try {
     const response = await fetch("/api/models");
     const result = await response.json();
     if (result.success) {
+      state.models = result.models;
+      if (!state.models.some((m) => m.id === state.selectedModel) && state.models.length > 0) {
+        state.selectedModel = state.models[0].id;
+      }
       elements.modelSelect.innerHTML = result.models
-        .map((m) => `<option value="${m.id}">${m.name}</option>`)
+        .map((m) => `<option value="${m.id}" ${m.id === state.selectedModel ? "selected" : ""}>${escapeHtml(m.name)}</option>`)
         .join("");
+      applyModelCapabilities();
     }
   } catch (error) {
     console.error("加载模型列表失败:", error);
   }
 }
 
+function modelName(id) {
+  const model = state.models.find((m) => m.id === id);
+  return model ? model.name : id;
+}
+
+function setSelectedModel(id) {
+  state.selectedModel = id;
+  elements.modelSelect.value = id;
+  applyModelCapabilities();
+}
+
+// 当前选择模型的能力（未知时返回空对象，按支持处理）
+function modelCapabilities() {
+  const model = state.models.find((m) => m.id === state.selectedModel);
+  return (model && model.capabilities) || {};
+}
+
+// 根据模型能力调整界面
+function applyModelCapabilities() {
+  const caps = modelCapabilities();
+  const attachBtn = document.getElementById("attach-btn");
+  attachBtn.title = caps.vision === false ? "添加附件（当前模型不支持图片）" : "添加附件";
+
+  const model = state.models.find((m) => m.id === state.selectedModel);
+  if (model) {
+    const context = caps.contextWindow ? ` · 上下文 ${Math.round(caps.contextWindow / 1000)}K` : "";
+    elements.modelSelect.title = `${model.description}${context}`;
+  }
+}
+
 // ===== Markdown 渲染 =====
 function renderMarkdown(text) {
   if (typeof marked !== "undefined") {
@@ -667,7 +1599,18 @@ function escapeHtml(text) {
   return div.innerHTML;
 }
 
+// 转义属性值（escapeHtml 不转义引号，不能用于属性）
+function escapeAttr(text) {
+  return String(text)
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
 // ===== 暴露到全局 =====
 window.switchSession = switchSession;
 window.deleteSession = deleteSession;
 window.removeAttachment = removeAttachment;
+window.useCommand = useCommand;
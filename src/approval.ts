@@ -0,0 +1,201 @@
+import { randomUUID } from "crypto";
+
+/**
+ * 工具调用审批
+ * 按工具配置策略：allow（自动允许）、ask（询问用户）、deny（禁止）
+ * ask 策略会暂停工具执行，直到客户端回复或超时（超时默认拒绝）
+ *
+ * 环境变量配置：
+ * - TOOL_POLICIES: 工具策略，格式 "工具名:策略"，逗号分隔，"*" 表示默认策略
+ *   例如 "get_weather:ask,calculate:allow,*:allow"
+ * - TOOL_APPROVAL_TIMEOUT: 等待用户审批的超时时间（毫秒），默认 60000
+ */
+
+export type ToolPolicy = "allow" | "ask" | "deny";
+
+export interface ToolApprovalRequest {
+  requestId: string;
+  sessionId: string;
+  toolName: string;
+  args: unknown;
+  timeoutMs: number;
+}
+
+// 审批记录（随会话保存）
+export interface ApprovalLogEntry {
+  requestId: string;
+  toolName: string;
+  args?: unknown;
+  decision: "approved" | "denied";
+  /** 决定来源：policy（策略）、user（用户）、timeout（超时）、no-client（无可询问的客户端） */
+  reason: "policy" | "user" | "timeout" | "no-client";
+  decidedBy?: string;
+  requestedAt: number;
+  decidedAt: number;
+}
+
+// 审批事件监听器（发送消息期间由调用方注册，用于通知客户端）
+export interface ApprovalListener {
+  onRequest: (request: ToolApprovalRequest) => void;
+  onResolved?: (request: ToolApprovalRequest, entry: ApprovalLogEntry) => void;
+}
+
+const POLICIES = new Set<ToolPolicy>(["allow", "ask", "deny"]);
+
+// 工具名 -> 策略
+const toolPolicies = new Map<string, ToolPolicy>();
+for (const entry of (process.env.TOOL_POLICIES || "").split(",")) {
+  const [name, policy] = entry.split(":").map((part) => part.trim());
+  if (!name || !policy) continue;
+  if (!POLICIES.has(policy as ToolPolicy)) {
+    console.warn(`⚠️ 无效的工具策略: ${entry}`);
+    continue;
+  }
+  toolPolicies.set(name, policy as ToolPolicy);
+}
+
+const APPROVAL_TIMEOUT = Number(process.env.TOOL_APPROVAL_TIMEOUT) || 60 * 1000;
+
+// 会话 -> 当前可接收审批请求的监听器（发送消息期间注册）
+const listeners = new Map<string, ApprovalListener>();
+
+// 等待中的审批请求
+const pendingApprovals = new Map<
+  string,
+  {
+    request: ToolApprovalRequest;
+    requestedAt: number;
+    timer: ReturnType<typeof setTimeout>;
+    resolve: (entry: ApprovalLogEntry) => void;
+  }
+>();
+
+/**
+ * 获取工具的审批策略
+ */
+export function getToolPolicy(toolName: string): ToolPolicy {
+  return toolPolicies.get(toolName) ?? toolPolicies.get("*") ?? "allow";
+}
+
+/**
+ * 注册会话的审批请求监听器，返回取消注册函数
+ */
+export function registerApprovalListener(sessionId: string, listener: ApprovalListener): () => void {
+  listeners.set(sessionId, listener);
+  return () => {
+    if (listeners.get(sessionId) === listener) {
+      listeners.delete(sessionId);
+    }
+  };
+}
+
+/**
+ * 按策略决定是否允许工具执行
+ * ask 策略下通知客户端并等待回复；策略为 allow 时返回 null（不记录日志）
+ */
+export function requestToolApproval(
+  sessionId: string,
+  toolName: string,
+  args: unknown
+): Promise<ApprovalLogEntry | null> {
+  const policy = getToolPolicy(toolName);
+  if (policy === "allow") {
+    return Promise.resolve(null);
+  }
+
+  const requestId = randomUUID();
+  const requestedAt = Date.now();
+  const decide = (decision: ApprovalLogEntry["decision"], reason: ApprovalLogEntry["reason"]) => ({
+    requestId,
+    toolName,
+    args,
+    decision,
+    reason,
+    requestedAt,
+    decidedAt: Date.now(),
+  });
+
+  if (policy === "deny") {
+    return Promise.resolve(decide("denied", "policy"));
+  }
+
+  const listener = listeners.get(sessionId);
+  if (!listener) {
+    return Promise.resolve(decide("denied", "no-client"));
+  }
+
+  const request: ToolApprovalRequest = { requestId, sessionId, toolName, args, timeoutMs: APPROVAL_TIMEOUT };
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      console.log(`⏰ 工具审批超时，已拒绝: [${sessionId}] ${toolName}`);
+      settleApproval(requestId, "denied", "timeout");
+    }, APPROVAL_TIMEOUT);
+
+    pendingApprovals.set(requestId, { request, requestedAt, timer, resolve });
+
+    console.log(`🙋 等待工具审批: [${sessionId}] ${toolName}`);
+    listener.onRequest(request);
+  });
+}
+
+/**
+ * 结束一个等待中的审批，并通知监听器
+ */
+function settleApproval(
+  requestId: string,
+  decision: ApprovalLogEntry["decision"],
+  reason: ApprovalLogEntry["reason"],
+  decidedBy?: string
+): boolean {
+  const pending = pendingApprovals.get(requestId);
+  if (!pending) return false;
+
+  clearTimeout(pending.timer);
+  pendingApprovals.delete(requestId);
+
+  const { request } = pending;
+  const entry: ApprovalLogEntry = {
+    requestId,
+    toolName: request.toolName,
+    args: request.args,
+    decision,
+    reason,
+    decidedBy,
+    requestedAt: pending.requestedAt,
+    decidedAt: Date.now(),
+  };
+  listeners.get(request.sessionId)?.onResolved?.(request, entry);
+  pending.resolve(entry);
+  return true;
+}
+
+/**
+ * 获取等待中的审批请求（用于校验回复者是否有权处理）
+ */
+export function getPendingApproval(requestId: string): ToolApprovalRequest | undefined {
+  return pendingApprovals.get(requestId)?.request;
+}
+
+/**
+ * 处理客户端的审批回复
+ * 返回 false 表示请求不存在或已超时
+ */
+export function resolveToolApproval(requestId: string, approved: boolean, decidedBy?: string): boolean {
+  const pending = pendingApprovals.get(requestId);
+  if (pending) {
+    const { sessionId, toolName } = pending.request;
+    console.log(`${approved ? "✅" : "🚫"} 工具审批${approved ? "通过" : "拒绝"}: [${sessionId}] ${toolName}`);
+  }
+  return settleApproval(requestId, approved ? "approved" : "denied", "user", decidedBy);
+}
+
+/**
+ * 拒绝会话中所有等待中的审批（会话中止或删除时调用）
+ */
+export function cancelPendingApprovals(sessionId: string): void {
+  for (const [requestId, pending] of pendingApprovals) {
+    if (pending.request.sessionId === sessionId) {
+      settleApproval(requestId, "denied", "no-client");
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import type { Socket } from "socket.io";
+
+/**
+ * 认证模块
+ * 支持两种凭证：
+ * 1. API Token - 请求头 `Authorization: Bearer <token>`（脚本 / OpenAI 客户端）
+ * 2. 签名 Cookie - 通过 POST /api/auth/login 换取（浏览器）
+ *
+ * 环境变量配置：
+ * - AUTH_TOKENS: 用户与 Token 列表，格式 "alice:token1,bob:token2"；未设置时不启用认证
+ * - AUTH_SECRET: Cookie 签名密钥（未设置时每次启动随机生成，重启后需重新登录）
+ * - AUTH_COOKIE_MAX_AGE: Cookie 有效期（秒），默认 7 天
+ * - AUTH_ADMINS: 管理员用户 ID 列表，逗号分隔（可查看所有用户的用量等）
+ */
+
+export interface AuthUser {
+  id: string;
+}
+
+// 认证通过后挂载到 req.user（扩展 Express 的 Request 类型）
+declare module "express-serve-static-core" {
+  interface Request {
+    user?: AuthUser;
+  }
+}
+
+export const AUTH_COOKIE_NAME = "copilot_auth";
+
+// Token -> 用户 ID
+const tokenUsers = new Map<string, string>();
+for (const entry of (process.env.AUTH_TOKENS || "").split(",")) {
+  const index = entry.indexOf(":");
+  if (index <= 0) continue;
+  const userId = entry.slice(0, index).trim();
+  const token = entry.slice(index + 1).trim();
+  if (userId && token) {
+    tokenUsers.set(token, userId);
+  }
+}
+
+// 是否启用认证
+export const authEnabled = tokenUsers.size > 0;
+
+// 管理员用户
+const adminUsers = new Set(
+  (process.env.AUTH_ADMINS || "").split(",").map((id) => id.trim()).filter(Boolean)
+);
+
+const cookieSecret = process.env.AUTH_SECRET || randomBytes(32).toString("hex");
+const cookieMaxAge = Number(process.env.AUTH_COOKIE_MAX_AGE) || 7 * 24 * 60 * 60;
+
+if (authEnabled) {
+  console.log(`🔐 已启用认证，共 ${tokenUsers.size} 个用户`);
+  if (!process.env.AUTH_SECRET) {
+    console.warn("⚠️ 未设置 AUTH_SECRET，使用随机密钥签名 Cookie，重启后需要重新登录");
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * 根据 Token 查找用户
+ */
+export function verifyToken(token: string): AuthUser | null {
+  for (const [candidate, userId] of tokenUsers) {
+    if (safeEqual(candidate, token)) {
+      return { id: userId };
+    }
+  }
+  return null;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", cookieSecret).update(payload).digest("base64url");
+}
+
+/**
+ * 生成签名 Cookie 值：base64url(userId).expires.signature
+ */
+export function createAuthCookie(user: AuthUser): { value: string; maxAge: number } {
+  const expires = Math.floor(Date.now() / 1000) + cookieMaxAge;
+  const payload = `${Buffer.from(user.id).toString("base64url")}.${expires}`;
+  return { value: `${payload}.${sign(payload)}`, maxAge: cookieMaxAge };
+}
+
+/**
+ * 校验签名 Cookie
+ */
+export function verifyAuthCookie(value: string): AuthUser | null {
+  const parts = value.split(".");
+  if (parts.length !== 3) return null;
+  const [encodedId, expires, signature] = parts;
+  if (!safeEqual(sign(`${encodedId}.${expires}`), signature)) return null;
+  if (Number(expires) < Date.now() / 1000) return null;
+  return { id: Buffer.from(encodedId, "base64url").toString() };
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+  for (const pair of header.split(";")) {
+    const index = pair.indexOf("=");
+    if (index < 0) continue;
+    const key = pair.slice(0, index).trim();
+    try {
+      cookies[key] = decodeURIComponent(pair.slice(index + 1).trim());
+    } catch {
+      // 忽略无法解码的 Cookie
+    }
+  }
+  return cookies;
+}
+
+/**
+ * 从 Authorization 头或 Cookie 中解析用户
+ */
+function authenticate(authorization: string | undefined, cookieHeader: string | undefined): AuthUser | null {
+  if (authorization?.startsWith("Bearer ")) {
+    return verifyToken(authorization.slice("Bearer ".length).trim());
+  }
+  const cookie = parseCookies(cookieHeader)[AUTH_COOKIE_NAME];
+  return cookie ? verifyAuthCookie(cookie) : null;
+}
+
+/**
+ * Express 认证中间件
+ * 未启用认证时直接放行
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  if (!authEnabled) {
+    next();
+    return;
+  }
+
+  const user = authenticate(req.headers.authorization, req.headers.cookie);
+  if (!user) {
+    res.status(401).json({
+      success: false,
+      error: "未授权，请先登录",
+    });
+    return;
+  }
+
+  req.user = user;
+  next();
+}
+
+/**
+ * Socket.IO 握手认证中间件
+ * 支持 handshake.auth.token、Authorization 头和 Cookie
+ */
+export function socketAuth(socket: Socket, next: (err?: Error) => void): void {
+  if (!authEnabled) {
+    next();
+    return;
+  }
+
+  const { headers, auth } = socket.handshake;
+  const token = typeof auth?.token === "string" ? auth.token : undefined;
+  const user = token
+    ? verifyToken(token)
+    : authenticate(headers.authorization, headers.cookie);
+
+  if (!user) {
+    next(new Error("未授权"));
+    return;
+  }
+
+  socket.data.user = user;
+  next();
+}
+
+/**
+ * 获取请求所属用户 ID（未启用认证时返回 undefined，表示不做归属过滤）
+ */
+export function getUserId(source: Request | Socket): string | undefined {
+  if ("handshake" in source) {
+    return (source.data.user as AuthUser | undefined)?.id;
+  }
+  return source.user?.id;
+}
+
+/**
+ * 判断用户是否为管理员（未启用认证时视为管理员）
+ */
+export function isAdmin(userId?: string): boolean {
+  if (!authEnabled) return true;
+  return userId !== undefined && adminUsers.has(userId);
+}
+
+/**
+ * 解析允许的跨域来源
+ * 未配置 CORS_ORIGIN 时：启用认证则仅允许同源，否则允许任意来源
+ */
+export function getCorsOrigin(): string | string[] | boolean {
+  const configured = process.env.CORS_ORIGIN;
+  if (configured) {
+    const origins = configured.split(",").map((o) => o.trim()).filter(Boolean);
+    return origins.length === 1 ? origins[0] : origins;
+  }
+  return authEnabled ? false : "*";
+}
@@ -0,0 +1,801 @@
+/**
+ * 数学表达式计算器
+ * 词法分析 -> 语法分析（AST）-> 求值，不使用 eval / Function
+ *
+ * 支持：
+ * - 运算符优先级：+ - < * / % < ^（右结合，也可写作 **），一元正负号
+ * - 变量（由调用方传入）、常量（pi、e、tau、phi）、命名函数（sqrt、sin、log ...）
+ * - 单位：数字后直接跟单位（如 `5 km`、`60 km/h`），用 `to` / `in` 换算（如 `5 km to mi`）
+ * - 精确模式：基于 BigInt 的有理数运算（如 `0.1 + 0.2` 精确等于 `3/10`）
+ */
+
+export type CalcErrorCode =
+  | "EMPTY_EXPRESSION"
+  | "EXPRESSION_TOO_LONG"
+  | "UNEXPECTED_CHARACTER"
+  | "UNEXPECTED_TOKEN"
+  | "UNEXPECTED_END"
+  | "INVALID_NUMBER"
+  | "UNKNOWN_IDENTIFIER"
+  | "UNKNOWN_FUNCTION"
+  | "WRONG_ARGUMENT_COUNT"
+  | "DIVISION_BY_ZERO"
+  | "DIMENSION_MISMATCH"
+  | "DOMAIN_ERROR"
+  | "UNSUPPORTED_IN_EXACT_MODE"
+  | "NESTING_TOO_DEEP"
+  | "RESULT_TOO_LARGE";
+
+/**
+ * 计算错误（包含错误码和出错位置，位置从 0 开始）
+ */
+export class CalcError extends Error {
+  constructor(
+    public readonly code: CalcErrorCode,
+    message: string,
+    public readonly position: number
+  ) {
+    super(message);
+    this.name = "CalcError";
+  }
+}
+
+export type CalcMode = "float" | "exact";
+
+export interface CalcOptions {
+  /** 变量表，例如 { x: 3 } */
+  variables?: Record<string, number>;
+  /** 计算模式：float（浮点，默认）| exact（精确有理数） */
+  mode?: CalcMode;
+}
+
+export interface CalcResult {
+  /** 数值结果（精确模式下为近似值，超出浮点范围时为 ±Infinity） */
+  value: number;
+  /** 精确模式下的分数表示，例如 "3/10" */
+  exact?: string;
+  /** 结果单位；无量纲时为空 */
+  unit?: string;
+}
+
+const MAX_EXPRESSION_LENGTH = 1000;
+const MAX_NESTING_DEPTH = 100;
+// 精确模式下数值的最大二进制位数（约 3 万位十进制数字）
+const MAX_EXACT_BITS = 100_000;
+
+// ===== 词法分析 =====
+
+type Token =
+  | { type: "number"; raw: string; pos: number }
+  | { type: "ident"; name: string; pos: number }
+  | { type: "op"; op: string; pos: number }
+  | { type: "end"; pos: number };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // 数字：123、1.5、.5、1e-3
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(input.slice(i));
+      if (!match) {
+        throw new CalcError("INVALID_NUMBER", `无效的数字（位置 ${i}）`, i);
+      }
+      tokens.push({ type: "number", raw: match[0], pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(input.slice(i))!;
+      tokens.push({ type: "ident", name: match[0], pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === "*" && input[i + 1] === "*") {
+      tokens.push({ type: "op", op: "^", pos: i });
+      i += 2;
+      continue;
+    }
+
+    if ("+-*/%^(),".includes(ch)) {
+      tokens.push({ type: "op", op: ch, pos: i });
+      i++;
+      continue;
+    }
+
+    throw new CalcError("UNEXPECTED_CHARACTER", `不允许的字符 '${ch}'（位置 ${i}）`, i);
+  }
+  tokens.push({ type: "end", pos: input.length });
+  return tokens;
+}
+
+// ===== 单位、常量与函数 =====
+
+type Dims = Record<string, number>;
+
+// 单位定义：换算到国际单位制基本单位的系数（十进制字符串，便于精确模式使用）
+const UNITS: Record<string, { factor: string; dims: Dims }> = {
+  // 长度
+  m: { factor: "1", dims: { m: 1 } },
+  km: { factor: "1000", dims: { m: 1 } },
+  cm: { factor: "0.01", dims: { m: 1 } },
+  mm: { factor: "0.001", dims: { m: 1 } },
+  mi: { factor: "1609.344", dims: { m: 1 } },
+  yd: { factor: "0.9144", dims: { m: 1 } },
+  ft: { factor: "0.3048", dims: { m: 1 } },
+  in: { factor: "0.0254", dims: { m: 1 } },
+  // 质量
+  kg: { factor: "1", dims: { kg: 1 } },
+  g: { factor: "0.001", dims: { kg: 1 } },
+  mg: { factor: "0.000001", dims: { kg: 1 } },
+  t: { factor: "1000", dims: { kg: 1 } },
+  lb: { factor: "0.45359237", dims: { kg: 1 } },
+  oz: { factor: "0.028349523125", dims: { kg: 1 } },
+  // 时间
+  s: { factor: "1", dims: { s: 1 } },
+  ms: { factor: "0.001", dims: { s: 1 } },
+  min: { factor: "60", dims: { s: 1 } },
+  h: { factor: "3600", dims: { s: 1 } },
+  day: { factor: "86400", dims: { s: 1 } },
+  week: { factor: "604800", dims: { s: 1 } },
+  // 体积
+  L: { factor: "0.001", dims: { m: 3 } },
+  mL: { factor: "0.000001", dims: { m: 3 } },
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  PI: Math.PI,
+  e: Math.E,
+  E: Math.E,
+  tau: 2 * Math.PI,
+  phi: (1 + Math.sqrt(5)) / 2,
+};
+
+// 命名函数：[最少参数, 最多参数, 浮点实现]
+const FUNCTIONS: Record<string, [number, number, (...args: number[]) => number]> = {
+  sqrt: [1, 1, Math.sqrt],
+  cbrt: [1, 1, Math.cbrt],
+  abs: [1, 1, Math.abs],
+  sign: [1, 1, Math.sign],
+  floor: [1, 1, Math.floor],
+  ceil: [1, 1, Math.ceil],
+  round: [1, 1, Math.round],
+  trunc: [1, 1, Math.trunc],
+  exp: [1, 1, Math.exp],
+  log: [1, 2, (x, base) => (base === undefined ? Math.log(x) : Math.log(x) / Math.log(base))],
+  ln: [1, 1, Math.log],
+  log2: [1, 1, Math.log2],
+  log10: [1, 1, Math.log10],
+  sin: [1, 1, Math.sin],
+  cos: [1, 1, Math.cos],
+  tan: [1, 1, Math.tan],
+  asin: [1, 1, Math.asin],
+  acos: [1, 1, Math.acos],
+  atan: [1, 1, Math.atan],
+  atan2: [2, 2, Math.atan2],
+  sinh: [1, 1, Math.sinh],
+  cosh: [1, 1, Math.cosh],
+  tanh: [1, 1, Math.tanh],
+  pow: [2, 2, Math.pow],
+  hypot: [1, Infinity, Math.hypot],
+  min: [1, Infinity, Math.min],
+  max: [1, Infinity, Math.max],
+};
+
+// 保留量纲的函数（参数可以带单位，结果单位与参数一致）
+const DIMENSION_PRESERVING = new Set(["abs", "floor", "ceil", "round", "trunc", "min", "max", "hypot"]);
+
+// ===== 语法分析 =====
+
+type Node =
+  | { type: "number"; raw: string; pos: number }
+  | { type: "ident"; name: string; pos: number }
+  | { type: "unit"; name: string; pos: number }
+  | { type: "unary"; op: "-" | "+"; arg: Node; pos: number }
+  | { type: "binary"; op: string; left: Node; right: Node; pos: number }
+  | { type: "call"; name: string; args: Node[]; pos: number };
+
+// 顶层表达式，可选换算目标：`5 km to mi`
+interface ParsedExpression {
+  expr: Node;
+  target?: { node: Node; text: string; pos: number };
+}
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly input: string,
+    private readonly isVariable: (name: string) => boolean
+  ) {}
+
+  parse(): ParsedExpression {
+    const expr = this.additive();
+    let target: ParsedExpression["target"];
+    if (this.isConversionKeyword()) {
+      const keyword = this.next();
+      const start = this.peek().pos;
+      const node = this.multiplicative();
+      target = { node, text: this.input.slice(start, this.peek().pos).trim(), pos: keyword.pos };
+    }
+    const token = this.peek();
+    if (token.type !== "end") {
+      throw this.unexpected(token);
+    }
+    return { expr, target };
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOp(token: Token, op: string): boolean {
+    return token.type === "op" && token.op === op;
+  }
+
+  private expectOp(op: string): Token {
+    const token = this.next();
+    if (!this.isOp(token, op)) {
+      throw this.unexpected(token, `应为 '${op}'`);
+    }
+    return token;
+  }
+
+  private unexpected(token: Token, hint?: string): CalcError {
+    if (token.type === "end") {
+      return new CalcError("UNEXPECTED_END", `表达式不完整${hint ? `，${hint}` : ""}`, token.pos);
+    }
+    const text = token.type === "number" ? token.raw : token.type === "ident" ? token.name : token.op;
+    return new CalcError(
+      "UNEXPECTED_TOKEN",
+      `意外的符号 '${text}'（位置 ${token.pos}）${hint ? `，${hint}` : ""}`,
+      token.pos
+    );
+  }
+
+  private enter(pos: number) {
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      throw new CalcError("NESTING_TOO_DEEP", "表达式嵌套层数过多", pos);
+    }
+  }
+
+  // 标识符是否作为单位使用（变量、常量、函数调用优先）
+  private isUnitIdent(token: Token): token is Extract<Token, { type: "ident" }> {
+    return (
+      token.type === "ident" &&
+      Object.hasOwn(UNITS, token.name) &&
+      !this.isVariable(token.name) &&
+      !Object.hasOwn(CONSTANTS, token.name) &&
+      !this.isOp(this.peek(1), "(")
+    );
+  }
+
+  // 换算关键字：to，或后面紧跟单位的 in
+  private isConversionKeyword(): boolean {
+    const token = this.peek();
+    if (token.type !== "ident") return false;
+    if (token.name === "to") return true;
+    return token.name === "in" && this.isUnitIdent(this.peek(1));
+  }
+
+  private additive(): Node {
+    let left = this.multiplicative();
+    while (this.isOp(this.peek(), "+") || this.isOp(this.peek(), "-")) {
+      const token = this.next() as Extract<Token, { type: "op" }>;
+      const right = this.multiplicative();
+      left = { type: "binary", op: token.op, left, right, pos: token.pos };
+    }
+    return left;
+  }
+
+  private multiplicative(): Node {
+    let left = this.unary();
+    while (this.isOp(this.peek(), "*") || this.isOp(this.peek(), "/") || this.isOp(this.peek(), "%")) {
+      const token = this.next() as Extract<Token, { type: "op" }>;
+      const right = this.unary();
+      left = { type: "binary", op: token.op, left, right, pos: token.pos };
+    }
+    return left;
+  }
+
+  private unary(): Node {
+    const token = this.peek();
+    if (this.isOp(token, "-") || this.isOp(token, "+")) {
+      this.next();
+      this.enter(token.pos);
+      const arg = this.unary();
+      this.depth--;
+      return { type: "unary", op: (token as Extract<Token, { type: "op" }>).op as "-" | "+", arg, pos: token.pos };
+    }
+    return this.power();
+  }
+
+  private power(): Node {
+    const base = this.postfix();
+    const token = this.peek();
+    if (this.isOp(token, "^")) {
+      this.next();
+      this.enter(token.pos);
+      // 右结合，指数允许带一元符号：2^-1
+      const exponent = this.unary();
+      this.depth--;
+      return { type: "binary", op: "^", left: base, right: exponent, pos: token.pos };
+    }
+    return base;
+  }
+
+  // 数值后紧跟单位：5 km、3 m^2
+  // 数字后的第一个 in 视为英寸（1 in in cm），其余位置的 in 视为换算关键字（5 ft in m）
+  private postfix(): Node {
+    let node = this.primary();
+    let inchAllowed = node.type === "number";
+    while (this.isUnitIdent(this.peek())) {
+      if (this.isConversionKeyword() && !inchAllowed) break;
+      inchAllowed = false;
+      const token = this.next() as Extract<Token, { type: "ident" }>;
+      let unit: Node = { type: "unit", name: token.name, pos: token.pos };
+      if (this.isOp(this.peek(), "^") && this.peek(1).type === "number") {
+        const caret = this.next();
+        const exponent = this.next() as Extract<Token, { type: "number" }>;
+        unit = { type: "binary", op: "^", left: unit, right: { type: "number", raw: exponent.raw, pos: exponent.pos }, pos: caret.pos };
+      }
+      node = { type: "binary", op: "*", left: node, right: unit, pos: token.pos };
+    }
+    return node;
+  }
+
+  private primary(): Node {
+    const token = this.next();
+
+    if (token.type === "number") {
+      return { type: "number", raw: token.raw, pos: token.pos };
+    }
+
+    if (this.isOp(token, "(")) {
+      this.enter(token.pos);
+      const inner = this.additive();
+      this.expectOp(")");
+      this.depth--;
+      return inner;
+    }
+
+    if (token.type === "ident") {
+      if (this.isOp(this.peek(), "(")) {
+        this.next();
+        this.enter(token.pos);
+        const args: Node[] = [];
+        if (!this.isOp(this.peek(), ")")) {
+          args.push(this.additive());
+          while (this.isOp(this.peek(), ",")) {
+            this.next();
+            args.push(this.additive());
+          }
+        }
+        this.expectOp(")");
+        this.depth--;
+        return { type: "call", name: token.name, args, pos: token.pos };
+      }
+      if (!this.isVariable(token.name) && !Object.hasOwn(CONSTANTS, token.name) && Object.hasOwn(UNITS, token.name)) {
+        return { type: "unit", name: token.name, pos: token.pos };
+      }
+      return { type: "ident", name: token.name, pos: token.pos };
+    }
+
+    throw this.unexpected(token);
+  }
+}
+
+// ===== 数值运算（浮点 / 精确有理数） =====
+
+interface Rational {
+  n: bigint;
+  d: bigint;
+}
+
+interface Arithmetic<T> {
+  /** 是否为精确模式 */
+  exact: boolean;
+  literal(raw: string, pos: number): T;
+  fromNumber(value: number, pos: number): T;
+  add(a: T, b: T): T;
+  sub(a: T, b: T): T;
+  mul(a: T, b: T): T;
+  div(a: T, b: T, pos: number): T;
+  mod(a: T, b: T, pos: number): T;
+  pow(a: T, b: T, pos: number): T;
+  neg(a: T): T;
+  isInteger(a: T): boolean;
+  toNumber(a: T): number;
+  /** 调用命名函数（参数个数已校验） */
+  call(name: string, args: T[], pos: number): T;
+}
+
+const floatArithmetic: Arithmetic<number> = {
+  exact: false,
+  literal: (raw) => Number(raw),
+  fromNumber: (value) => value,
+  add: (a, b) => a + b,
+  sub: (a, b) => a - b,
+  mul: (a, b) => a * b,
+  div: (a, b, pos) => {
+    if (b === 0) throw new CalcError("DIVISION_BY_ZERO", `除数为零（位置 ${pos}）`, pos);
+    return a / b;
+  },
+  mod: (a, b, pos) => {
+    if (b === 0) throw new CalcError("DIVISION_BY_ZERO", `取模的除数为零（位置 ${pos}）`, pos);
+    return a % b;
+  },
+  pow: (a, b) => Math.pow(a, b),
+  neg: (a) => -a,
+  isInteger: (a) => Number.isInteger(a),
+  toNumber: (a) => a,
+  call: (name, args, pos) => {
+    const result = FUNCTIONS[name][2](...args);
+    if (Number.isNaN(result)) {
+      throw new CalcError("DOMAIN_ERROR", `函数 ${name} 的参数超出定义域（位置 ${pos}）`, pos);
+    }
+    return result;
+  },
+};
+
+function gcd(a: bigint, b: bigint): bigint {
+  a = a < 0n ? -a : a;
+  b = b < 0n ? -b : b;
+  while (b !== 0n) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+function bitLength(value: bigint): number {
+  return (value < 0n ? -value : value).toString(2).length;
+}
+
+function rational(n: bigint, d: bigint): Rational {
+  if (d < 0n) {
+    n = -n;
+    d = -d;
+  }
+  const g = gcd(n, d) || 1n;
+  return { n: n / g, d: d / g };
+}
+
+function parseDecimal(raw: string, pos: number): Rational {
+  const match = /^(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/.exec(raw);
+  if (!match) {
+    throw new CalcError("INVALID_NUMBER", `无效的数字 '${raw}'（位置 ${pos}）`, pos);
+  }
+  const [, intPart = "", fracPart = "", expPart = "0"] = match;
+  let n = BigInt((intPart + fracPart) || "0");
+  let d = 10n ** BigInt(fracPart.length);
+  const exponent = Number(expPart);
+  if (Math.abs(exponent) * Math.log2(10) > MAX_EXACT_BITS) {
+    throw new CalcError("RESULT_TOO_LARGE", `指数过大（位置 ${pos}）`, pos);
+  }
+  if (exponent > 0) n *= 10n ** BigInt(exponent);
+  if (exponent < 0) d *= 10n ** BigInt(-exponent);
+  return rational(n, d);
+}
+
+function compareRational(a: Rational, b: Rational): number {
+  const diff = a.n * b.d - b.n * a.d;
+  return diff === 0n ? 0 : diff < 0n ? -1 : 1;
+}
+
+// 向负无穷取整
+function floorRational(value: Rational): bigint {
+  const q = value.n / value.d;
+  return value.n < 0n && q * value.d !== value.n ? q - 1n : q;
+}
+
+const exactArithmetic: Arithmetic<Rational> = {
+  exact: true,
+  literal: parseDecimal,
+  fromNumber: (value, pos) => {
+    if (!Number.isFinite(value)) {
+      throw new CalcError("DOMAIN_ERROR", `无法精确表示的数值（位置 ${pos}）`, pos);
+    }
+    const magnitude = parseDecimal(String(Math.abs(value)), pos);
+    return value < 0 ? rational(-magnitude.n, magnitude.d) : magnitude;
+  },
+  add: (a, b) => rational(a.n * b.d + b.n * a.d, a.d * b.d),
+  sub: (a, b) => rational(a.n * b.d - b.n * a.d, a.d * b.d),
+  mul: (a, b) => rational(a.n * b.n, a.d * b.d),
+  div: (a, b, pos) => {
+    if (b.n === 0n) throw new CalcError("DIVISION_BY_ZERO", `除数为零（位置 ${pos}）`, pos);
+    return rational(a.n * b.d, a.d * b.n);
+  },
+  mod: (a, b, pos) => {
+    if (b.n === 0n) throw new CalcError("DIVISION_BY_ZERO", `取模的除数为零（位置 ${pos}）`, pos);
+    // a - b * trunc(a / b)，与浮点模式的 % 语义一致
+    const quotient = (a.n * b.d) / (a.d * b.n);
+    return exactArithmetic.sub(a, exactArithmetic.mul(b, rational(quotient, 1n)));
+  },
+  pow: (a, b, pos) => {
+    if (b.d !== 1n) {
+      throw new CalcError("UNSUPPORTED_IN_EXACT_MODE", `精确模式下指数必须是整数（位置 ${pos}）`, pos);
+    }
+    // 按结果的位数限制（而不是指数本身），10^1000 这类可以精确表示的结果不受影响
+    const exponent = b.n < 0n ? -b.n : b.n;
+    if (BigInt(Math.max(bitLength(a.n), bitLength(a.d))) * exponent > BigInt(MAX_EXACT_BITS)) {
+      throw new CalcError("RESULT_TOO_LARGE", `乘方结果过大（位置 ${pos}）`, pos);
+    }
+    if (b.n < 0n && a.n === 0n) {
+      throw new CalcError("DIVISION_BY_ZERO", `零的负数次幂（位置 ${pos}）`, pos);
+    }
+    const n = a.n ** exponent;
+    const d = a.d ** exponent;
+    return b.n < 0n ? rational(d, n) : rational(n, d);
+  },
+  neg: (a) => ({ n: -a.n, d: a.d }),
+  isInteger: (a) => a.d === 1n,
+  toNumber: (a) => {
+    // 分子分母都超出浮点范围时，先同时右移再相除
+    const shift = BigInt(Math.max(0, Math.min(bitLength(a.n), bitLength(a.d)) - 1000));
+    return Number(a.n >> shift) / Number(a.d >> shift);
+  },
+  // 精确模式只支持结果仍为有理数的函数
+  call: (name, args, pos) => {
+    const zero = rational(0n, 1n);
+    switch (name) {
+      case "abs":
+        return compareRational(args[0], zero) < 0 ? rational(-args[0].n, args[0].d) : args[0];
+      case "sign":
+        return rational(BigInt(compareRational(args[0], zero)), 1n);
+      case "min":
+        return args.reduce((a, b) => (compareRational(b, a) < 0 ? b : a));
+      case "max":
+        return args.reduce((a, b) => (compareRational(b, a) > 0 ? b : a));
+      case "floor":
+        return rational(floorRational(args[0]), 1n);
+      case "ceil":
+        return rational(-floorRational(rational(-args[0].n, args[0].d)), 1n);
+      case "trunc":
+        return rational(args[0].n / args[0].d, 1n);
+      case "round":
+        // 与 Math.round 一致：floor(x + 1/2)
+        return rational(floorRational(exactArithmetic.add(args[0], rational(1n, 2n))), 1n);
+      case "pow":
+        return exactArithmetic.pow(args[0], args[1], pos);
+      default:
+        throw new CalcError("UNSUPPORTED_IN_EXACT_MODE", `精确模式不支持函数 '${name}'（位置 ${pos}）`, pos);
+    }
+  },
+};
+
+// ===== 求值 =====
+
+interface Quantity<T> {
+  value: T;
+  dims: Dims;
+}
+
+function sameDims(a: Dims, b: Dims): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    if ((a[key] || 0) !== (b[key] || 0)) return false;
+  }
+  return true;
+}
+
+function combineDims(a: Dims, b: Dims, sign: 1 | -1): Dims {
+  const result: Dims = { ...a };
+  for (const [key, exp] of Object.entries(b)) {
+    const next = (result[key] || 0) + sign * exp;
+    if (next === 0) delete result[key];
+    else result[key] = next;
+  }
+  return result;
+}
+
+function scaleDims(a: Dims, factor: number): Dims {
+  const result: Dims = {};
+  for (const [key, exp] of Object.entries(a)) {
+    result[key] = exp * factor;
+  }
+  return result;
+}
+
+function isDimensionless(dims: Dims): boolean {
+  return Object.keys(dims).length === 0;
+}
+
+/**
+ * 格式化量纲，例如 { m: 1, s: -2 } -> "m/s^2"
+ */
+function formatDims(dims: Dims): string | undefined {
+  const entries = Object.entries(dims).sort(([a], [b]) => a.localeCompare(b));
+  if (entries.length === 0) return undefined;
+  const part = (key: string, exp: number) => (exp === 1 ? key : `${key}^${exp}`);
+  const numerator = entries.filter(([, exp]) => exp > 0).map(([key, exp]) => part(key, exp));
+  const denominator = entries.filter(([, exp]) => exp < 0).map(([key, exp]) => part(key, -exp));
+  const top = numerator.length > 0 ? numerator.join("*") : "1";
+  if (denominator.length === 0) return top;
+  return `${top}/${denominator.length > 1 ? `(${denominator.join("*")})` : denominator[0]}`;
+}
+
+class Evaluator<T> {
+  constructor(
+    private readonly math: Arithmetic<T>,
+    private readonly variables: Record<string, number>
+  ) {}
+
+  evaluate(node: Node): Quantity<T> {
+    switch (node.type) {
+      case "number":
+        return { value: this.math.literal(node.raw, node.pos), dims: {} };
+
+      case "ident": {
+        if (Object.prototype.hasOwnProperty.call(this.variables, node.name)) {
+          return { value: this.math.fromNumber(this.variables[node.name], node.pos), dims: {} };
+        }
+        if (Object.hasOwn(CONSTANTS, node.name)) {
+          if (this.math.exact) {
+            throw new CalcError("UNSUPPORTED_IN_EXACT_MODE", `精确模式不支持无理数常量 '${node.name}'（位置 ${node.pos}）`, node.pos);
+          }
+          return { value: this.math.fromNumber(CONSTANTS[node.name], node.pos), dims: {} };
+        }
+        throw new CalcError("UNKNOWN_IDENTIFIER", `未知的变量或常量 '${node.name}'（位置 ${node.pos}）`, node.pos);
+      }
+
+      case "unit": {
+        const unit = UNITS[node.name];
+        return { value: this.math.literal(unit.factor, node.pos), dims: { ...unit.dims } };
+      }
+
+      case "unary": {
+        const arg = this.evaluate(node.arg);
+        return node.op === "-" ? { value: this.math.neg(arg.value), dims: arg.dims } : arg;
+      }
+
+      case "binary":
+        return this.binary(node.op, this.evaluate(node.left), this.evaluate(node.right), node.pos);
+
+      case "call":
+        return this.call(node.name, node.args.map((arg) => this.evaluate(arg)), node.pos);
+    }
+  }
+
+  /**
+   * 求值顶层表达式，处理单位换算
+   */
+  evaluateTop(parsed: ParsedExpression): { value: T; unit?: string } {
+    const result = this.evaluate(parsed.expr);
+    if (!parsed.target) {
+      return { value: result.value, unit: formatDims(result.dims) };
+    }
+    const { node, text, pos } = parsed.target;
+    const target = this.evaluate(node);
+    if (!sameDims(result.dims, target.dims)) {
+      throw new CalcError(
+        "DIMENSION_MISMATCH",
+        `无法将 ${formatDims(result.dims) || "无量纲数"} 换算为 ${text}（位置 ${pos}）`,
+        pos
+      );
+    }
+    return { value: this.math.div(result.value, target.value, pos), unit: text };
+  }
+
+  private binary(op: string, left: Quantity<T>, right: Quantity<T>, pos: number): Quantity<T> {
+    switch (op) {
+      case "+":
+      case "-":
+        if (!sameDims(left.dims, right.dims)) {
+          throw new CalcError(
+            "DIMENSION_MISMATCH",
+            `单位不一致，无法${op === "+" ? "相加" : "相减"}: ${formatDims(left.dims) || "无量纲数"} 与 ${formatDims(right.dims) || "无量纲数"}（位置 ${pos}）`,
+            pos
+          );
+        }
+        return {
+          value: op === "+" ? this.math.add(left.value, right.value) : this.math.sub(left.value, right.value),
+          dims: left.dims,
+        };
+      case "*":
+        return { value: this.math.mul(left.value, right.value), dims: combineDims(left.dims, right.dims, 1) };
+      case "/":
+        return { value: this.math.div(left.value, right.value, pos), dims: combineDims(left.dims, right.dims, -1) };
+      case "%":
+        if (!sameDims(left.dims, right.dims)) {
+          throw new CalcError("DIMENSION_MISMATCH", `取模运算的单位不一致（位置 ${pos}）`, pos);
+        }
+        return { value: this.math.mod(left.value, right.value, pos), dims: left.dims };
+      case "^": {
+        if (!isDimensionless(right.dims)) {
+          throw new CalcError("DIMENSION_MISMATCH", `指数不能带单位（位置 ${pos}）`, pos);
+        }
+        if (!isDimensionless(left.dims) && !this.math.isInteger(right.value)) {
+          throw new CalcError("DIMENSION_MISMATCH", `带单位的数只能进行整数次幂运算（位置 ${pos}）`, pos);
+        }
+        return {
+          value: this.math.pow(left.value, right.value, pos),
+          dims: scaleDims(left.dims, this.math.toNumber(right.value)),
+        };
+      }
+      default:
+        throw new CalcError("UNEXPECTED_TOKEN", `未知运算符 '${op}'（位置 ${pos}）`, pos);
+    }
+  }
+
+  private call(name: string, args: Array<Quantity<T>>, pos: number): Quantity<T> {
+    const spec = Object.hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+    if (!spec) {
+      throw new CalcError("UNKNOWN_FUNCTION", `未知函数 '${name}'（位置 ${pos}）`, pos);
+    }
+    const [minArgs, maxArgs] = spec;
+    if (args.length < minArgs || args.length > maxArgs) {
+      const expected = minArgs === maxArgs ? `${minArgs}` : maxArgs === Infinity ? `至少 ${minArgs}` : `${minArgs}~${maxArgs}`;
+      throw new CalcError("WRONG_ARGUMENT_COUNT", `函数 ${name} 需要 ${expected} 个参数，实际 ${args.length} 个（位置 ${pos}）`, pos);
+    }
+
+    // 量纲处理
+    let dims: Dims = {};
+    if (name === "sqrt" || name === "cbrt") {
+      const root = name === "sqrt" ? 2 : 3;
+      if (Object.values(args[0].dims).some((exp) => exp % root !== 0)) {
+        throw new CalcError("DIMENSION_MISMATCH", `函数 ${name} 的参数单位无法开方（位置 ${pos}）`, pos);
+      }
+      dims = scaleDims(args[0].dims, 1 / root);
+    } else if (DIMENSION_PRESERVING.has(name)) {
+      if (args.some((arg) => !sameDims(arg.dims, args[0].dims))) {
+        throw new CalcError("DIMENSION_MISMATCH", `函数 ${name} 的参数单位不一致（位置 ${pos}）`, pos);
+      }
+      dims = args[0].dims;
+    } else if (args.some((arg) => !isDimensionless(arg.dims))) {
+      throw new CalcError("DIMENSION_MISMATCH", `函数 ${name} 的参数不能带单位（位置 ${pos}）`, pos);
+    }
+
+    return { value: this.math.call(name, args.map((arg) => arg.value), pos), dims };
+  }
+}
+
+/**
+ * 计算数学表达式
+ * 出错时抛出 CalcError
+ */
+export function evaluateExpression(expression: string, options: CalcOptions = {}): CalcResult {
+  const { variables = {}, mode = "float" } = options;
+
+  if (expression.trim().length === 0) {
+    throw new CalcError("EMPTY_EXPRESSION", "表达式为空", 0);
+  }
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new CalcError("EXPRESSION_TOO_LONG", `表达式长度不能超过 ${MAX_EXPRESSION_LENGTH} 个字符`, MAX_EXPRESSION_LENGTH);
+  }
+
+  const isVariable = (name: string) => Object.prototype.hasOwnProperty.call(variables, name);
+  const parsed = new Parser(tokenize(expression), expression, isVariable).parse();
+
+  const finish = <T>(math: Arithmetic<T>): CalcResult & { raw: T } => {
+    const result = new Evaluator(math, variables).evaluateTop(parsed);
+    const value = math.toNumber(result.value);
+    // 精确模式的结果以分数表示为准，近似值可以超出浮点范围
+    if (!Number.isFinite(value) && !math.exact) {
+      throw new CalcError("RESULT_TOO_LARGE", "计算结果超出数值范围", 0);
+    }
+    return { value, unit: result.unit, raw: result.value };
+  };
+
+  if (mode === "exact") {
+    const { raw, ...result } = finish(exactArithmetic);
+    return { ...result, exact: raw.d === 1n ? `${raw.n}` : `${raw.n}/${raw.d}` };
+  }
+
+  const { raw: _raw, ...result } = finish(floatArithmetic);
+  return result;
+}
@@ -0,0 +1,329 @@
+import { createHash, randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import fs from "fs";
+import path from "path";
+import { checkUploadQuota } from "./limits.js";
+import {
+  extractUpload,
+  getUploadDir,
+  getUsedBytes,
+  registerUploads,
+  tempUploadName,
+  type UploadInfo,
+} from "./uploads.js";
+
+/**
+ * 可续传的分片上传
+ * 协议参考 tus：创建上传 -> 按偏移量追加分片（PATCH，可带分片校验和）-> 完成；
+ * 连接中断后用 HEAD 查询服务器已接收的偏移量，从该处继续上传
+ * 完成后的文件与普通上传一样登记到上传索引（去重、配额、文档提取）
+ *
+ * 未完成的上传保存在 uploads/.partial/ 下，服务重启后可继续；
+ * 超过 UPLOAD_TTL_HOURS（默认 24 小时）没有新分片的上传会被清理
+ *
+ * 环境变量配置：
+ * - CHUNKED_UPLOAD_MAX_MB: 分片上传的单个文件大小上限（MB），默认 200
+ * - UPLOAD_CHUNK_MB: 单个分片的大小上限（MB），默认 8
+ */
+
+// 进行中的分片上传
+export interface ChunkedUpload {
+  id: string;
+  /** 所属用户 ID（未启用认证时为空） */
+  ownerId?: string;
+  filename: string;
+  mimetype: string;
+  /** 文件总大小（字节） */
+  size: number;
+  /** 已接收的字节数 */
+  offset: number;
+  /** 整个文件的 SHA-256（十六进制），完成时校验 */
+  sha256?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// 分片上传失败（status 为建议的 HTTP 状态码）
+export class ChunkedUploadError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    /** 偏移量不一致时返回服务器当前的偏移量 */
+    readonly offset?: number
+  ) {
+    super(message);
+    this.name = "ChunkedUploadError";
+  }
+}
+
+export const CHUNKED_UPLOAD_MAX_BYTES = (Number(process.env.CHUNKED_UPLOAD_MAX_MB) || 200) * 1024 * 1024;
+export const UPLOAD_CHUNK_BYTES = (Number(process.env.UPLOAD_CHUNK_MB) || 8) * 1024 * 1024;
+
+const ttlHours = Number(process.env.UPLOAD_TTL_HOURS ?? 24);
+const STALE_MS = (Number.isFinite(ttlHours) && ttlHours > 0 ? ttlHours : 24) * 60 * 60 * 1000;
+const CLEANUP_INTERVAL = 60 * 60 * 1000;
+
+// 支持的分片校验算法（Upload-Checksum: <算法> <Base64 摘要>）
+const CHECKSUM_ALGORITHMS = ["sha256", "sha1", "md5"];
+
+/**
+ * 上传进度事件
+ * - progress: { upload }
+ * - complete: { upload, file }
+ */
+export const uploadEvents = new EventEmitter();
+
+const transfers = new Map<string, ChunkedUpload>();
+// 正在写入分片的上传（同一上传的分片必须串行）
+const writing = new Set<string>();
+// 正在完成（校验并登记）的上传，完成期间拒绝其他请求
+const completing = new Set<string>();
+let cleanupTimer: ReturnType<typeof setInterval> | null = null;
+
+function partialDir(): string {
+  return path.join(getUploadDir(), ".partial");
+}
+
+function dataPath(id: string): string {
+  return path.join(partialDir(), `${id}.part`);
+}
+
+function metaPath(id: string): string {
+  return path.join(partialDir(), `${id}.json`);
+}
+
+async function saveMeta(upload: ChunkedUpload) {
+  await fs.promises.writeFile(metaPath(upload.id), JSON.stringify(upload, null, 2), "utf-8");
+}
+
+async function removeTransfer(id: string) {
+  transfers.delete(id);
+  await fs.promises.rm(dataPath(id), { force: true });
+  await fs.promises.rm(metaPath(id), { force: true });
+}
+
+/**
+ * 恢复未完成的分片上传（偏移量以磁盘上已写入的大小为准），并定期清理过期的上传
+ */
+export async function initChunkedUploads(): Promise<void> {
+  await fs.promises.mkdir(partialDir(), { recursive: true });
+  transfers.clear();
+  for (const file of await fs.promises.readdir(partialDir())) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      const upload = JSON.parse(await fs.promises.readFile(path.join(partialDir(), file), "utf-8")) as ChunkedUpload;
+      upload.offset = (await fs.promises.stat(dataPath(upload.id))).size;
+      transfers.set(upload.id, upload);
+    } catch {
+      await removeTransfer(path.basename(file, ".json"));
+    }
+  }
+  await cleanupStaleUploads();
+  if (transfers.size > 0) {
+    console.log(`📦 已恢复 ${transfers.size} 个未完成的分片上传`);
+  }
+
+  if (!cleanupTimer) {
+    cleanupTimer = setInterval(() => void cleanupStaleUploads(), CLEANUP_INTERVAL);
+    cleanupTimer.unref();
+  }
+}
+
+/**
+ * 删除长时间没有新分片的上传
+ */
+export async function cleanupStaleUploads(now = Date.now()): Promise<number> {
+  let removed = 0;
+  for (const upload of Array.from(transfers.values())) {
+    if (upload.updatedAt + STALE_MS <= now && !writing.has(upload.id) && !completing.has(upload.id)) {
+      await removeTransfer(upload.id);
+      removed++;
+    }
+  }
+  if (removed > 0) {
+    console.log(`🧹 已清理 ${removed} 个过期的分片上传`);
+  }
+  return removed;
+}
+
+/**
+ * 获取分片上传（不存在或不属于该用户时返回 undefined）
+ */
+export function getChunkedUpload(id: string, ownerId?: string): ChunkedUpload | undefined {
+  const upload = transfers.get(id);
+  return upload && upload.ownerId === ownerId ? upload : undefined;
+}
+
+function requireUpload(id: string, ownerId?: string): ChunkedUpload {
+  const upload = getChunkedUpload(id, ownerId);
+  if (!upload) {
+    throw new ChunkedUploadError("上传不存在或已过期", 404);
+  }
+  return upload;
+}
+
+/**
+ * 创建分片上传
+ * 文件过大时抛出 ChunkedUploadError；超出上传配额时抛出 LimitError（计入该用户其他未完成的上传）
+ */
+export async function createChunkedUpload(options: {
+  filename: string;
+  mimetype?: string;
+  size: number;
+  sha256?: string;
+  ownerId?: string;
+}): Promise<ChunkedUpload> {
+  const { filename, size, ownerId } = options;
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new ChunkedUploadError("size 参数无效", 400);
+  }
+  if (size > CHUNKED_UPLOAD_MAX_BYTES) {
+    throw new ChunkedUploadError(`文件过大（上限 ${CHUNKED_UPLOAD_MAX_BYTES / 1024 / 1024}MB）`, 413);
+  }
+  if (options.sha256 !== undefined && !/^[0-9a-f]{64}$/i.test(options.sha256)) {
+    throw new ChunkedUploadError("sha256 参数应为 64 位十六进制字符串", 400);
+  }
+
+  const pending = Array.from(transfers.values())
+    .filter((upload) => upload.ownerId === ownerId)
+    .reduce((total, upload) => total + upload.size, 0);
+  checkUploadQuota(getUsedBytes(ownerId) + pending, size);
+
+  const now = Date.now();
+  const upload: ChunkedUpload = {
+    id: randomUUID(),
+    ownerId,
+    filename: path.basename(filename),
+    mimetype: options.mimetype || "application/octet-stream",
+    size,
+    offset: 0,
+    sha256: options.sha256?.toLowerCase(),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await fs.promises.mkdir(partialDir(), { recursive: true });
+  await fs.promises.writeFile(dataPath(upload.id), "");
+  await saveMeta(upload);
+  transfers.set(upload.id, upload);
+  console.log(`📦 开始分片上传: ${upload.filename} (${size} 字节)`);
+  return upload;
+}
+
+/**
+ * 校验分片（checksum 格式为 "<算法> <Base64 摘要>"）
+ */
+function verifyChecksum(chunk: Buffer, checksum: string) {
+  const [algorithm, digest] = checksum.trim().split(/\s+/);
+  if (!CHECKSUM_ALGORITHMS.includes(algorithm?.toLowerCase()) || !digest) {
+    throw new ChunkedUploadError(`不支持的校验算法（可用: ${CHECKSUM_ALGORITHMS.join(", ")}）`, 400);
+  }
+  if (createHash(algorithm.toLowerCase()).update(chunk).digest("base64") !== digest) {
+    throw new ChunkedUploadError("分片校验和不一致", 460);
+  }
+}
+
+/**
+ * 在指定偏移量处追加分片，返回追加后的上传状态
+ * offset 必须等于服务器当前的偏移量（否则返回 409 与当前偏移量，客户端据此续传）
+ */
+export async function appendChunk(
+  id: string,
+  ownerId: string | undefined,
+  offset: number,
+  chunk: Buffer,
+  checksum?: string
+): Promise<ChunkedUpload> {
+  const upload = requireUpload(id, ownerId);
+  if (completing.has(id)) {
+    throw new ChunkedUploadError("该上传正在完成", 409, upload.offset);
+  }
+  if (writing.has(id)) {
+    throw new ChunkedUploadError("该上传正在写入其他分片", 409, upload.offset);
+  }
+  if (offset !== upload.offset) {
+    throw new ChunkedUploadError("Upload-Offset 与服务器不一致", 409, upload.offset);
+  }
+  if (chunk.length === 0 || chunk.length > UPLOAD_CHUNK_BYTES) {
+    throw new ChunkedUploadError(`分片大小应在 1 到 ${UPLOAD_CHUNK_BYTES} 字节之间`, 400);
+  }
+  if (offset + chunk.length > upload.size) {
+    throw new ChunkedUploadError("分片超出文件大小", 413);
+  }
+  if (checksum) {
+    verifyChecksum(chunk, checksum);
+  }
+
+  writing.add(id);
+  try {
+    await fs.promises.appendFile(dataPath(id), chunk);
+    upload.offset += chunk.length;
+    upload.updatedAt = Date.now();
+    await saveMeta(upload);
+  } finally {
+    writing.delete(id);
+  }
+
+  uploadEvents.emit("progress", { upload });
+  return upload;
+}
+
+/**
+ * 完成分片上传：校验大小与整个文件的 SHA-256，登记到上传索引并执行文档提取
+ */
+export async function completeChunkedUpload(id: string, ownerId?: string): Promise<UploadInfo & { deduplicated: boolean }> {
+  const upload = requireUpload(id, ownerId);
+  if (completing.has(id)) {
+    throw new ChunkedUploadError("该上传正在完成", 409, upload.offset);
+  }
+  if (writing.has(id)) {
+    throw new ChunkedUploadError("该上传正在写入分片", 409, upload.offset);
+  }
+  if (upload.offset !== upload.size) {
+    throw new ChunkedUploadError(`上传未完成（已接收 ${upload.offset} / ${upload.size} 字节）`, 409, upload.offset);
+  }
+
+  // 同一上传同时只能完成一次（并发的完成请求返回 409）
+  completing.add(id);
+  try {
+    if (upload.sha256) {
+      const hash = createHash("sha256");
+      for await (const chunk of fs.createReadStream(dataPath(id))) {
+        hash.update(chunk as Buffer);
+      }
+      if (hash.digest("hex") !== upload.sha256) {
+        await removeTransfer(id);
+        throw new ChunkedUploadError("文件校验和不一致，请重新上传", 460);
+      }
+    }
+
+    // 移入用户上传目录后按普通上传登记（去重、配额复核）
+    const tempPath = path.join(getUploadDir(ownerId), tempUploadName());
+    await fs.promises.rename(dataPath(id), tempPath);
+    await removeTransfer(id);
+    const [{ upload: registered, deduplicated }] = await registerUploads(
+      [{ tempPath, originalName: upload.filename, mimetype: upload.mimetype }],
+      ownerId
+    );
+    const extracted =
+      registered.extraction || registered.extractionError ? registered : await extractUpload(registered.id);
+    const file = { ...registered, ...extracted, originalName: upload.filename, deduplicated };
+
+    console.log(`📤 分片上传完成: ${upload.filename}`);
+    uploadEvents.emit("complete", { upload, file });
+    return file;
+  } finally {
+    completing.delete(id);
+  }
+}
+
+/**
+ * 取消分片上传
+ */
+export async function cancelChunkedUpload(id: string, ownerId?: string): Promise<void> {
+  const upload = requireUpload(id, ownerId);
+  if (completing.has(id)) {
+    throw new ChunkedUploadError("该上传正在完成", 409, upload.offset);
+  }
+  await removeTransfer(id);
+}
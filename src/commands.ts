@@ -0,0 +1,89 @@
+import type { SwitchModelMode } from "./copilot.js";
+import {
+  TemplateError,
+  bindTemplateArguments,
+  getTemplate,
+  listTemplates,
+  renderTemplate,
+  templateUsage,
+} from "./templates.js";
+
+/**
+ * 斜杠命令
+ * 以 / 开头的消息在发送前解析：内置命令执行会话操作，其余命令展开同名的提示词模板
+ * 以 // 开头的消息去掉一个 / 后按原文发送
+ */
+
+// 内置命令
+export const SLASH_COMMANDS = [
+  { name: "help", usage: "/help", description: "列出可用的命令与模板" },
+  { name: "model", usage: "/model <模型 ID> [fork]", description: "切换当前会话的模型（fork 表示分叉为新会话）" },
+  { name: "clear", usage: "/clear", description: "以相同的模型、工具与配置开始一个新会话" },
+];
+
+// 命令解析结果
+export type SlashCommandResult =
+  | { type: "message"; prompt: string; template?: string }
+  | { type: "model"; model: string; mode: SwitchModelMode }
+  | { type: "clear" }
+  | { type: "help"; text: string };
+
+const COMMAND_PATTERN = /^\/([a-z][a-z0-9_-]*)(?:\s+([\s\S]*))?$/;
+
+/**
+ * 可用命令与模板的说明（/help 的输出）
+ */
+export function commandHelp(): string {
+  const lines = [
+    "**命令**",
+    ...SLASH_COMMANDS.map((command) => `- \`${command.usage}\` ${command.description}`),
+    "",
+    "**模板**",
+    ...listTemplates().map((template) => `- \`${templateUsage(template)}\` ${template.description}`),
+    "",
+    "以 `//` 开头的消息按原文发送",
+  ];
+  return lines.join("\n");
+}
+
+/**
+ * 解析消息中的斜杠命令
+ * 不是命令的消息原样返回；命令不存在或参数错误时抛出 TemplateError
+ */
+export function parseSlashCommand(prompt: string): SlashCommandResult {
+  if (prompt.startsWith("//")) {
+    return { type: "message", prompt: prompt.slice(1) };
+  }
+  const match = COMMAND_PATTERN.exec(prompt.trim());
+  if (!match) {
+    return { type: "message", prompt };
+  }
+
+  const [, name, args = ""] = match;
+  switch (name) {
+    case "help":
+      return { type: "help", text: commandHelp() };
+    case "clear":
+      return { type: "clear" };
+    case "model": {
+      const [model, mode] = args.trim().split(/\s+/);
+      if (!model) {
+        throw new TemplateError("缺少参数: 模型 ID（用法: /model <模型 ID> [fork]）", 400);
+      }
+      if (mode && mode !== "fork") {
+        throw new TemplateError(`未知的切换方式: ${mode}（用法: /model <模型 ID> [fork]）`, 400);
+      }
+      return { type: "model", model, mode: mode === "fork" ? "fork" : "reconfigure" };
+    }
+  }
+
+  const template = getTemplate(name);
+  if (!template) {
+    throw new TemplateError(`未知命令: /${name}，输入 /help 查看可用的命令与模板`, 404);
+  }
+  return {
+    type: "message",
+    prompt: renderTemplate(template, bindTemplateArguments(template, args)),
+    template: template.name,
+  };
+}
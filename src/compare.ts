@@ -0,0 +1,196 @@
+import { randomUUID } from "crypto";
+import {
+  createSession,
+  getComparisonRecords,
+  getModel,
+  sendMessage,
+  type ModelId,
+  type SendMessageOptions,
+} from "./copilot.js";
+import { beginTurn } from "./limits.js";
+import type { StoredToolCall } from "./store.js";
+import type { TurnUsage } from "./usage.js";
+
+/**
+ * 模型对比
+ * 将同一条提示词（含附件）并行发送给多个模型，每个模型使用独立的会话，
+ * 分别记录回复、耗时、Token 用量与工具调用，供界面并排对比
+ *
+ * 对比会话与普通会话一样保存（带有 comparisonId），可以选择其中一个继续对话；
+ * 需要审批的工具在对比模式下会被直接拒绝
+ *
+ * 环境变量配置：
+ * - COMPARE_MAX_MODELS: 单次对比的模型数上限，默认 4
+ */
+
+const COMPARE_MAX_MODELS = Number(process.env.COMPARE_MAX_MODELS) || 4;
+
+// 单个模型的对比结果
+export interface ComparisonResult {
+  model: ModelId;
+  sessionId: string;
+  success: boolean;
+  content?: string;
+  reasoning?: string;
+  toolCalls: StoredToolCall[];
+  /** 本轮用量（耗时、Token、工具调用次数、费用） */
+  usage?: TurnUsage;
+  error?: string;
+}
+
+export interface Comparison {
+  comparisonId: string;
+  prompt: string;
+  createdAt: number;
+  results: ComparisonResult[];
+}
+
+export interface CompareOptions {
+  prompt: string;
+  models: ModelId[];
+  /** 发起请求的用户 ID */
+  ownerId?: string;
+  /** 限流键（见 rateLimitKey） */
+  clientKey: string;
+  attachments?: SendMessageOptions["attachments"];
+  onStart?: (comparisonId: string, targets: Array<{ model: ModelId; sessionId: string }>) => void;
+  onDelta?: (model: ModelId, content: string) => void;
+  onToolCall?: (model: ModelId, toolName: string, args: unknown, toolCallId: string) => void;
+  onToolResult?: (model: ModelId, toolName: string, result: unknown, toolCallId: string) => void;
+  /** 单个模型完成（成功或失败）时触发 */
+  onResult?: (result: ComparisonResult) => void;
+}
+
+/**
+ * 在独立会话中向单个模型发送提示词
+ */
+async function compareOne(
+  target: { model: ModelId; sessionId: string },
+  comparisonId: string,
+  options: CompareOptions
+): Promise<ComparisonResult> {
+  const { model, sessionId } = target;
+  const result: ComparisonResult = { model, sessionId, success: false, toolCalls: [] };
+  let reasoning = "";
+
+  try {
+    await createSession(sessionId, model, options.ownerId, { comparisonId });
+    // 出错即视为该模型完成（不等待 sendMessage 返回），避免单个模型阻塞整个对比
+    await new Promise<void>((resolve, reject) => {
+      sendMessage({
+        sessionId,
+        prompt: options.prompt,
+        model,
+        ownerId: options.ownerId,
+        attachments: options.attachments,
+        onDelta: (content) => options.onDelta?.(model, content),
+        onReasoningDelta: (content) => {
+          reasoning += content;
+        },
+        onToolCall: (toolName, args, toolCallId) => {
+          result.toolCalls.push({ toolCallId, toolName, args });
+          options.onToolCall?.(model, toolName, args, toolCallId);
+        },
+        onToolResult: (toolName, toolResult, toolCallId) => {
+          const call = result.toolCalls.find((c) => c.toolCallId === toolCallId);
+          if (call) call.result = toolResult;
+          options.onToolResult?.(model, toolName, toolResult, toolCallId);
+        },
+        onComplete: (content, usage) => {
+          result.success = true;
+          result.content = content;
+          result.usage = usage;
+        },
+        onError: (error) => {
+          result.error = error.message;
+          resolve();
+        },
+      }).then(resolve, reject);
+    });
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  result.reasoning = reasoning || undefined;
+  options.onResult?.(result);
+  return result;
+}
+
+/**
+ * 将同一条提示词并行发送给多个模型，全部完成后返回对比结果
+ * 模型无效时抛出 Error；超出限流或配额时抛出 LimitError
+ */
+export async function runComparison(options: CompareOptions): Promise<Comparison> {
+  const models = Array.from(new Set(options.models));
+  if (models.length < 2) {
+    throw new Error("请至少选择两个模型进行对比");
+  }
+  if (models.length > COMPARE_MAX_MODELS) {
+    throw new Error(`最多同时对比 ${COMPARE_MAX_MODELS} 个模型`);
+  }
+  for (const model of models) {
+    if (!(await getModel(model))) {
+      throw new Error(`不支持的模型: ${model}`);
+    }
+  }
+
+  const comparisonId = randomUUID();
+  const createdAt = Date.now();
+  const targets = models.map((model, index) => ({ model, sessionId: `compare-${comparisonId}-${index + 1}` }));
+
+  // 每个模型计为一条消息；任一模型超出限制时整个对比都不执行
+  const releases: Array<() => void> = [];
+  try {
+    for (const target of targets) {
+      releases.push(beginTurn({ clientKey: options.clientKey, userId: options.ownerId, sessionId: target.sessionId }));
+    }
+  } catch (error) {
+    releases.forEach((release) => release());
+    throw error;
+  }
+
+  console.log(`⚖️ 开始模型对比: ${comparisonId} (${models.join(", ")})`);
+  options.onStart?.(comparisonId, targets);
+
+  try {
+    const results = await Promise.all(targets.map((target) => compareOne(target, comparisonId, options)));
+    console.log(`⚖️ 模型对比完成: ${comparisonId}`);
+    return { comparisonId, prompt: options.prompt, createdAt, results };
+  } finally {
+    releases.forEach((release) => release());
+  }
+}
+
+/**
+ * 从对比会话的记录中还原对比结果（只取每个会话的第一轮对话）
+ */
+export function getComparison(comparisonId: string, ownerId?: string): Comparison | undefined {
+  const records = getComparisonRecords(comparisonId, ownerId).sort((a, b) =>
+    a.sessionId.localeCompare(b.sessionId, undefined, { numeric: true })
+  );
+  if (records.length === 0) {
+    return undefined;
+  }
+
+  const results = records.map((record): ComparisonResult => {
+    const question = record.messages.find((m) => m.role === "user");
+    const answer = record.messages.find((m) => m.role === "assistant" && m.parentId === question?.id);
+    return {
+      model: answer?.model ?? record.model ?? "",
+      sessionId: record.sessionId,
+      success: answer !== undefined,
+      content: answer?.content,
+      reasoning: answer?.reasoning,
+      toolCalls: answer?.toolCalls ?? [],
+      usage: answer?.usage,
+      error: answer ? undefined : "没有回复",
+    };
+  });
+
+  return {
+    comparisonId,
+    prompt: records.map((r) => r.messages.find((m) => m.role === "user")?.content).find((p) => p !== undefined) ?? "",
+    createdAt: Math.min(...records.map((r) => r.createdAt)),
+    results,
+  };
+}
@@ -1,5 +1,43 @@
-import { CopilotClient, CopilotSession } from "@github/copilot-sdk";
-import { allTools } from "./tools.js";
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import { CopilotClient, CopilotSession, type SessionConfig } from "@github/copilot-sdk";
+import { hasTool, resolveTools } from "./toolRegistry.js";
+import {
+  cancelPendingApprovals,
+  registerApprovalListener,
+  requestToolApproval,
+  type ApprovalLogEntry,
+  type ToolApprovalRequest,
+} from "./approval.js";
+import {
+  createSessionStore,
+  isValidSessionId,
+  type SessionRecord,
+  type SessionSettings,
+  type SessionStore,
+  type StoredMessage,
+  type StoredToolCall,
+} from "./store.js";
+import type { SessionExport } from "./export.js";
+import { computeCost, emptyTurnUsage, recordUsage, type TurnUsage } from "./usage.js";
+import {
+  DEFAULT_MODEL,
+  discoverModels,
+  getModelPricing,
+  type ModelDescriptor,
+  type ModelId,
+} from "./models.js";
+import { linkUploads, releaseSessionUploads, resolveAttachments } from "./uploads.js";
+import { removeSessionWorkspaces } from "./workspaces.js";
+import { removeSessionSandbox } from "./sandbox.js";
+import {
+  buildSystemMessage,
+  mergeSessionConfig,
+  withDefaultAttachments,
+  type SessionConfigUpdate,
+  type SessionConfigView,
+} from "./sessionConfig.js";
 
 /**
  * Copilot 客户端封装
@@ -16,18 +54,45 @@ import { allTools } from "./tools.js";
  * - COPILOT_LOG_LEVEL: 日志级别 ("none" | "error" | "warning" | "info" | "debug" | "all")
  */
 
-// 支持的模型列表
-export const AVAILABLE_MODELS = [
-  { id: "claude-opus-4.5", name: "Claude Opus 4.5", description: "Anthropic Claude Opus 4.5" },
-  { id: "claude-sonnet-4.5", name: "Claude Sonnet 4.5", description: "Anthropic Claude Sonnet 4.5" },
-  { id: "gpt-5.2-codex", name: "GPT-5.2-Codex", description: "OpenAI GPT-5.2-Codex" },
-  { id: "gpt-4o", name: "GPT-4o", description: "OpenAI GPT-4o" },
-  { id: "gpt-4.1", name: "GPT-4.1", description: "OpenAI GPT-4.1" },
-  { id: "claude-sonnet-4", name: "Claude Sonnet 4", description: "Anthropic Claude Sonnet 4" },
-  { id: "o3-mini", name: "o3-mini", description: "OpenAI o3-mini" },
-] as const;
+export { DEFAULT_MODEL, type ModelId, type ModelDescriptor } from "./models.js";
 
-export type ModelId = (typeof AVAILABLE_MODELS)[number]["id"];
+/**
+ * 获取可用模型列表（从 CLI 发现，带缓存；失败时使用内置列表）
+ */
+export function listModels(refresh = false): Promise<ModelDescriptor[]> {
+  return discoverModels(getClient, refresh);
+}
+
+/**
+ * 查找模型，不可用时返回 undefined
+ */
+export async function getModel(id: string): Promise<ModelDescriptor | undefined> {
+  return (await listModels()).find((m) => m.id === id);
+}
+
+// 切换模型方式：reconfigure 在原会话上重建 SDK 会话；fork 复制历史创建新会话
+export type SwitchModelMode = "reconfigure" | "fork";
+
+// 分支方式：edit 以新的提示词替换某条用户消息；regenerate 重新生成某条回复
+export type BranchMode = "edit" | "regenerate";
+
+// 当前分支上某条消息的兄弟分支（同一父消息下的其他版本）
+export interface MessageBranchInfo {
+  /** 当前消息在兄弟消息中的位置（从 0 开始） */
+  index: number;
+  /** 按时间排序的兄弟消息 ID（包含当前消息） */
+  siblingIds: string[];
+}
+
+// 创建会话时的可选配置
+export interface SessionOptions {
+  /** 启用的工具名列表（未指定时使用默认工具集） */
+  tools?: string[];
+  /** 所属的模型对比 ID */
+  comparisonId?: string;
+  /** 会话配置（系统提示词、角色、默认附件等，见 sessionConfig.ts） */
+  config?: SessionSettings;
+}
 
 // 客户端单例
 let clientInstance: CopilotClient | null = null;
@@ -35,8 +100,14 @@ let clientInstance: CopilotClient | null = null;
 // 活跃会话缓存
 const activeSessions = new Map<string, CopilotSession>();
 
-// 本地消息历史缓存（存储完整的消息内容）
-const messageHistoryCache = new Map<string, Array<{ role: string; content: string }>>();
+// 正在生成回复的会话
+const turnsInProgress = new Set<string>();
+
+// 会话存储（持久化消息历史、标题、模型等元数据）
+let sessionStore: SessionStore | null = null;
+
+// 本地会话记录缓存（存储完整的消息内容，启动时从存储层恢复）
+const sessionRecords = new Map<string, SessionRecord>();
 
 // 每个会话最大消息数量限制
 const MAX_MESSAGES_PER_SESSION = 100;
@@ -44,22 +115,174 @@ const MAX_MESSAGES_PER_SESSION = 100;
 // 默认消息超时时间（5分钟）
 const DEFAULT_MESSAGE_TIMEOUT = 5 * 60 * 1000;
 
+// 每个会话最多保存的审批记录数
+const MAX_APPROVALS_PER_SESSION = 200;
+
+// 每个会话其他分支上最多保存的消息数
+const MAX_INACTIVE_MESSAGES = 200;
+
+/**
+ * 初始化会话存储并恢复历史记录
+ * 应在服务启动时调用一次
+ */
+export async function initSessionStore(store: SessionStore = createSessionStore()): Promise<void> {
+  sessionStore = store;
+  const records = await store.loadAll();
+  sessionRecords.clear();
+  for (const record of records) {
+    assignMessageIds(record);
+    linkRecordUploads(record);
+    sessionRecords.set(record.sessionId, record);
+  }
+  console.log(`💾 已恢复 ${records.length} 个会话记录`);
+}
+
+/**
+ * 将会话记录写入存储（失败只记录日志，不影响对话）
+ */
+function persistRecord(record: SessionRecord) {
+  if (!sessionStore) return;
+  sessionStore.save(record).catch((e) => {
+    console.error(`⚠️ 会话持久化失败: ${record.sessionId}`, e);
+  });
+}
+
+/**
+ * 将会话（含其他分支）消息中的附件关联到上传索引，避免被过期清理
+ */
+function linkRecordUploads(record: SessionRecord) {
+  for (const message of [...record.messages, ...(record.inactiveMessages || [])]) {
+    linkUploads(record.sessionId, message.attachments);
+  }
+  linkUploads(record.sessionId, record.config?.attachments);
+}
+
+/**
+ * 为缺少 ID 的消息（旧数据、导入数据或从 SDK 获取的历史）补齐 ID 与父消息 ID
+ */
+function assignMessageIds(record: SessionRecord) {
+  record.messages.forEach((message, index) => {
+    message.id ??= randomUUID();
+    if (index > 0 && message.parentId === undefined) {
+      message.parentId = record.messages[index - 1].id;
+    }
+  });
+}
+
+/**
+ * 获取或创建本地会话记录
+ */
+function ensureRecord(sessionId: string, model?: string, ownerId?: string): SessionRecord {
+  let record = sessionRecords.get(sessionId);
+  if (!record) {
+    const now = Date.now();
+    record = { sessionId, ownerId, model, createdAt: now, updatedAt: now, messages: [] };
+    sessionRecords.set(sessionId, record);
+  } else if (model && !record.model) {
+    record.model = model;
+  }
+  return record;
+}
+
+/**
+ * 判断会话是否属于指定用户
+ * ownerId 为 undefined 表示未启用认证，不做归属过滤
+ */
+export function ownsSession(sessionId: string, ownerId?: string): boolean {
+  if (ownerId === undefined) return true;
+  return sessionRecords.get(sessionId)?.ownerId === ownerId;
+}
+
+/**
+ * 判断用户能否使用该会话 ID（ID 合法，且会话属于该用户或该 ID 尚未被占用）
+ */
+export function canUseSessionId(sessionId: string, ownerId?: string): boolean {
+  return isValidSessionId(sessionId) && (!sessionRecords.has(sessionId) || ownsSession(sessionId, ownerId));
+}
+
 /**
- * 添加消息到本地缓存
+ * 获取会话记录中保存的工具（忽略已被移除的插件工具）
+ */
+function toolsForSession(sessionId: string) {
+  const names = sessionRecords.get(sessionId)?.tools;
+  if (!names) return resolveTools();
+  const missing = names.filter((name) => !hasTool(name));
+  if (missing.length > 0) {
+    console.warn(`⚠️ [${sessionId}] 以下工具已不可用，将被忽略: ${missing.join(", ")}`);
+  }
+  return resolveTools(names.filter((name) => hasTool(name)));
+}
+
+/**
+ * 记录工具审批结果
+ */
+function recordApproval(sessionId: string, entry: ApprovalLogEntry) {
+  const record = ensureRecord(sessionId);
+  record.approvals = [...(record.approvals || []), entry].slice(-MAX_APPROVALS_PER_SESSION);
+  record.updatedAt = Date.now();
+  persistRecord(record);
+}
+
+/**
+ * 工具调用前的审批钩子
+ * 按策略自动放行、拒绝，或暂停等待客户端审批
+ */
+const approvalHooks: NonNullable<SessionConfig["hooks"]> = {
+  onPreToolUse: async (input, invocation) => {
+    const entry = await requestToolApproval(invocation.sessionId, input.toolName, input.toolArgs);
+    if (!entry) {
+      return { permissionDecision: "allow" };
+    }
+    recordApproval(invocation.sessionId, entry);
+    if (entry.decision === "approved") {
+      return { permissionDecision: "allow" };
+    }
+    const reasons: Record<ApprovalLogEntry["reason"], string> = {
+      policy: "该工具已被服务器策略禁止",
+      user: "用户拒绝了该工具调用",
+      timeout: "等待用户审批超时",
+      "no-client": "没有可以审批该工具调用的客户端",
+    };
+    return { permissionDecision: "deny", permissionDecisionReason: reasons[entry.reason] };
+  },
+};
+
+/**
+ * 根据消息内容生成会话标题（截取前 50 个字符）
+ */
+function makeTitle(content: string): string {
+  return content.length > 50 ? content.substring(0, 50) + "..." : content;
+}
+
+/**
+ * 添加消息到本地缓存并持久化
  * 自动裁剪超出限制的旧消息
  */
-function addMessageToCache(sessionId: string, role: string, content: string) {
-  if (!messageHistoryCache.has(sessionId)) {
-    messageHistoryCache.set(sessionId, []);
+function addMessageToCache(
+  sessionId: string,
+  message: Omit<StoredMessage, "timestamp"> & { timestamp?: number }
+) {
+  const record = ensureRecord(sessionId, message.model);
+  record.messages.push({
+    ...message,
+    id: randomUUID(),
+    parentId: record.messages[record.messages.length - 1]?.id,
+    timestamp: message.timestamp ?? Date.now(),
+  });
+
+  // 使用最后一条用户消息作为标题
+  if (message.role === "user" && message.content.trim().length > 0) {
+    record.title = makeTitle(message.content);
   }
-  const messages = messageHistoryCache.get(sessionId)!;
-  messages.push({ role, content });
-  
-  // 如果超出限制，移除最旧的消息（保留系统消息）
-  if (messages.length > MAX_MESSAGES_PER_SESSION) {
-    const excess = messages.length - MAX_MESSAGES_PER_SESSION;
-    messages.splice(0, excess);
+
+  // 如果超出限制，移除最旧的消息
+  if (record.messages.length > MAX_MESSAGES_PER_SESSION) {
+    const excess = record.messages.length - MAX_MESSAGES_PER_SESSION;
+    record.messages.splice(0, excess);
   }
+
+  record.updatedAt = Date.now();
+  persistRecord(record);
 }
 
 /**
@@ -135,19 +358,53 @@ export async function stopClient(): Promise<void> {
  */
 export async function createSession(
   sessionId?: string,
-  model: ModelId = "claude-opus-4.5"
+  model: ModelId = DEFAULT_MODEL,
+  ownerId?: string,
+  options: SessionOptions = {}
 ): Promise<CopilotSession> {
+  if (sessionId && !isValidSessionId(sessionId)) {
+    throw new Error("无效的会话 ID");
+  }
+  if (sessionId && !canUseSessionId(sessionId, ownerId)) {
+    throw new Error("会话 ID 已被占用");
+  }
+  if (!(await getModel(model))) {
+    throw new Error(`不支持的模型: ${model}`);
+  }
+
+  // 未指定工具时沿用已保存的工具选择（例如 SDK 会话丢失后重新创建）
+  const tools = options.tools
+    ? resolveTools(options.tools)
+    : sessionId ? toolsForSession(sessionId) : resolveTools();
+
+  // 未指定配置时沿用已保存的配置（SDK 会话重建时重新应用系统提示词）
+  const config = options.config ?? (sessionId ? sessionRecords.get(sessionId)?.config : undefined);
+
   const client = await getClient();
 
   const session = await client.createSession({
     sessionId,
     model,
     streaming: true,
-    tools: allTools,
+    tools,
+    hooks: approvalHooks,
+    systemMessage: buildSystemMessage(config),
   });
 
   const id = sessionId || session.sessionId;
   activeSessions.set(id, session);
+  const record = ensureRecord(id, model, ownerId);
+  if (options.tools) {
+    record.tools = options.tools;
+  }
+  if (options.config) {
+    record.config = options.config;
+    linkUploads(id, options.config.attachments);
+  }
+  if (options.comparisonId) {
+    record.comparisonId = options.comparisonId;
+  }
+  persistRecord(record);
 
   console.log(`📝 会话已创建: ${id}, 模型: ${model}`);
   return session;
@@ -158,8 +415,16 @@ export async function createSession(
  */
 export async function getOrCreateSession(
   sessionId: string,
-  model: ModelId = "claude-opus-4.5"
+  model: ModelId = DEFAULT_MODEL,
+  ownerId?: string
 ): Promise<CopilotSession> {
+  if (!isValidSessionId(sessionId)) {
+    throw new Error("无效的会话 ID");
+  }
+  if (!canUseSessionId(sessionId, ownerId)) {
+    throw new Error("无权访问该会话");
+  }
+
   // 检查缓存
   if (activeSessions.has(sessionId)) {
     return activeSessions.get(sessionId)!;
@@ -168,12 +433,26 @@ export async function getOrCreateSession(
   const client = await getClient();
 
   // 尝试恢复已存在的会话
+  let existsInSdk = false;
   try {
     const sessions = await client.listSessions();
-    if (sessions.some((s) => s.sessionId === sessionId)) {
+    existsInSdk = sessions.some((s) => s.sessionId === sessionId);
+  } catch (e) {
+    // 无法获取会话列表，按新会话处理
+  }
+
+  // 启用认证时，不允许认领没有归属记录的已有会话
+  if (existsInSdk && ownerId !== undefined && !sessionRecords.has(sessionId)) {
+    throw new Error("无权访问该会话");
+  }
+
+  // 恢复时重新应用会话的工具；系统提示词保存在 SDK 会话中（修改配置时会重建 SDK 会话）
+  try {
+    if (existsInSdk) {
       const session = await client.resumeSession(sessionId, {
         streaming: true,
-        tools: allTools,
+        tools: toolsForSession(sessionId),
+        hooks: approvalHooks,
       });
       activeSessions.set(sessionId, session);
       console.log(`🔄 会话已恢复: ${sessionId}`);
@@ -183,50 +462,213 @@ export async function getOrCreateSession(
     // 会话不存在，创建新的
   }
 
-  return createSession(sessionId, model);
+  // 已有记录的会话沿用记录中的模型（切换模型请使用 switchModel）
+  const recordedModel = sessionRecords.get(sessionId)?.model;
+  return createSession(sessionId, recordedModel ?? model, ownerId);
+}
+
+/**
+ * 切换会话模型
+ * SDK 会话创建后无法更改模型，因此：
+ * - reconfigure：销毁原 SDK 会话，下一条消息时以新模型重建（会话 ID 不变）
+ * - fork：复制历史创建新会话，原会话保持不变
+ * 两种方式下，本地历史都会在下一条消息中作为上下文发送给新模型
+ */
+export async function switchModel(
+  sessionId: string,
+  model: ModelId,
+  ownerId?: string,
+  mode: SwitchModelMode = "reconfigure"
+): Promise<{ sessionId: string; model: ModelId; previousModel?: string }> {
+  const record = sessionRecords.get(sessionId);
+  if (!record || !ownsSession(sessionId, ownerId)) {
+    throw new Error("会话不存在");
+  }
+  if (turnsInProgress.has(sessionId)) {
+    throw new Error("会话正在生成回复，请稍后再切换模型");
+  }
+  if (!(await getModel(model))) {
+    throw new Error(`不支持的模型: ${model}`);
+  }
+
+  const previousModel = record.model;
+  const now = Date.now();
+  const switchEntry = { from: previousModel, to: model, at: now };
+
+  if (mode === "fork") {
+    const forked: SessionRecord = {
+      sessionId: `fork-${randomUUID()}`,
+      ownerId: record.ownerId,
+      model,
+      title: record.title,
+      tools: record.tools,
+      config: structuredClone(record.config),
+      forkedFrom: sessionId,
+      modelSwitches: [...(record.modelSwitches || []), switchEntry],
+      pendingContext: record.messages.length > 0,
+      createdAt: now,
+      updatedAt: now,
+      messages: structuredClone(record.messages),
+    };
+    sessionRecords.set(forked.sessionId, forked);
+    linkRecordUploads(forked);
+    persistRecord(forked);
+    console.log(`🔀 会话已分叉: ${sessionId} -> ${forked.sessionId}, 模型: ${model}`);
+    return { sessionId: forked.sessionId, model, previousModel };
+  }
+
+  if (previousModel === model) {
+    return { sessionId, model, previousModel };
+  }
+
+  await resetSdkSession(sessionId);
+
+  record.model = model;
+  record.modelSwitches = [...(record.modelSwitches || []), switchEntry];
+  record.pendingContext = record.messages.length > 0;
+  record.updatedAt = now;
+  persistRecord(record);
+
+  console.log(`🔁 会话模型已切换: ${sessionId}, ${previousModel ?? "(未知)"} -> ${model}`);
+  return { sessionId, model, previousModel };
+}
+
+/**
+ * 销毁会话对应的 SDK 会话，下一条消息时以相同 ID 重新创建
+ * 用于模型侧历史需要与本地记录重新同步的场景（切换模型、切换分支）
+ */
+async function resetSdkSession(sessionId: string): Promise<void> {
+  const session = activeSessions.get(sessionId);
+  if (session) {
+    try {
+      await session.destroy();
+    } catch (e) {
+      // 忽略
+    }
+    activeSessions.delete(sessionId);
+  }
+  try {
+    const client = await getClient();
+    await client.deleteSession(sessionId);
+  } catch (e) {
+    // SDK 中可能已不存在该会话，忽略
+  }
+}
+
+/**
+ * 获取会话配置（含会话启用的工具）
+ */
+export function getSessionConfig(sessionId: string, ownerId?: string): SessionConfigView {
+  const record = sessionRecords.get(sessionId);
+  if (!record || !ownsSession(sessionId, ownerId)) {
+    throw new Error("会话不存在");
+  }
+  return { ...record.config, tools: record.tools };
+}
+
+/**
+ * 修改会话配置
+ * 系统提示词、角色或工具变化时重建 SDK 会话，本地历史在下一条消息中作为上下文发送；
+ * 其余配置从下一条消息开始生效
+ */
+export async function updateSessionConfig(
+  sessionId: string,
+  update: SessionConfigUpdate,
+  ownerId?: string
+): Promise<SessionConfigView> {
+  const record = sessionRecords.get(sessionId);
+  if (!record || !ownsSession(sessionId, ownerId)) {
+    throw new Error("会话不存在");
+  }
+  if (turnsInProgress.has(sessionId)) {
+    throw new Error("会话正在生成回复，请稍后再修改配置");
+  }
+  if (update.tools) {
+    resolveTools(update.tools);
+  }
+
+  const previousSystemMessage = JSON.stringify(buildSystemMessage(record.config));
+  const previousTools = JSON.stringify(record.tools);
+  record.config = mergeSessionConfig(record.config, update);
+  if (update.tools !== undefined) {
+    record.tools = update.tools ?? undefined;
+  }
+  linkUploads(sessionId, record.config?.attachments);
+
+  if (
+    JSON.stringify(buildSystemMessage(record.config)) !== previousSystemMessage ||
+    JSON.stringify(record.tools) !== previousTools
+  ) {
+    await resetSdkSession(sessionId);
+    record.pendingContext = record.messages.length > 0;
+  }
+  record.updatedAt = Date.now();
+  persistRecord(record);
+
+  console.log(`⚙️ 会话配置已更新: ${sessionId}`);
+  return { ...record.config, tools: record.tools };
 }
 
 /**
  * 列出所有会话（包含最后一条用户消息作为标题）
+ * 合并 SDK 会话列表与本地持久化的会话记录
  */
-export async function listSessions(): Promise<
-  Array<{ sessionId: string; createdAt?: Date; messageCount?: number; title?: string }>
+export async function listSessions(ownerId?: string): Promise<
+  Array<{
+    sessionId: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+    messageCount?: number;
+    title?: string;
+    model?: string;
+    comparisonId?: string;
+  }>
 > {
   const client = await getClient();
   const sessions = await client.listSessions();
-  
-  // 为每个会话添加标题（使用最后一条用户消息）
-  return sessions.map((session) => {
-    const cachedMessages = messageHistoryCache.get(session.sessionId);
-    let title: string | undefined;
-    
-    if (cachedMessages && cachedMessages.length > 0) {
-      // 从缓存中找到最后一条用户消息
-      const userMessages = cachedMessages.filter((m) => m.role === "user");
-      if (userMessages.length > 0) {
-        const lastUserMessage = userMessages[userMessages.length - 1].content;
-        // 截取前 50 个字符作为标题
-        title = lastUserMessage.length > 50 
-          ? lastUserMessage.substring(0, 50) + "..." 
-          : lastUserMessage;
-      }
-    }
-    
+  const seen = new Set<string>();
+
+  const result = sessions.filter((session) => ownsSession(session.sessionId, ownerId)).map((session) => {
+    seen.add(session.sessionId);
+    const record = sessionRecords.get(session.sessionId);
     const sessionData = session as { sessionId: string; createdAt?: Date; messageCount?: number };
-    
+
     return {
       sessionId: session.sessionId,
-      createdAt: sessionData.createdAt,
-      messageCount: cachedMessages?.length || sessionData.messageCount || 0,
-      title,
+      createdAt: record ? new Date(record.createdAt) : sessionData.createdAt,
+      updatedAt: record ? new Date(record.updatedAt) : undefined,
+      messageCount: record?.messages.length || sessionData.messageCount || 0,
+      title: record?.title,
+      model: record?.model,
+      comparisonId: record?.comparisonId,
     };
   });
+
+  // SDK 中已不存在、但本地仍保存了历史的会话
+  for (const record of sessionRecords.values()) {
+    if (seen.has(record.sessionId) || !ownsSession(record.sessionId, ownerId)) continue;
+    result.push({
+      sessionId: record.sessionId,
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt),
+      messageCount: record.messages.length,
+      title: record.title,
+      model: record.model,
+      comparisonId: record.comparisonId,
+    });
+  }
+
+  return result;
 }
 
 /**
  * 删除会话
  */
-export async function deleteSession(sessionId: string): Promise<void> {
+export async function deleteSession(sessionId: string, ownerId?: string): Promise<void> {
+  if (!isValidSessionId(sessionId) || !ownsSession(sessionId, ownerId)) {
+    throw new Error("会话不存在");
+  }
+
   const client = await getClient();
 
   // 从缓存中移除
@@ -240,10 +682,19 @@ export async function deleteSession(sessionId: string): Promise<void> {
     activeSessions.delete(sessionId);
   }
   
-  // 清理本地消息缓存
-  messageHistoryCache.delete(sessionId);
+  // 清理本地会话记录
+  cancelPendingApprovals(sessionId);
+  sessionRecords.delete(sessionId);
+  await sessionStore?.remove(sessionId);
+  await releaseSessionUploads(sessionId);
+  await removeSessionWorkspaces(sessionId);
+  await removeSessionSandbox(sessionId);
 
-  await client.deleteSession(sessionId);
+  try {
+    await client.deleteSession(sessionId);
+  } catch (e) {
+    // 仅存在于本地存储中的会话，SDK 删除会失败，忽略
+  }
   console.log(`🗑️ 会话已删除: ${sessionId}`);
 }
 
@@ -251,12 +702,15 @@ export async function deleteSession(sessionId: string): Promise<void> {
  * 获取会话消息历史
  * 优先使用本地缓存（包含完整内容），如果没有则尝试从 SDK 获取
  */
-export async function getSessionMessages(
-  sessionId: string
-): Promise<Array<{ role: string; content: string }>> {
+export async function getSessionMessages(sessionId: string, ownerId?: string): Promise<StoredMessage[]> {
+  if (!ownsSession(sessionId, ownerId)) {
+    return [];
+  }
+
   // 优先返回本地缓存的消息（包含完整内容）
-  if (messageHistoryCache.has(sessionId)) {
-    const cached = messageHistoryCache.get(sessionId)!;
+  const cachedRecord = sessionRecords.get(sessionId);
+  if (cachedRecord && cachedRecord.messages.length > 0) {
+    const cached = cachedRecord.messages;
     console.log(`📋 [${sessionId}] 从本地缓存获取消息历史，共 ${cached.length} 条`);
     return cached;
   }
@@ -298,16 +752,26 @@ export async function getSessionMessages(
           content = (data.content as string) || (data.text as string) || (data.message as string) || "";
         }
         
-        return {
+        const message: StoredMessage = {
           role: e.type === "user.message" ? "user" : "assistant",
           content,
+          timestamp: Date.parse(e.timestamp) || Date.now(),
         };
+        return message;
       })
       .filter((m) => m.content.trim().length > 0);
     
     // 将从 SDK 获取的消息存入本地缓存
     if (messages.length > 0) {
-      messageHistoryCache.set(sessionId, messages);
+      const record = ensureRecord(sessionId);
+      record.messages = messages.slice(-MAX_MESSAGES_PER_SESSION);
+      assignMessageIds(record);
+      const lastUser = [...messages].reverse().find((m) => m.role === "user");
+      if (lastUser) {
+        record.title = makeTitle(lastUser.content);
+      }
+      record.updatedAt = Date.now();
+      persistRecord(record);
     }
     
     return messages;
@@ -316,13 +780,223 @@ export async function getSessionMessages(
   }
 }
 
+/**
+ * 获取会话的完整记录（用于导出）
+ */
+export function getSessionRecord(sessionId: string, ownerId?: string): SessionRecord | undefined {
+  if (!ownsSession(sessionId, ownerId)) {
+    return undefined;
+  }
+  return sessionRecords.get(sessionId);
+}
+
+/**
+ * 获取同一次模型对比创建的会话记录
+ */
+export function getComparisonRecords(comparisonId: string, ownerId?: string): SessionRecord[] {
+  return Array.from(sessionRecords.values()).filter(
+    (record) => record.comparisonId === comparisonId && ownsSession(record.sessionId, ownerId)
+  );
+}
+
+/**
+ * 从导出数据创建新会话记录
+ * 导入的历史会在下一条消息中作为上下文发送给模型
+ */
+export async function importSession(data: SessionExport, ownerId?: string): Promise<SessionRecord> {
+  const now = Date.now();
+  const tools = data.session.tools?.every((name) => hasTool(name)) ? data.session.tools : undefined;
+  // 来自其他部署或已下线的模型改用默认模型
+  const model = data.session.model && !(await getModel(data.session.model)) ? DEFAULT_MODEL : data.session.model;
+  const record: SessionRecord = {
+    sessionId: `imported-${randomUUID()}`,
+    ownerId,
+    model,
+    title: data.session.title,
+    tools,
+    config: data.session.config,
+    importedFrom: data.session.sessionId,
+    pendingContext: data.messages.length > 0,
+    createdAt: now,
+    updatedAt: now,
+    messages: data.messages.slice(-MAX_MESSAGES_PER_SESSION),
+  };
+  assignMessageIds(record);
+  sessionRecords.set(record.sessionId, record);
+  persistRecord(record);
+
+  console.log(`📥 会话已导入: ${record.sessionId}（来源: ${data.session.sessionId}，${record.messages.length} 条消息）`);
+  return record;
+}
+
+/**
+ * 将本地历史拼接到提示词前（用于模型侧没有这些历史的会话，如导入或切换模型后）
+ */
+function withHistoryContext(messages: StoredMessage[], prompt: string): string {
+  const lines = messages.map((m) => `[${m.role === "user" ? "User" : "Assistant"}]\n${m.content}`);
+  return `以下是此前的对话内容，请在此基础上继续回答。\n\n${lines.join("\n\n")}\n\n[User]\n${prompt}`;
+}
+
+/**
+ * 获取会话的工具审批记录
+ */
+export function getSessionApprovals(sessionId: string, ownerId?: string): ApprovalLogEntry[] {
+  if (!ownsSession(sessionId, ownerId)) {
+    return [];
+  }
+  return sessionRecords.get(sessionId)?.approvals || [];
+}
+
+/**
+ * 将消息树中的一条路径设为当前分支，其余消息移入 inactiveMessages
+ */
+function setActivePath(record: SessionRecord, path: StoredMessage[]) {
+  const activeIds = new Set(path.map((m) => m.id));
+  const inactive = [...record.messages, ...(record.inactiveMessages || [])]
+    .filter((m) => !activeIds.has(m.id))
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-MAX_INACTIVE_MESSAGES);
+  record.messages = path;
+  record.inactiveMessages = inactive.length > 0 ? inactive : undefined;
+}
+
+/**
+ * 从当前分支的某条消息处分叉（编辑或重新生成时由 sendMessage 在占用会话后调用）
+ * 分叉点之后的消息移入其他分支，SDK 会话重建后以本地历史作为上下文
+ * 返回对应的用户消息：edit 为被替换的消息，regenerate 为需要重新回答的提问
+ */
+async function branchAt(
+  sessionId: string,
+  messageId: string,
+  mode: BranchMode,
+  ownerId?: string
+): Promise<StoredMessage> {
+  const record = sessionRecords.get(sessionId);
+  if (!record || !ownsSession(sessionId, ownerId)) {
+    throw new Error("会话不存在");
+  }
+  const index = record.messages.findIndex((m) => m.id === messageId);
+  if (index < 0) {
+    throw new Error("消息不存在或不在当前分支上");
+  }
+  if (mode === "edit" && record.messages[index].role !== "user") {
+    throw new Error("只能编辑用户消息");
+  }
+
+  // 重新生成回复时，从该回复对应的用户消息重新提问
+  let userIndex = index;
+  while (userIndex >= 0 && record.messages[userIndex].role !== "user") {
+    userIndex--;
+  }
+  if (userIndex < 0) {
+    throw new Error("找不到该回复对应的用户消息");
+  }
+
+  // edit：新的用户消息与原消息互为兄弟；regenerate：新的回复与原回复互为兄弟
+  const keep = mode === "edit" ? userIndex : userIndex + 1;
+  const source = record.messages[userIndex];
+  setActivePath(record, record.messages.slice(0, keep));
+  await resetSdkSession(sessionId);
+
+  // regenerate 时保留的最后一条是本次重新发送的提问，不计入上下文
+  record.pendingContext = keep > (mode === "edit" ? 0 : 1);
+  record.updatedAt = Date.now();
+  persistRecord(record);
+
+  console.log(`🌿 [${sessionId}] 从消息 ${messageId} 创建分支 (${mode})`);
+  return source;
+}
+
+/**
+ * 切换到包含指定消息的分支（从该消息沿最新的子消息延伸到末尾）
+ * 返回切换后当前分支上的消息
+ */
+export async function switchBranch(sessionId: string, messageId: string, ownerId?: string): Promise<StoredMessage[]> {
+  const record = sessionRecords.get(sessionId);
+  if (!record || !ownsSession(sessionId, ownerId)) {
+    throw new Error("会话不存在");
+  }
+  if (turnsInProgress.has(sessionId)) {
+    throw new Error("会话正在生成回复，请稍后再切换分支");
+  }
+  if (record.messages.some((m) => m.id === messageId)) {
+    return record.messages;
+  }
+
+  const all = [...record.messages, ...(record.inactiveMessages || [])];
+  const byId = new Map(all.map((m) => [m.id, m]));
+  const target = byId.get(messageId);
+  if (!target) {
+    throw new Error("消息不存在");
+  }
+
+  // 向上找到根消息，再沿最新的子消息向下延伸
+  const path: StoredMessage[] = [];
+  for (let m: StoredMessage | undefined = target; m && path.length < all.length; m = m.parentId ? byId.get(m.parentId) : undefined) {
+    path.unshift(m);
+  }
+  for (let leaf = target; path.length < all.length; ) {
+    const children = all.filter((m) => m.parentId === leaf.id);
+    if (children.length === 0) break;
+    leaf = children.reduce((latest, m) => (m.timestamp >= latest.timestamp ? m : latest));
+    path.push(leaf);
+  }
+
+  setActivePath(record, path);
+  await resetSdkSession(sessionId);
+
+  const lastUser = [...path].reverse().find((m) => m.role === "user");
+  if (lastUser) {
+    record.title = makeTitle(lastUser.content);
+  }
+  record.pendingContext = path.length > 0;
+  record.updatedAt = Date.now();
+  persistRecord(record);
+
+  console.log(`🌿 [${sessionId}] 已切换到消息 ${messageId} 所在的分支`);
+  return record.messages;
+}
+
+/**
+ * 获取当前分支上存在兄弟分支的消息（消息 ID -> 兄弟分支信息）
+ */
+export function getMessageBranches(sessionId: string, ownerId?: string): Record<string, MessageBranchInfo> {
+  const record = ownsSession(sessionId, ownerId) ? sessionRecords.get(sessionId) : undefined;
+  if (!record?.inactiveMessages) {
+    return {};
+  }
+
+  const all = [...record.messages, ...record.inactiveMessages];
+  const branches: Record<string, MessageBranchInfo> = {};
+  for (const message of record.messages) {
+    const siblings = all
+      .filter((m) => m.parentId === message.parentId && m.role === message.role)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    if (siblings.length > 1 && message.id) {
+      branches[message.id] = {
+        index: siblings.indexOf(message),
+        siblingIds: siblings.map((m) => m.id!),
+      };
+    }
+  }
+  return branches;
+}
+
 /**
  * 发送消息并返回事件流
  */
 export interface SendMessageOptions {
   sessionId: string;
   prompt: string;
+  /** 仅在新建会话时生效；已有会话沿用会话模型，切换请使用 switchModel */
   model?: ModelId;
+  /**
+   * 从历史消息处分叉：edit 以 prompt 替换该用户消息；
+   * regenerate 重新回答该消息对应的提问（忽略 prompt 与 attachments）
+   */
+  branchFrom?: { messageId: string; mode: BranchMode };
+  /** 发起请求的用户 ID（启用认证时用于校验会话归属） */
+  ownerId?: string;
   attachments?: Array<{
     type: "file" | "directory";
     path: string;
@@ -332,20 +1006,26 @@ export interface SendMessageOptions {
   onReasoningDelta?: (content: string) => void;
   onToolCall?: (toolName: string, args: unknown, toolCallId: string) => void;
   onToolResult?: (toolName: string, result: unknown, toolCallId: string) => void;
-  onComplete?: (fullContent: string) => void;
+  /** 需要用户审批工具调用时触发；未提供时 ask 策略的工具会被拒绝 */
+  onApprovalRequest?: (request: ToolApprovalRequest) => void;
+  onApprovalResolved?: (request: ToolApprovalRequest, entry: ApprovalLogEntry) => void;
+  /** 完成回调，usage 为本轮对话的用量 */
+  onComplete?: (fullContent: string, usage: TurnUsage) => void;
   onError?: (error: Error) => void;
 }
 
 export async function sendMessage(options: SendMessageOptions): Promise<void> {
   const {
     sessionId,
-    prompt,
-    model = "claude-opus-4.5",
-    attachments,
+    model = DEFAULT_MODEL,
+    ownerId,
+    branchFrom,
     onDelta,
     onReasoningDelta,
     onToolCall,
     onToolResult,
+    onApprovalRequest,
+    onApprovalResolved,
     onComplete,
     onError,
   } = options;
@@ -354,17 +1034,28 @@ export async function sendMessage(options: SendMessageOptions): Promise<void> {
   const unsubscribers: Array<() => void> = [];
   let cleanupCalled = false;
   let timeoutHandle: ReturnType<typeof setTimeout> | null = null;
+  let checkInterval: ReturnType<typeof setInterval> | null = null;
+  let settleCompletion: (() => void) | null = null;
 
   // 清理所有监听器的函数（确保只执行一次）
   const cleanup = () => {
     if (cleanupCalled) return;
     cleanupCalled = true;
     
+    turnsInProgress.delete(sessionId);
+
     // 清除超时计时器
     if (timeoutHandle) {
       clearTimeout(timeoutHandle);
       timeoutHandle = null;
     }
+
+    // 停止轮询并结束等待中的完成 Promise（如 session.error 后），确保 sendMessage 总能返回
+    if (checkInterval) {
+      clearInterval(checkInterval);
+      checkInterval = null;
+    }
+    settleCompletion?.();
     
     // 安全地取消订阅所有监听器
     unsubscribers.forEach((unsub) => {
@@ -379,13 +1070,65 @@ export async function sendMessage(options: SendMessageOptions): Promise<void> {
     unsubscribers.length = 0;
   };
 
+  // 同一会话同时只进行一轮对话（SDK 会话与本地历史都不支持交错的对话），分叉前即占用会话
+  if (turnsInProgress.has(sessionId)) {
+    onError?.(new Error("会话正在生成回复，请稍后再试"));
+    return;
+  }
+  turnsInProgress.add(sessionId);
+
+  let { prompt, attachments } = options;
+
   try {
-    const session = await getOrCreateSession(sessionId, model);
+    // 编辑或重新生成：先切换到分叉点（需在获取 SDK 会话前完成）
+    if (branchFrom) {
+      const source = await branchAt(sessionId, branchFrom.messageId, branchFrom.mode, ownerId);
+      if (branchFrom.mode === "regenerate") {
+        prompt = source.content;
+        // 重新校验附件归属；导入的会话只保留了附件文件名，跳过这些以及已不存在的附件
+        const stored = source.attachments?.filter((a) => path.isAbsolute(a.path) && fs.existsSync(a.path));
+        const resolved = resolveAttachments(stored, ownerId, sessionId);
+        if (resolved === null) {
+          throw new Error("附件不存在、已过期或无权使用");
+        }
+        attachments = resolved;
+      }
+    }
+    const regenerate = branchFrom?.mode === "regenerate";
+
+    const session = await getOrCreateSession(sessionId, model, ownerId);
+
+    // 本轮对话期间接收工具审批请求
+    if (onApprovalRequest) {
+      unsubscribers.push(
+        registerApprovalListener(sessionId, {
+          onRequest: onApprovalRequest,
+          onResolved: onApprovalResolved,
+        })
+      );
+    }
 
-    // 将用户消息保存到本地缓存
-    addMessageToCache(sessionId, "user", prompt);
+    // 导入、切换模型或分支后首次发送时附带历史上下文（需在保存本条消息前生成）
+    // 重新生成时，当前分支的最后一条就是本次的提问
+    const record = sessionRecords.get(sessionId);
+    const history = regenerate ? record?.messages.slice(0, -1) : record?.messages;
+    const sendPrompt = record?.pendingContext && history ? withHistoryContext(history, prompt) : prompt;
+
+    // 会话实际使用的模型（已有会话不受本次请求的 model 参数影响）
+    const sessionModel = record?.model ?? model;
+    const showReasoning = record?.config?.showReasoning !== false;
+
+    // 将用户消息保存到本地缓存（重新生成时沿用原提问）
+    if (!regenerate) {
+      addMessageToCache(sessionId, { role: "user", content: prompt, model: sessionModel, attachments });
+      linkUploads(sessionId, attachments);
+    }
 
     let fullContent = "";
+    let reasoningContent = "";
+    const toolCalls = new Map<string, StoredToolCall>();
+    const usage = emptyTurnUsage(sessionModel);
+    const startedAt = Date.now();
     let hasDelta = false;
     let completed = false;
     let pendingToolCalls = 0; // 追踪正在执行的工具数量
@@ -395,12 +1138,30 @@ export async function sendMessage(options: SendMessageOptions): Promise<void> {
       if (completed) return;
       completed = true;
 
-      // 将助手回复保存到本地缓存
-      if (content.trim().length > 0) {
-        addMessageToCache(sessionId, "assistant", content);
+      // 汇总本轮用量（SDK 未提供思考 Token 时按约 4 字符 / Token 估算）
+      usage.latencyMs = Date.now() - startedAt;
+      if (usage.reasoningTokens === 0 && reasoningContent.length > 0) {
+        usage.reasoningTokens = Math.ceil(reasoningContent.length / 4);
+      }
+      recordUsage(ownerId, sessionId, {
+        turns: 1,
+        latencyMs: usage.latencyMs,
+        reasoningTokens: usage.reasoningTokens,
+      });
+
+      // 将助手回复保存到本地缓存（包含思考过程与工具调用）
+      if (content.trim().length > 0 || toolCalls.size > 0) {
+        addMessageToCache(sessionId, {
+          role: "assistant",
+          content,
+          model: usage.model ?? sessionModel,
+          reasoning: (showReasoning && reasoningContent) || undefined,
+          toolCalls: toolCalls.size > 0 ? Array.from(toolCalls.values()) : undefined,
+          usage,
+        });
       }
 
-      onComplete?.(content);
+      onComplete?.(content, usage);
       // 延迟执行 cleanup，确保队列中的事件都能被处理
       setTimeout(() => cleanup(), 100);
     };
@@ -421,6 +1182,7 @@ export async function sendMessage(options: SendMessageOptions): Promise<void> {
         const delta = event.data.deltaContent || "";
         if (delta.length > 0) {
           hasDelta = true;
+          usage.firstTokenMs ??= Date.now() - startedAt;
         }
         fullContent += delta;
         onDelta?.(delta);
@@ -431,15 +1193,62 @@ export async function sendMessage(options: SendMessageOptions): Promise<void> {
       session.on("assistant.reasoning_delta", (event) => {
         const delta = event.data.deltaContent || "";
         if (delta.length > 0) {
-          onReasoningDelta?.(delta);
+          reasoningContent += delta;
+          if (showReasoning) {
+            onReasoningDelta?.(delta);
+          }
         }
       })
     );
 
+    // 每次模型 API 调用结束时上报用量
+    unsubscribers.push(
+      session.on("assistant.usage", (event) => {
+        const { inputTokens = 0, outputTokens = 0, cacheReadTokens = 0, cacheWriteTokens = 0 } = event.data;
+        const reasoningTokens = (event.data as { reasoningTokens?: number }).reasoningTokens || 0;
+        const tokens = { inputTokens, outputTokens, cacheReadTokens, cacheWriteTokens };
+        const cost = computeCost(tokens, getModelPricing(event.data.model || sessionModel));
+
+        usage.inputTokens += inputTokens;
+        usage.outputTokens += outputTokens;
+        usage.cacheReadTokens += cacheReadTokens;
+        usage.cacheWriteTokens += cacheWriteTokens;
+        usage.reasoningTokens += reasoningTokens;
+        usage.requests += 1;
+        usage.cost += cost;
+        if (event.data.model) usage.model = event.data.model;
+
+        recordUsage(ownerId, sessionId, { ...tokens, reasoningTokens, requests: 1, cost });
+      })
+    );
+
+    // CLI 侧更换模型时同步到会话记录
+    unsubscribers.push(
+      session.on("session.model_change", (event) => {
+        const current = sessionRecords.get(sessionId);
+        if (current && current.model !== event.data.newModel) {
+          current.modelSwitches = [
+            ...(current.modelSwitches || []),
+            { from: current.model, to: event.data.newModel, at: Date.now() },
+          ];
+          current.model = event.data.newModel;
+          persistRecord(current);
+        }
+        usage.model = event.data.newModel;
+      })
+    );
+
     unsubscribers.push(
       session.on("tool.execution_start", (event) => {
         pendingToolCalls++; // 工具开始执行，计数加1
+        usage.toolCalls++;
+        recordUsage(ownerId, sessionId, { toolCalls: 1 });
         toolNameByCallId.set(event.data.toolCallId, event.data.toolName);
+        toolCalls.set(event.data.toolCallId, {
+          toolCallId: event.data.toolCallId,
+          toolName: event.data.toolName,
+          args: event.data.arguments,
+        });
         onToolCall?.(event.data.toolName, event.data.arguments, event.data.toolCallId);
       })
     );
@@ -448,6 +1257,12 @@ export async function sendMessage(options: SendMessageOptions): Promise<void> {
       session.on("tool.execution_complete", (event) => {
         pendingToolCalls = Math.max(0, pendingToolCalls - 1); // 工具执行完成，计数减1
         const name = toolNameByCallId.get(event.data.toolCallId) || event.data.toolCallId;
+        const call = toolCalls.get(event.data.toolCallId);
+        if (call) {
+          call.result = event.data.success === false && event.data.error
+            ? { error: event.data.error.message }
+            : event.data.result;
+        }
         onToolResult?.(name, event.data.result, event.data.toolCallId);
       })
     );
@@ -502,7 +1317,7 @@ export async function sendMessage(options: SendMessageOptions): Promise<void> {
     unsubscribers.push(
       session.on("session.error", (event) => {
         onError?.(new Error(event.data.message || "未知错误"));
-        // 出错后也清理监听器
+        // 出错后也清理监听器，并结束等待中的完成 Promise
         cleanup();
       })
     );
@@ -519,36 +1334,42 @@ export async function sendMessage(options: SendMessageOptions): Promise<void> {
 
     // 创建完成 Promise（带超时保护）
     const completionPromise = new Promise<void>((resolve, reject) => {
+      settleCompletion = resolve;
       const checkComplete = setInterval(() => {
         if (completed) {
           clearInterval(checkComplete);
           resolve();
         }
       }, 100);
+      checkInterval = checkComplete;
       
       // 超时保护：防止无限等待
       timeoutHandle = setTimeout(() => {
         clearInterval(checkComplete);
         if (!completed) {
-          // 如果有部分内容则正常完成，否则报超时错误
+          // 如果有部分内容则正常完成，否则报超时错误（先 reject，cleanup 会结束 Promise）
           if (fullContent.length > 0) {
             finalize(fullContent);
             resolve();
           } else {
-            cleanup();
             reject(new Error('消息响应超时'));
+            cleanup();
           }
         } else {
           resolve();
         }
-      }, DEFAULT_MESSAGE_TIMEOUT);
+      }, record?.config?.timeoutMs ?? DEFAULT_MESSAGE_TIMEOUT);
     });
 
     // 发送消息（非阻塞）
     await session.send({
-      prompt,
-      attachments,
+      prompt: sendPrompt,
+      attachments: withDefaultAttachments(record?.config, attachments),
     });
+    if (record?.pendingContext) {
+      record.pendingContext = false;
+      persistRecord(record);
+    }
 
     // 等待完成（有超时保护）
     await completionPromise;
@@ -561,7 +1382,11 @@ export async function sendMessage(options: SendMessageOptions): Promise<void> {
 /**
  * 中止当前请求
  */
-export async function abortSession(sessionId: string): Promise<void> {
+export async function abortSession(sessionId: string, ownerId?: string): Promise<void> {
+  if (!ownsSession(sessionId, ownerId)) {
+    throw new Error("会话不存在");
+  }
+  cancelPendingApprovals(sessionId);
   const session = activeSessions.get(sessionId);
   if (session) {
     await session.abort();
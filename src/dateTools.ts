@@ -0,0 +1,808 @@
+import fs from "fs";
+
+/**
+ * 时区与日期计算
+ * 不依赖第三方日期库，时区换算基于 Intl.DateTimeFormat（IANA 时区数据库）
+ *
+ * - 时区：IANA 名称（如 "Asia/Shanghai"）、"UTC"，或整点的 UTC 偏移（如 "UTC+8"、"+08:00"）
+ * - 时间：ISO 8601（不带偏移时按指定时区的当地时间解释）、RFC 2822、Unix 时间戳（秒或毫秒），
+ *   以及 now / today / tomorrow / yesterday（现在 / 今天 / 明天 / 昨天）
+ * - 时长：ISO 8601（如 "P1DT2H"）；年、月、周、日按当地日历计算，时、分、秒按实际经过的时间计算
+ * - 节假日日历：内置 none（只排除周末）、CN、US，可通过 HOLIDAY_CALENDARS_FILE 添加或覆盖
+ *
+ * 环境变量配置：
+ * - HOLIDAY_CALENDAR: count_business_days 默认使用的日历，默认 "none"
+ * - HOLIDAY_CALENDARS_FILE: 自定义节假日日历（JSON），格式见 README
+ */
+
+export type DateToolErrorCode =
+  | "INVALID_TIMEZONE"
+  | "INVALID_DATE"
+  | "INVALID_TIME"
+  | "INVALID_DURATION"
+  | "INVALID_RANGE"
+  | "UNKNOWN_CALENDAR";
+
+/**
+ * 日期处理错误（field 为出错的参数名）
+ */
+export class DateToolError extends Error {
+  constructor(
+    public readonly code: DateToolErrorCode,
+    message: string,
+    public readonly field?: string
+  ) {
+    super(message);
+    this.name = "DateToolError";
+  }
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+/** Date 可表示的时间点范围（±8.64e15 毫秒） */
+const MAX_INSTANT = 8.64e15;
+const MAX_RANGE_DAYS = 20 * 366;
+const MAX_LISTED_DATES = 366;
+const WEEKDAYS = ["星期日", "星期一", "星期二", "星期三", "星期四", "星期五", "星期六"];
+
+// ===== 时区 =====
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * 校验并规范化时区（整点 UTC 偏移转换为 Etc/GMT 时区）
+ */
+export function resolveTimeZone(timezone: string | undefined, field = "timezone"): string {
+  if (!timezone) {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  }
+  let zone = timezone.trim();
+  const offset = /^(?:UTC|GMT)?\s*([+-])(\d{1,2})(?::?(\d{2}))?$/i.exec(zone);
+  if (offset) {
+    const hours = Number(offset[2]);
+    if (Number(offset[3] ?? 0) !== 0 || hours > 14) {
+      throw new DateToolError("INVALID_TIMEZONE", `只支持整点的 UTC 偏移: ${timezone}，请使用 IANA 时区名称`, field);
+    }
+    // Etc/GMT 的符号与 UTC 偏移相反
+    zone = hours === 0 ? "UTC" : `Etc/GMT${offset[1] === "+" ? "-" : "+"}${hours}`;
+  }
+  try {
+    // 只规范大小写，保留调用方使用的名称（ICU 会把 Asia/Kolkata 等解析为旧名称）
+    const resolved = getFormatter(zone).resolvedOptions().timeZone;
+    return resolved.toLowerCase() === zone.toLowerCase() ? resolved : zone;
+  } catch {
+    throw new DateToolError("INVALID_TIMEZONE", `无效的时区: ${timezone}（应为 IANA 时区名称，如 "Asia/Shanghai"）`, field);
+  }
+}
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+/**
+ * 时间点在指定时区的当地时间
+ */
+function toWallTime(instant: number, timezone: string): WallTime {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(new Date(instant))) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond: ((instant % 1000) + 1000) % 1000,
+  };
+}
+
+function wallToUtc(wall: WallTime): number {
+  const date = new Date(0);
+  date.setUTCFullYear(wall.year, wall.month - 1, wall.day);
+  date.setUTCHours(wall.hour, wall.minute, wall.second, wall.millisecond);
+  return date.getTime();
+}
+
+/**
+ * 时区在某一时间点的 UTC 偏移（毫秒）
+ */
+function offsetAt(instant: number, timezone: string): number {
+  // 范围边界附近取边界处的偏移，避免 ±1 天的探测越界
+  const clamped = Math.max(-MAX_INSTANT, Math.min(MAX_INSTANT, instant));
+  return wallToUtc(toWallTime(clamped, timezone)) - clamped;
+}
+
+/**
+ * 当地时间对应的时间点
+ * 夏令时重叠时取较早的时间点，跳过的时间按切换前的偏移顺延（与 Temporal 的 "compatible" 一致）
+ */
+function fromWallTime(wall: WallTime, timezone: string): number {
+  const local = wallToUtc(wall);
+  const before = offsetAt(local - DAY, timezone);
+  const after = offsetAt(local + DAY, timezone);
+  const candidates = [local - before, local - after].filter(
+    (instant, i) => offsetAt(instant, timezone) === (i === 0 ? before : after)
+  );
+  return candidates.length > 0 ? Math.min(...candidates) : local - before;
+}
+
+/**
+ * 检查时间点在可表示范围内
+ */
+function checkInstant(instant: number, field: string): number {
+  if (!Number.isFinite(instant) || Math.abs(instant) > MAX_INSTANT) {
+    throw new DateToolError("INVALID_TIME", "时间超出可表示的范围（±8.64e15 毫秒，约公元前 271821 年至公元 275760 年）", field);
+  }
+  return instant;
+}
+
+function pad(value: number, length = 2): string {
+  return String(Math.abs(value)).padStart(length, "0");
+}
+
+function formatOffset(offset: number): string {
+  const minutes = Math.round(offset / 60000);
+  return `${minutes < 0 ? "-" : "+"}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`;
+}
+
+function formatDate(wall: Pick<WallTime, "year" | "month" | "day">): string {
+  return `${wall.year < 0 ? "-" : ""}${pad(wall.year, 4)}-${pad(wall.month)}-${pad(wall.day)}`;
+}
+
+export interface ZonedTime {
+  /** 带偏移的 ISO 8601 时间 */
+  iso: string;
+  /** 当地日期与时间，例如 "2024-05-01 14:00:00" */
+  local: string;
+  timezone: string;
+  offset: string;
+  weekday: string;
+  timestamp: number;
+}
+
+/**
+ * 时间点在指定时区的表示
+ */
+export function formatZoned(instant: number, timezone: string): ZonedTime {
+  const wall = toWallTime(instant, timezone);
+  const offset = formatOffset(offsetAt(instant, timezone));
+  const time = `${pad(wall.hour)}:${pad(wall.minute)}:${pad(wall.second)}`;
+  const ms = wall.millisecond ? `.${pad(wall.millisecond, 3)}` : "";
+  return {
+    iso: `${formatDate(wall)}T${time}${ms}${offset}`,
+    local: `${formatDate(wall)} ${time}`,
+    timezone,
+    offset,
+    weekday: WEEKDAYS[new Date(wallToUtc({ ...wall, hour: 12 })).getUTCDay()],
+    timestamp: instant,
+  };
+}
+
+// ===== 解析 =====
+
+const ISO_PATTERN =
+  /^([+-]?\d{4,6})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d{1,9}))?)?)?\s*(Z|[+-]\d{2}(?::?\d{2})?)?$/i;
+const RFC2822_PATTERN =
+  /^(?:[A-Za-z]{3},\s*)?\d{1,2}\s+[A-Za-z]{3}\s+\d{4}\s+\d{2}:\d{2}(?::\d{2})?\s*(?:[+-]\d{4}|GMT|UTC|UT|[ECMP][SD]T|Z)$/i;
+const RELATIVE_DAYS: Record<string, number> = {
+  today: 0,
+  今天: 0,
+  tomorrow: 1,
+  明天: 1,
+  yesterday: -1,
+  昨天: -1,
+};
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function isValidWall(wall: WallTime): boolean {
+  return (
+    wall.month >= 1 &&
+    wall.month <= 12 &&
+    wall.day >= 1 &&
+    wall.day <= daysInMonth(wall.year, wall.month) &&
+    wall.hour <= 23 &&
+    wall.minute <= 59 &&
+    wall.second <= 59
+  );
+}
+
+export type DateFormat = "iso8601" | "iso8601-date" | "rfc2822" | "unix-seconds" | "unix-milliseconds" | "relative";
+
+/**
+ * 解析时间（未带偏移的时间按 timezone 的当地时间解释）
+ */
+export function parseTime(
+  input: string | number,
+  timezone: string,
+  field = "time"
+): { instant: number; format: DateFormat; hasOffset: boolean } {
+  const value = String(input).trim();
+
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    const number = Number(value);
+    // 绝对值小于 1e11 的视为秒（对应 1973 年之后的毫秒时间戳都大于此值）
+    const seconds = Math.abs(number) < 1e11;
+    return { instant: checkInstant(Math.round(seconds ? number * 1000 : number), field), format: seconds ? "unix-seconds" : "unix-milliseconds", hasOffset: true };
+  }
+
+  const lower = value.toLowerCase();
+  if (lower === "now" || lower === "现在") {
+    return { instant: Date.now(), format: "relative", hasOffset: true };
+  }
+  if (Object.hasOwn(RELATIVE_DAYS, lower)) {
+    const today = toWallTime(Date.now(), timezone);
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + RELATIVE_DAYS[lower]));
+    return {
+      instant: checkInstant(
+        fromWallTime(
+          { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(), hour: 0, minute: 0, second: 0, millisecond: 0 },
+          timezone
+        ),
+        field
+      ),
+      format: "relative",
+      hasOffset: false,
+    };
+  }
+
+  const iso = ISO_PATTERN.exec(value);
+  if (iso) {
+    const wall: WallTime = {
+      year: Number(iso[1]),
+      month: Number(iso[2]),
+      day: Number(iso[3]),
+      hour: Number(iso[4] ?? 0),
+      minute: Number(iso[5] ?? 0),
+      second: Number(iso[6] ?? 0),
+      millisecond: Number((iso[7] ?? "0").padEnd(3, "0").slice(0, 3)),
+    };
+    if (!isValidWall(wall)) {
+      throw new DateToolError("INVALID_DATE", `日期或时间超出范围: ${value}`, field);
+    }
+    const format = iso[4] === undefined ? "iso8601-date" : "iso8601";
+    if (!iso[8]) {
+      return { instant: checkInstant(fromWallTime(wall, timezone), field), format, hasOffset: false };
+    }
+    let offset = 0;
+    if (iso[8].toUpperCase() !== "Z") {
+      const digits = iso[8].replace(":", "");
+      offset = (Number(digits.slice(1, 3)) * 60 + Number(digits.slice(3, 5) || 0)) * 60000 * (digits[0] === "-" ? -1 : 1);
+    }
+    return { instant: checkInstant(wallToUtc(wall) - offset, field), format, hasOffset: true };
+  }
+
+  if (RFC2822_PATTERN.test(value)) {
+    const instant = Date.parse(value);
+    if (!Number.isNaN(instant)) {
+      return { instant, format: "rfc2822", hasOffset: true };
+    }
+  }
+
+  throw new DateToolError(
+    "INVALID_DATE",
+    `无法解析的时间: ${value}（支持 ISO 8601、RFC 2822、Unix 时间戳与 now / today / tomorrow / yesterday）`,
+    field
+  );
+}
+
+/**
+ * 解析日期（YYYY-MM-DD，或可解析的时间取其在 timezone 的当地日期）
+ */
+function parseCalendarDate(input: string, timezone: string, field: string): WallTime {
+  const { instant } = parseTime(input, timezone, field);
+  return { ...toWallTime(instant, timezone), hour: 0, minute: 0, second: 0, millisecond: 0 };
+}
+
+// ===== 时长 =====
+
+export interface Duration {
+  years?: number;
+  months?: number;
+  weeks?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+}
+
+const DURATION_PATTERN =
+  /^([+-])?P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:[.,]\d+)?)S)?)?$/i;
+
+/**
+ * 解析 ISO 8601 时长（如 "P1Y2M10DT2H30M"、"-P3D"、"PT90M"）
+ */
+export function parseDuration(input: string, field = "duration"): Duration {
+  const match = DURATION_PATTERN.exec(input.trim());
+  if (!match || /^[+-]?PT?$/i.test(input.trim())) {
+    throw new DateToolError("INVALID_DURATION", `无效的时长: ${input}（应为 ISO 8601 格式，如 "P1DT2H"、"PT30M"）`, field);
+  }
+  const sign = match[1] === "-" ? -1 : 1;
+  const value = (group: string | undefined) => (group ? Number(group.replace(",", ".")) * sign : undefined);
+  return {
+    years: value(match[2]),
+    months: value(match[3]),
+    weeks: value(match[4]),
+    days: value(match[5]),
+    hours: value(match[6]),
+    minutes: value(match[7]),
+    seconds: value(match[8]),
+  };
+}
+
+/**
+ * 在 timezone 的当地日历上加减时长（月末日期自动收敛，如 1 月 31 日加 1 个月为 2 月的最后一天）
+ */
+function addDurationTo(instant: number, duration: Duration, timezone: string, sign = 1, field = "duration"): number {
+  const wall = toWallTime(instant, timezone);
+  const months = wall.month - 1 + ((duration.years ?? 0) * 12 + (duration.months ?? 0)) * sign;
+  const year = wall.year + Math.floor(months / 12);
+  const month = (((months % 12) + 12) % 12) + 1;
+  const date = new Date(0);
+  date.setUTCFullYear(
+    year,
+    month - 1,
+    Math.min(wall.day, daysInMonth(year, month)) + ((duration.weeks ?? 0) * 7 + (duration.days ?? 0)) * sign
+  );
+  checkInstant(date.getTime(), field);
+
+  const calendar = fromWallTime(
+    { ...wall, year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() },
+    timezone
+  );
+  const elapsed = ((duration.hours ?? 0) * 3600 + (duration.minutes ?? 0) * 60 + (duration.seconds ?? 0)) * 1000 * sign;
+  return checkInstant(calendar + Math.round(elapsed), field);
+}
+
+/**
+ * 格式化为 ISO 8601 时长（负数时长加 - 前缀）
+ */
+function formatDuration(duration: Omit<Required<Duration>, "weeks">, negative: boolean): string {
+  const part = (value: number, unit: string) => (value ? `${value}${unit}` : "");
+  const date = part(duration.years, "Y") + part(duration.months, "M") + part(duration.days, "D");
+  const time = part(duration.hours, "H") + part(duration.minutes, "M") + part(duration.seconds, "S");
+  if (!date && !time) return "PT0S";
+  return `${negative ? "-" : ""}P${date}${time ? `T${time}` : ""}`;
+}
+
+// ===== 工具操作 =====
+
+/**
+ * 当前时间
+ */
+export function currentTime(timezone?: string) {
+  const zone = resolveTimeZone(timezone);
+  const now = formatZoned(Date.now(), zone);
+  return {
+    datetime: now.local,
+    iso: now.iso,
+    timestamp: now.timestamp,
+    timezone: zone,
+    offset: now.offset,
+    weekday: now.weekday,
+  };
+}
+
+/**
+ * 将时间换算到一个或多个时区
+ */
+export function convertTime(time: string | number, to: string[], from?: string) {
+  const source = resolveTimeZone(from, "from");
+  const zones = to.map((zone, i) => resolveTimeZone(zone, `to[${i}]`));
+  const { instant, hasOffset } = parseTime(time, source);
+  return {
+    input: String(time),
+    source: formatZoned(instant, source),
+    ...(hasOffset ? {} : { note: `输入未带时区偏移，按 ${source} 的当地时间解释` }),
+    utc: new Date(instant).toISOString(),
+    conversions: zones.map((zone) => formatZoned(instant, zone)),
+  };
+}
+
+/**
+ * 解析时间字符串并给出识别的格式与各种表示
+ */
+export function describeTime(time: string | number, timezone?: string) {
+  const zone = resolveTimeZone(timezone);
+  const { instant, format, hasOffset } = parseTime(time, zone);
+  return {
+    input: String(time),
+    format,
+    hasOffset,
+    utc: new Date(instant).toISOString(),
+    local: formatZoned(instant, zone),
+    unixSeconds: Math.floor(instant / 1000),
+    unixMilliseconds: instant,
+  };
+}
+
+/**
+ * 两个时间的间隔：按当地日历拆分为年、月、日、时、分、秒，并给出各单位的总量
+ */
+export function timeDifference(start: string | number, end: string | number, timezone?: string) {
+  const zone = resolveTimeZone(timezone);
+  const from = parseTime(start, zone, "start").instant;
+  const to = parseTime(end, zone, "end").instant;
+  const sign = to < from ? -1 : 1;
+  const [a, b] = sign === 1 ? [from, to] : [to, from];
+
+  const wa = toWallTime(a, zone);
+  const wb = toWallTime(b, zone);
+  let months = (wb.year - wa.year) * 12 + (wb.month - wa.month);
+  while (months > 0 && addDurationTo(a, { months }, zone) > b) months--;
+  const anchor = addDurationTo(a, { months }, zone);
+  let days = Math.max(0, Math.floor((b - anchor) / DAY) + 1);
+  while (days > 0 && addDurationTo(anchor, { days }, zone) > b) days--;
+  const rest = Math.round((b - addDurationTo(anchor, { days }, zone)) / 1000);
+
+  const breakdown = {
+    years: Math.floor(months / 12),
+    months: months % 12,
+    days,
+    hours: Math.floor(rest / 3600),
+    minutes: Math.floor((rest % 3600) / 60),
+    seconds: rest % 60,
+  };
+  const total = (to - from) / 1000;
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    start: formatZoned(from, zone),
+    end: formatZoned(to, zone),
+    breakdown: Object.fromEntries(Object.entries(breakdown).map(([unit, value]) => [unit, value * sign])),
+    duration: formatDuration(breakdown, sign === -1),
+    totals: {
+      weeks: round(total / 604800),
+      days: round(total / 86400),
+      hours: round(total / 3600),
+      minutes: round(total / 60),
+      seconds: total,
+    },
+  };
+}
+
+/**
+ * 时间加减时长（duration 为 ISO 8601 字符串或各单位的数量）
+ */
+export function addDuration(time: string | number, duration: string | Duration, timezone?: string, subtract = false) {
+  const zone = resolveTimeZone(timezone);
+  const { instant } = parseTime(time, zone);
+  const parsed = typeof duration === "string" ? parseDuration(duration) : duration;
+  const result = addDurationTo(instant, parsed, zone, subtract ? -1 : 1);
+  return {
+    start: formatZoned(instant, zone),
+    operation: subtract ? "subtract" : "add",
+    duration: parsed,
+    result: formatZoned(result, zone),
+  };
+}
+
+// ===== 节假日日历与工作日 =====
+
+export interface HolidayCalendar {
+  name: string;
+  description: string;
+  /** 周末（0 为星期日） */
+  weekend: number[];
+  /** 该年的节假日（YYYY-MM-DD -> 名称） */
+  holidays(year: number): Record<string, string>;
+  /** 调休上班的周末日期 */
+  workdays?: string[];
+  /** 有数据的年份范围（基于规则的日历为空） */
+  years?: [number, number];
+}
+
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    return formatDate({ year, month, day: 1 + ((weekday - first + 7) % 7) + (n - 1) * 7 });
+  }
+  const lastDay = daysInMonth(year, month);
+  const last = new Date(Date.UTC(year, month - 1, lastDay)).getUTCDay();
+  return formatDate({ year, month, day: lastDay - ((last - weekday + 7) % 7) });
+}
+
+// 落在周六的节日提前到周五、落在周日的顺延到周一
+function observed(year: number, month: number, day: number): string {
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  const shift = weekday === 6 ? -1 : weekday === 0 ? 1 : 0;
+  const date = new Date(Date.UTC(year, month - 1, day + shift));
+  return formatDate({ year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() });
+}
+
+function dateRange(start: string, end: string): string[] {
+  const dates: string[] = [];
+  for (let t = Date.parse(start); t <= Date.parse(end); t += DAY) {
+    dates.push(new Date(t).toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+function holidayRanges(ranges: Array<[string, string, string]>): Record<string, string> {
+  return Object.fromEntries(ranges.flatMap(([start, end, name]) => dateRange(start, end).map((date) => [date, name])));
+}
+
+// 中国法定节假日（含调休），依据国务院办公厅每年发布的放假安排
+const CN_HOLIDAYS = holidayRanges([
+  ["2025-01-01", "2025-01-01", "元旦"],
+  ["2025-01-28", "2025-02-04", "春节"],
+  ["2025-04-04", "2025-04-06", "清明节"],
+  ["2025-05-01", "2025-05-05", "劳动节"],
+  ["2025-05-31", "2025-06-02", "端午节"],
+  ["2025-10-01", "2025-10-08", "国庆节、中秋节"],
+  ["2026-01-01", "2026-01-03", "元旦"],
+  ["2026-02-15", "2026-02-23", "春节"],
+  ["2026-04-04", "2026-04-06", "清明节"],
+  ["2026-05-01", "2026-05-05", "劳动节"],
+  ["2026-06-19", "2026-06-21", "端午节"],
+  ["2026-09-25", "2026-09-27", "中秋节"],
+  ["2026-10-01", "2026-10-07", "国庆节"],
+]);
+
+const BUILTIN_CALENDARS: HolidayCalendar[] = [
+  {
+    name: "none",
+    description: "只排除周六、周日",
+    weekend: [0, 6],
+    holidays: () => ({}),
+  },
+  {
+    name: "CN",
+    description: "中国法定节假日与调休",
+    weekend: [0, 6],
+    holidays: (year) => Object.fromEntries(Object.entries(CN_HOLIDAYS).filter(([date]) => date.startsWith(`${year}-`))),
+    workdays: [
+      "2025-01-26", "2025-02-08", "2025-04-27", "2025-09-28", "2025-10-11",
+      "2026-01-04", "2026-02-14", "2026-02-28", "2026-05-09", "2026-09-20", "2026-10-10",
+    ],
+    years: [2025, 2026],
+  },
+  {
+    name: "US",
+    description: "美国联邦假日（按规则计算，落在周末时调整到相邻工作日）",
+    weekend: [0, 6],
+    holidays: (year) => ({
+      [observed(year, 1, 1)]: "New Year's Day",
+      [nthWeekday(year, 1, 1, 3)]: "Martin Luther King Jr. Day",
+      [nthWeekday(year, 2, 1, 3)]: "Washington's Birthday",
+      [nthWeekday(year, 5, 1, -1)]: "Memorial Day",
+      ...(year >= 2021 ? { [observed(year, 6, 19)]: "Juneteenth" } : {}),
+      [observed(year, 7, 4)]: "Independence Day",
+      [nthWeekday(year, 9, 1, 1)]: "Labor Day",
+      [nthWeekday(year, 10, 1, 2)]: "Columbus Day",
+      [observed(year, 11, 11)]: "Veterans Day",
+      [nthWeekday(year, 11, 4, 4)]: "Thanksgiving Day",
+      [observed(year, 12, 25)]: "Christmas Day",
+    }),
+  },
+];
+
+interface CalendarFileEntry {
+  description?: string;
+  weekend?: number[];
+  holidays?: Record<string, string> | string[];
+  workdays?: string[];
+}
+
+let calendars: Map<string, HolidayCalendar> | null = null;
+
+/**
+ * 读取 HOLIDAY_CALENDARS_FILE 中的日历（{ 日历名: { holidays, workdays?, weekend?, description? } }）
+ */
+function loadCalendarFile(file: string): HolidayCalendar[] {
+  try {
+    const data = JSON.parse(fs.readFileSync(file, "utf-8")) as Record<string, CalendarFileEntry>;
+    return Object.entries(data).map(([name, entry]) => {
+      const holidays = Array.isArray(entry.holidays)
+        ? Object.fromEntries(entry.holidays.map((date) => [date, "节假日"]))
+        : entry.holidays ?? {};
+      const years = Object.keys(holidays).map((date) => Number(date.slice(0, 4)));
+      return {
+        name,
+        description: entry.description ?? `自定义日历（${file}）`,
+        weekend: entry.weekend ?? [0, 6],
+        holidays: (year: number) =>
+          Object.fromEntries(Object.entries(holidays).filter(([date]) => date.startsWith(`${year}-`))),
+        workdays: entry.workdays,
+        years: years.length > 0 ? [Math.min(...years), Math.max(...years)] : undefined,
+      };
+    });
+  } catch (e) {
+    console.error(`⚠️ 无法读取节假日日历文件: ${file}`, e);
+    return [];
+  }
+}
+
+function getCalendars(): Map<string, HolidayCalendar> {
+  if (!calendars) {
+    const file = process.env.HOLIDAY_CALENDARS_FILE;
+    calendars = new Map(
+      [...BUILTIN_CALENDARS, ...(file ? loadCalendarFile(file) : [])].map((calendar) => [calendar.name.toUpperCase(), calendar])
+    );
+  }
+  return calendars;
+}
+
+/**
+ * 统计两个日期之间（含首尾）的工作日
+ * holidays / workdays 为额外的节假日与调休上班日期，在日历的基础上生效
+ */
+export function businessDays(options: {
+  start: string;
+  end: string;
+  calendar?: string;
+  holidays?: string[];
+  workdays?: string[];
+  timezone?: string;
+  listDates?: boolean;
+}) {
+  const zone = resolveTimeZone(options.timezone);
+  const name = options.calendar || process.env.HOLIDAY_CALENDAR || "none";
+  const calendar = getCalendars().get(name.toUpperCase());
+  if (!calendar) {
+    throw new DateToolError(
+      "UNKNOWN_CALENDAR",
+      `未知的节假日日历: ${name}（可用: ${Array.from(getCalendars().values(), (c) => c.name).join("、")}）`,
+      "calendar"
+    );
+  }
+
+  const from = formatDate(parseCalendarDate(options.start, zone, "start"));
+  const to = formatDate(parseCalendarDate(options.end, zone, "end"));
+  const [first, last] = from <= to ? [from, to] : [to, from];
+  const span = (Date.parse(last) - Date.parse(first)) / DAY + 1;
+  if (span > MAX_RANGE_DAYS) {
+    throw new DateToolError("INVALID_RANGE", `日期范围过大（${span} 天），最多 ${MAX_RANGE_DAYS} 天`, "end");
+  }
+
+  const extraHolidays = new Set(options.holidays?.map((date) => formatDate(parseCalendarDate(date, zone, "holidays"))));
+  const workdays = new Set([
+    ...(calendar.workdays ?? []),
+    ...(options.workdays?.map((date) => formatDate(parseCalendarDate(date, zone, "workdays"))) ?? []),
+  ]);
+  const yearHolidays = new Map<number, Record<string, string>>();
+
+  const dates: string[] = [];
+  const holidays: Array<{ date: string; name: string }> = [];
+  const makeupWorkdays: string[] = [];
+  let count = 0;
+  let weekendDays = 0;
+  for (const date of dateRange(first, last)) {
+    const year = Number(date.slice(0, 4));
+    if (!yearHolidays.has(year)) yearHolidays.set(year, calendar.holidays(year));
+    const holiday = extraHolidays.has(date) ? "自定义节假日" : yearHolidays.get(year)![date];
+    const weekend = calendar.weekend.includes(new Date(date).getUTCDay());
+
+    if (holiday) {
+      holidays.push({ date, name: holiday });
+    } else if (weekend && !workdays.has(date)) {
+      weekendDays++;
+    } else {
+      if (weekend) makeupWorkdays.push(date);
+      count++;
+      if (options.listDates && dates.length < MAX_LISTED_DATES) dates.push(date);
+    }
+  }
+
+  const warnings: string[] = [];
+  if (calendar.years && (Number(first.slice(0, 4)) < calendar.years[0] || Number(last.slice(0, 4)) > calendar.years[1])) {
+    warnings.push(`${calendar.name} 日历只包含 ${calendar.years[0]}–${calendar.years[1]} 年的节假日，其他年份只排除周末`);
+  }
+
+  return {
+    start: first,
+    end: last,
+    calendar: calendar.name,
+    totalDays: span,
+    businessDays: from <= to ? count : -count,
+    weekendDays,
+    holidays,
+    makeupWorkdays,
+    ...(options.listDates ? { dates, datesTruncated: count > dates.length } : {}),
+    ...(warnings.length > 0 ? { warnings } : {}),
+  };
+}
+
+// ===== 会议时间 =====
+
+function parseClock(value: string, field: string): { hour: number; minute: number } {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match || Number(match[1]) > 24 || Number(match[2]) > 59 || (Number(match[1]) === 24 && Number(match[2]) > 0)) {
+    throw new DateToolError("INVALID_DATE", `无效的时间: ${value}（应为 HH:MM）`, field);
+  }
+  return { hour: Number(match[1]), minute: Number(match[2]) };
+}
+
+/**
+ * 查找多个时区的工作时间在某一天（按第一个时区的日期）的重叠时段
+ */
+export function meetingOverlap(options: {
+  timezones: string[];
+  date?: string;
+  workStart?: string;
+  workEnd?: string;
+  durationMinutes?: number;
+  skipWeekends?: boolean;
+}) {
+  if (options.timezones.length === 0) {
+    throw new DateToolError("INVALID_RANGE", "至少需要一个时区", "timezones");
+  }
+  const zones = options.timezones.map((zone, i) => resolveTimeZone(zone, `timezones[${i}]`));
+  const workStart = parseClock(options.workStart ?? "09:00", "workStart");
+  const workEnd = parseClock(options.workEnd ?? "18:00", "workEnd");
+  const duration = (options.durationMinutes ?? 30) * 60000;
+  const skipWeekends = options.skipWeekends ?? true;
+
+  const day = parseCalendarDate(options.date ?? "today", zones[0], "date");
+  const dayStart = fromWallTime(day, zones[0]);
+  const dayEnd = addDurationTo(dayStart, { days: 1 }, zones[0]);
+
+  // 每个时区在参考日前后各一天内的工作时段
+  let overlap: Array<[number, number]> = [[dayStart, dayEnd]];
+  for (const zone of zones) {
+    const intervals: Array<[number, number]> = [];
+    const first = toWallTime(dayStart - DAY, zone);
+    for (let i = 0; i < 4; i++) {
+      const date = new Date(Date.UTC(first.year, first.month - 1, first.day + i));
+      if (skipWeekends && (date.getUTCDay() === 0 || date.getUTCDay() === 6)) continue;
+      const wall = { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(), second: 0, millisecond: 0 };
+      const start = fromWallTime({ ...wall, ...workStart }, zone);
+      let end = fromWallTime({ ...wall, ...workEnd, hour: workEnd.hour % 24 }, zone);
+      if (workEnd.hour === 24 || end <= start) end = addDurationTo(end, { days: 1 }, zone);
+      intervals.push([start, end]);
+    }
+    overlap = overlap.flatMap(([a, b]) =>
+      intervals
+        .map(([c, d]) => [Math.max(a, c), Math.min(b, d)] as [number, number])
+        .filter(([s, e]) => e > s)
+    );
+  }
+
+  const windows = overlap
+    .filter(([start, end]) => end - start >= duration)
+    .map(([start, end]) => ({
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+      durationMinutes: Math.round((end - start) / 60000),
+      local: zones.map((zone) => {
+        const from = formatZoned(start, zone);
+        const to = formatZoned(end, zone);
+        return { timezone: zone, start: from.local.slice(0, 16), end: to.local.slice(0, 16), weekday: from.weekday };
+      }),
+    }));
+
+  return {
+    date: formatDate(day),
+    timezones: zones,
+    workHours: `${options.workStart ?? "09:00"}-${options.workEnd ?? "18:00"}`,
+    windows,
+    ...(windows.length === 0 ? { message: "所有时区的工作时间没有满足时长要求的重叠时段" } : {}),
+  };
+}
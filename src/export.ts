@@ -0,0 +1,293 @@
+import path from "path";
+import { z } from "zod";
+import type { SessionRecord, StoredMessage } from "./store.js";
+import { SESSION_TIMEOUT_MAX, SESSION_TIMEOUT_MIN } from "./sessionConfig.js";
+
+/**
+ * 会话导出与导入
+ * 支持导出为 Markdown、JSON、HTML；JSON 导出可以重新导入为新会话
+ *
+ * 导出内容包含当前分支的思考过程、工具调用（参数与结果）、附件名、模型与会话配置，
+ * 不包含其他分支、会话归属、审批记录以及服务器上的附件路径
+ */
+
+export type ExportFormat = "md" | "json" | "html";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["md", "json", "html"];
+
+// JSON 导出格式标识与版本
+const EXPORT_KIND = "copilot-sdk-demo/session";
+const EXPORT_VERSION = 1;
+
+// 时间戳（毫秒，限制在 Date 可表示的范围内，避免客户端格式化时出错）
+const timestampSchema = z.number().int().min(0).max(8.64e15);
+
+// 消息 ID（客户端会将其写入 HTML 属性，只允许字母、数字、下划线与连字符）
+const messageIdSchema = z.string().regex(/^[\w-]{1,64}$/, "消息 ID 格式无效");
+
+// 导入时的消息结构校验
+const messageSchema = z.object({
+  id: messageIdSchema.optional(),
+  parentId: messageIdSchema.optional(),
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  timestamp: timestampSchema,
+  model: z.string().optional(),
+  reasoning: z.string().optional(),
+  toolCalls: z
+    .array(
+      z.object({
+        toolCallId: z.string(),
+        toolName: z.string(),
+        args: z.unknown().optional(),
+        result: z.unknown().optional(),
+      })
+    )
+    .optional(),
+  attachments: z
+    .array(
+      z.object({
+        type: z.enum(["file", "directory"]),
+        path: z.string(),
+        displayName: z.string().optional(),
+      })
+    )
+    .optional(),
+});
+
+const exportSchema = z.object({
+  kind: z.literal(EXPORT_KIND),
+  version: z.literal(EXPORT_VERSION),
+  exportedAt: timestampSchema.optional(),
+  session: z.object({
+    sessionId: z.string(),
+    title: z.string().optional(),
+    model: z.string().optional(),
+    tools: z.array(z.string()).optional(),
+    /** 会话配置（不含默认附件） */
+    config: z
+      .object({
+        systemPrompt: z.string().optional(),
+        persona: z.string().optional(),
+        showReasoning: z.boolean().optional(),
+        timeoutMs: z.number().int().min(SESSION_TIMEOUT_MIN).max(SESSION_TIMEOUT_MAX).optional(),
+      })
+      .optional(),
+    createdAt: timestampSchema,
+    updatedAt: timestampSchema,
+  }),
+  messages: z.array(messageSchema),
+});
+
+export type SessionExport = z.infer<typeof exportSchema>;
+
+/**
+ * 去掉附件的服务器路径，只保留文件名
+ */
+function stripAttachmentPaths(message: StoredMessage): StoredMessage {
+  if (!message.attachments) return message;
+  return {
+    ...message,
+    attachments: message.attachments.map((a) => ({
+      type: a.type,
+      path: path.basename(a.path),
+      displayName: a.displayName,
+    })),
+  };
+}
+
+/**
+ * 生成 JSON 导出数据
+ */
+export function toSessionExport(record: SessionRecord): SessionExport {
+  return {
+    kind: EXPORT_KIND,
+    version: EXPORT_VERSION,
+    exportedAt: Date.now(),
+    session: {
+      sessionId: record.sessionId,
+      title: record.title,
+      model: record.model,
+      tools: record.tools,
+      config: record.config && {
+        systemPrompt: record.config.systemPrompt,
+        persona: record.config.persona,
+        showReasoning: record.config.showReasoning,
+        timeoutMs: record.config.timeoutMs,
+      },
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    },
+    messages: record.messages.map(stripAttachmentPaths),
+  };
+}
+
+/**
+ * 校验并解析 JSON 导出数据
+ * 附件只保留文件名：导入数据中的路径不可信，不能作为服务器上的文件引用
+ */
+export function parseSessionExport(data: unknown): SessionExport {
+  const parsed = exportSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`导入数据格式错误: ${issue.path.join(".") || "(根)"} ${issue.message}`);
+  }
+  return { ...parsed.data, messages: parsed.data.messages.map(stripAttachmentPaths) };
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace("T", " ").replace(/\.\d+Z$/, " UTC");
+}
+
+function formatJson(value: unknown): string {
+  if (value === undefined) return "";
+  if (typeof value === "string") return value;
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch {
+    return String(value);
+  }
+}
+
+function attachmentNames(message: StoredMessage): string[] {
+  return (message.attachments || []).map((a) => a.displayName || path.basename(a.path));
+}
+
+/**
+ * 选择不会与内容冲突的 Markdown 代码围栏
+ */
+function fence(content: string, lang = ""): string {
+  const longest = Math.max(2, ...(content.match(/`+/g) || []).map((m) => m.length));
+  const marker = "`".repeat(longest + 1);
+  return `${marker}${lang}\n${content}\n${marker}`;
+}
+
+/**
+ * 导出为 Markdown
+ */
+export function renderMarkdown(record: SessionRecord): string {
+  const lines: string[] = [`# ${record.title || record.sessionId}`, ""];
+  lines.push(`- 会话 ID: \`${record.sessionId}\``);
+  if (record.model) lines.push(`- 模型: ${record.model}`);
+  lines.push(`- 创建时间: ${formatTime(record.createdAt)}`);
+  lines.push(`- 导出时间: ${formatTime(Date.now())}`);
+
+  for (const message of record.messages) {
+    lines.push("", "---", "");
+    const who = message.role === "user" ? "👤 用户" : "🤖 助手";
+    const model = message.role === "assistant" && message.model ? ` (${message.model})` : "";
+    lines.push(`## ${who}${model} · ${formatTime(message.timestamp)}`, "");
+
+    const names = attachmentNames(message);
+    if (names.length > 0) {
+      lines.push(`📎 附件: ${names.join(", ")}`, "");
+    }
+
+    if (message.reasoning) {
+      lines.push("<details>", "<summary>💭 思考过程</summary>", "", fence(message.reasoning), "", "</details>", "");
+    }
+
+    for (const call of message.toolCalls || []) {
+      lines.push(`### 🔧 工具调用: ${call.toolName}`, "", "参数:", "", fence(formatJson(call.args ?? {}), "json"), "");
+      if (call.result !== undefined) {
+        lines.push("结果:", "", fence(formatJson(call.result), "json"), "");
+      }
+    }
+
+    lines.push(message.content);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * 导出为独立的 HTML 页面（内容按纯文本显示，不执行任何脚本）
+ */
+export function renderHtml(record: SessionRecord): string {
+  const title = escapeHtml(record.title || record.sessionId);
+  const messages = record.messages
+    .map((message) => {
+      const parts: string[] = [];
+      const who = message.role === "user" ? "👤 用户" : "🤖 助手";
+      const model = message.role === "assistant" && message.model ? ` (${escapeHtml(message.model)})` : "";
+      parts.push(`<div class="meta">${who}${model} · ${formatTime(message.timestamp)}</div>`);
+
+      const names = attachmentNames(message);
+      if (names.length > 0) {
+        parts.push(`<div class="attachments">📎 ${names.map(escapeHtml).join(", ")}</div>`);
+      }
+      if (message.reasoning) {
+        parts.push(`<details class="reasoning"><summary>💭 思考过程</summary><pre>${escapeHtml(message.reasoning)}</pre></details>`);
+      }
+      for (const call of message.toolCalls || []) {
+        parts.push(
+          `<div class="tool"><div class="tool-name">🔧 ${escapeHtml(call.toolName)}</div>` +
+            `<pre>${escapeHtml(formatJson(call.args ?? {}))}</pre>` +
+            (call.result !== undefined ? `<pre class="result">${escapeHtml(formatJson(call.result))}</pre>` : "") +
+            `</div>`
+        );
+      }
+      parts.push(`<div class="content">${escapeHtml(message.content)}</div>`);
+      return `<section class="message ${message.role}">\n${parts.join("\n")}\n</section>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${title}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 860px; margin: 0 auto; padding: 24px; color: #1f2328; }
+  .message { border: 1px solid #d0d7de; border-radius: 8px; padding: 12px 16px; margin: 12px 0; }
+  .message.user { background: #f6f8fa; }
+  .meta { font-size: 12px; color: #656d76; margin-bottom: 8px; }
+  .content { white-space: pre-wrap; word-break: break-word; }
+  .attachments { font-size: 12px; margin-bottom: 8px; }
+  .reasoning, .tool { font-size: 13px; margin-bottom: 8px; }
+  .tool { border-left: 3px solid #0969da; padding-left: 8px; }
+  .tool-name { font-weight: 600; color: #0969da; }
+  pre { background: rgba(0, 0, 0, 0.04); padding: 8px; border-radius: 4px; white-space: pre-wrap; word-break: break-all; }
+  pre.result { border-left: 3px solid #1a7f37; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="meta">会话 ID: ${escapeHtml(record.sessionId)}${record.model ? ` · 模型: ${escapeHtml(record.model)}` : ""} · 创建时间: ${formatTime(record.createdAt)}</p>
+${messages}
+</body>
+</html>
+`;
+}
+
+/**
+ * 按格式导出会话，返回响应所需的内容类型、文件名与正文
+ */
+export function exportSession(
+  record: SessionRecord,
+  format: ExportFormat
+): { contentType: string; filename: string; body: string } {
+  const base = `${record.sessionId.replace(/[^a-zA-Z0-9_-]/g, "_")}`;
+  switch (format) {
+    case "json":
+      return {
+        contentType: "application/json; charset=utf-8",
+        filename: `${base}.json`,
+        body: JSON.stringify(toSessionExport(record), null, 2),
+      };
+    case "html":
+      return { contentType: "text/html; charset=utf-8", filename: `${base}.html`, body: renderHtml(record) };
+    case "md":
+      return { contentType: "text/markdown; charset=utf-8", filename: `${base}.md`, body: renderMarkdown(record) };
+  }
+}
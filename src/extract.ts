@@ -0,0 +1,366 @@
+import fs from "fs";
+import path from "path";
+import { Transform, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+import ExcelJS from "exceljs";
+import mammoth from "mammoth";
+import * as tar from "tar";
+import { extractText } from "unpdf";
+import yauzl from "yauzl";
+
+/**
+ * 文档提取
+ * 将模型难以直接读取的上传文件转换为派生产物，发送消息时代替原始文件作为附件：
+ * - PDF、DOCX：提取为纯文本（Markdown）
+ * - CSV、XLSX：生成表格预览（表头 + 前若干行）
+ * - ZIP、TAR（含 .tar.gz / .tgz）：解压为目录附件
+ *
+ * 环境变量配置：
+ * - EXTRACT_MAX_CHARS: 提取文本的最大字符数，默认 200000
+ * - EXTRACT_PREVIEW_ROWS: 表格预览的行数（每个工作表），默认 50
+ * - ARCHIVE_MAX_FILES: 压缩包最多解压的文件数，默认 2000
+ * - ARCHIVE_MAX_MB: 压缩包解压后的总大小上限（MB），默认 100
+ */
+
+export type ExtractionKind = "text" | "table" | "archive";
+
+// 提取结果
+export interface Extraction {
+  kind: ExtractionKind;
+  /** 派生产物在派生目录中的名称（文本文件或解压目录） */
+  name: string;
+  /** 简要说明，例如 "12 页"、"2 个工作表"、"35 个文件" */
+  summary: string;
+  /** 内容是否因超出上限被截断 */
+  truncated?: boolean;
+}
+
+const EXTRACT_MAX_CHARS = Number(process.env.EXTRACT_MAX_CHARS) || 200000;
+const EXTRACT_PREVIEW_ROWS = Number(process.env.EXTRACT_PREVIEW_ROWS) || 50;
+const ARCHIVE_MAX_FILES = Number(process.env.ARCHIVE_MAX_FILES) || 2000;
+const ARCHIVE_MAX_BYTES = (Number(process.env.ARCHIVE_MAX_MB) || 100) * 1024 * 1024;
+
+// 文本与表格的派生文件名 / 解压目录名
+const CONTENT_FILE = "content.md";
+const ARCHIVE_DIR = "archive";
+
+type Extractor = (filePath: string, originalName: string, outDir: string) => Promise<Extraction>;
+
+/**
+ * 判断文件是否需要提取，返回对应的提取方式
+ */
+function extractorFor(originalName: string): Extractor | undefined {
+  const name = originalName.toLowerCase();
+  if (name.endsWith(".pdf")) return extractPdf;
+  if (name.endsWith(".docx")) return extractDocx;
+  if (name.endsWith(".csv")) return extractCsv;
+  if (name.endsWith(".xlsx")) return extractXlsx;
+  if (name.endsWith(".zip")) return extractZip;
+  if (name.endsWith(".tar") || name.endsWith(".tar.gz") || name.endsWith(".tgz")) return extractTar;
+  return undefined;
+}
+
+/**
+ * 是否支持提取该文件
+ */
+export function isExtractable(originalName: string): boolean {
+  return extractorFor(originalName) !== undefined;
+}
+
+/**
+ * 提取文档，派生产物写入 outDir（会先清空）
+ * 不支持的文件类型返回 undefined；文件损坏或超出限制时抛出 Error
+ */
+export async function extractDocument(
+  filePath: string,
+  originalName: string,
+  outDir: string
+): Promise<Extraction | undefined> {
+  const extractor = extractorFor(originalName);
+  if (!extractor) return undefined;
+
+  await fs.promises.rm(outDir, { recursive: true, force: true });
+  await fs.promises.mkdir(outDir, { recursive: true });
+  try {
+    return await extractor(filePath, originalName, outDir);
+  } catch (error) {
+    await fs.promises.rm(outDir, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+/**
+ * 截断过长的文本
+ */
+function limitText(text: string): { text: string; truncated: boolean } {
+  if (text.length <= EXTRACT_MAX_CHARS) return { text, truncated: false };
+  return { text: `${text.slice(0, EXTRACT_MAX_CHARS)}\n\n…（内容过长，已截断）`, truncated: true };
+}
+
+async function writeContent(
+  outDir: string,
+  originalName: string,
+  kind: ExtractionKind,
+  summary: string,
+  body: string
+): Promise<Extraction> {
+  const { text, truncated } = limitText(`# ${originalName}\n\n> 由原文件提取（${summary}）\n\n${body}`);
+  await fs.promises.writeFile(path.join(outDir, CONTENT_FILE), text, "utf-8");
+  return { kind, name: CONTENT_FILE, summary, truncated: truncated || undefined };
+}
+
+async function extractPdf(filePath: string, originalName: string, outDir: string): Promise<Extraction> {
+  const { totalPages, text } = await extractText(new Uint8Array(await fs.promises.readFile(filePath)));
+  const body = text.map((page, index) => `## 第 ${index + 1} 页\n\n${page.trim()}`).join("\n\n");
+  if (!text.some((page) => page.trim())) {
+    throw new Error("PDF 中没有可提取的文本（可能是扫描件）");
+  }
+  return writeContent(outDir, originalName, "text", `${totalPages} 页`, body);
+}
+
+async function extractDocx(filePath: string, originalName: string, outDir: string): Promise<Extraction> {
+  const { value } = await mammoth.extractRawText({ path: filePath });
+  const body = value.replace(/\n{3,}/g, "\n\n").trim();
+  return writeContent(outDir, originalName, "text", `${body.length} 字符`, body);
+}
+
+/**
+ * 将行数据转换为 Markdown 表格预览（第一行作为表头）
+ */
+function toMarkdownTable(rows: string[][]): { table: string; summary: string } {
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  if (rows.length === 0 || width === 0) {
+    return { table: "（空表）", summary: "空表" };
+  }
+
+  const cell = (value: string | undefined) => (value ?? "").replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+  const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => cell(row[i])).join(" | ")} |`;
+  const dataRows = rows.length - 1;
+  const preview = rows.slice(1, 1 + EXTRACT_PREVIEW_ROWS);
+
+  const lines = [line(rows[0]), `|${" --- |".repeat(width)}`, ...preview.map(line)];
+  const summary = `${dataRows} 行 × ${width} 列`;
+  const note = dataRows > preview.length ? `\n\n（共 ${dataRows} 行，仅显示前 ${preview.length} 行）` : "";
+  return { table: lines.join("\n") + note, summary };
+}
+
+/**
+ * 解析 CSV（支持引号包裹与转义），根据首行自动识别逗号、分号或制表符分隔
+ */
+function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+async function extractCsv(filePath: string, originalName: string, outDir: string): Promise<Extraction> {
+  const text = (await fs.promises.readFile(filePath, "utf-8")).replace(/^\uFEFF/, "");
+  const { table, summary } = toMarkdownTable(parseCsv(text));
+  return writeContent(outDir, originalName, "table", summary, table);
+}
+
+async function extractXlsx(filePath: string, originalName: string, outDir: string): Promise<Extraction> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(filePath);
+
+  const sections = workbook.worksheets.map((sheet) => {
+    const rows: string[][] = [];
+    sheet.eachRow((row) => {
+      rows.push(Array.from({ length: row.cellCount }, (_, i) => row.getCell(i + 1).text));
+    });
+    const { table, summary } = toMarkdownTable(rows);
+    return `## 工作表: ${sheet.name}（${summary}）\n\n${table}`;
+  });
+
+  return writeContent(outDir, originalName, "table", `${sections.length} 个工作表`, sections.join("\n\n"));
+}
+
+/**
+ * 计算压缩包条目的解压路径，路径越出目标目录时返回 null
+ */
+function safeJoin(dest: string, entryPath: string): string | null {
+  const root = path.resolve(dest);
+  const target = path.resolve(root, entryPath);
+  return target.startsWith(root + path.sep) ? target : null;
+}
+
+// 解压限制
+export interface UnpackLimits {
+  maxFiles: number;
+  maxBytes: number;
+}
+
+const ARCHIVE_LIMITS: UnpackLimits = { maxFiles: ARCHIVE_MAX_FILES, maxBytes: ARCHIVE_MAX_BYTES };
+
+export function archiveLimitError(limits: UnpackLimits): Error {
+  return new Error(`压缩包过大（最多 ${limits.maxFiles} 个文件，解压后不超过 ${limits.maxBytes / 1024 / 1024}MB）`);
+}
+
+function openZip(filePath: string): Promise<yauzl.ZipFile> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(filePath, { lazyEntries: true }, (err, zipfile) => (err ? reject(err) : resolve(zipfile)));
+  });
+}
+
+/**
+ * 依次处理 zip 中的文件条目（跳过目录与符号链接），handle 返回后才读取下一个条目
+ */
+async function eachZipFile(
+  filePath: string,
+  handle: (entry: yauzl.Entry, openStream: () => Promise<Readable>) => Promise<void>
+): Promise<void> {
+  const zip = await openZip(filePath);
+  await new Promise<void>((resolve, reject) => {
+    const fail = (error: Error) => {
+      zip.close();
+      reject(error);
+    };
+
+    // 包含绝对路径或 ".." 的条目会由 yauzl 报错，整个压缩包视为无效
+    zip.on("error", (error: Error) => reject(new Error(`压缩包无效: ${error.message}`)));
+    zip.on("end", () => resolve());
+    zip.on("entry", (entry: yauzl.Entry) => {
+      const isSymlink = ((entry.externalFileAttributes >>> 16) & 0o170000) === 0o120000;
+      if (entry.fileName.endsWith("/") || isSymlink) {
+        zip.readEntry();
+        return;
+      }
+      const openStream = () =>
+        new Promise<Readable>((res, rej) =>
+          zip.openReadStream(entry, (err, stream) => (err ? rej(err) : res(stream)))
+        );
+      handle(entry, openStream).then(() => zip.readEntry(), fail);
+    });
+    zip.readEntry();
+  });
+}
+
+/**
+ * 读取 zip 中匹配条件的小型文本文件（例如 .gitignore），返回 条目路径 -> 内容
+ */
+export async function readZipTextFiles(
+  filePath: string,
+  match: (entryPath: string) => boolean,
+  maxBytes = 64 * 1024
+): Promise<Map<string, string>> {
+  const files = new Map<string, string>();
+  await eachZipFile(filePath, async (entry, openStream) => {
+    if (!match(entry.fileName) || entry.uncompressedSize > maxBytes) return;
+    const chunks: Buffer[] = [];
+    for await (const chunk of await openStream()) {
+      chunks.push(chunk as Buffer);
+    }
+    files.set(entry.fileName, Buffer.concat(chunks).toString("utf-8"));
+  });
+  return files;
+}
+
+/**
+ * 将 zip 解压到 dest，filter 返回 false 的条目不解压
+ * 超出数量或大小限制时抛出 Error（按实际解压的字节数计算，防止压缩炸弹）
+ */
+export async function unpackZip(
+  filePath: string,
+  dest: string,
+  limits: UnpackLimits = ARCHIVE_LIMITS,
+  filter?: (entryPath: string) => boolean
+): Promise<{ files: number; bytes: number; skipped: number }> {
+  let files = 0;
+  let bytes = 0;
+  let skipped = 0;
+  await eachZipFile(filePath, async (entry, openStream) => {
+    const target = safeJoin(dest, entry.fileName);
+    if (!target || (filter && !filter(entry.fileName))) {
+      skipped++;
+      return;
+    }
+    if (++files > limits.maxFiles) {
+      throw archiveLimitError(limits);
+    }
+
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    // 在管道中统计解压后的大小（单独监听 data 会让流提前流动而丢失数据）
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytes += chunk.length;
+        callback(bytes > limits.maxBytes ? archiveLimitError(limits) : null, chunk);
+      },
+    });
+    await pipeline(await openStream(), counter, fs.createWriteStream(target));
+  });
+  return { files, bytes, skipped };
+}
+
+async function extractZip(filePath: string, _originalName: string, outDir: string): Promise<Extraction> {
+  const { files } = await unpackZip(filePath, path.join(outDir, ARCHIVE_DIR));
+  return { kind: "archive", name: ARCHIVE_DIR, summary: `${files} 个文件` };
+}
+
+async function extractTar(filePath: string, _originalName: string, outDir: string): Promise<Extraction> {
+  const dest = path.join(outDir, ARCHIVE_DIR);
+
+  // 先读取条目清单检查数量与大小
+  let files = 0;
+  let bytes = 0;
+  await tar.t({
+    file: filePath,
+    onReadEntry: (entry) => {
+      if (entry.type === "File") {
+        files++;
+        bytes += entry.size;
+      }
+    },
+  });
+  if (files > ARCHIVE_LIMITS.maxFiles || bytes > ARCHIVE_LIMITS.maxBytes) {
+    throw archiveLimitError(ARCHIVE_LIMITS);
+  }
+
+  // 只解压普通文件和目录（跳过链接与设备文件），tar 默认会去掉绝对路径与 ".."
+  await fs.promises.mkdir(dest, { recursive: true });
+  await tar.x({
+    file: filePath,
+    cwd: dest,
+    strict: true,
+    filter: (entryPath, entry) =>
+      safeJoin(dest, entryPath) !== null && "type" in entry && (entry.type === "File" || entry.type === "Directory"),
+  });
+
+  return { kind: "archive", name: ARCHIVE_DIR, summary: `${files} 个文件` };
+}
@@ -0,0 +1,209 @@
+import type { Response } from "express";
+import { getDailyTokens } from "./usage.js";
+
+/**
+ * 限流与配额
+ * - 消息 / 上传请求：按用户（未启用认证时按 IP）的令牌桶限流
+ * - 每个会话同时进行中的对话轮数
+ * - 每个用户每日的 Token 预算
+ * - 每个用户上传目录的总字节数
+ *
+ * 超出限制时抛出 LimitError，由调用方转换为 Socket.IO 的 message-error 或 HTTP 429
+ * 同一会话的对话总是依次进行（由 sendMessage 保证），不受 MAX_CONCURRENT_TURNS 影响
+ *
+ * 环境变量配置（设为 0 表示不限制）：
+ * - MESSAGE_RATE_LIMIT: 每分钟可发送的消息数，默认 20
+ * - MESSAGE_RATE_BURST: 消息突发上限，默认 5
+ * - UPLOAD_RATE_LIMIT: 每分钟可发起的上传请求数，默认 30
+ * - MAX_CONCURRENT_TURNS: 每个会话同时进行中的对话数，默认 1
+ * - DAILY_TOKEN_BUDGET: 每个用户每日的 Token 预算，默认 0（不限制）
+ * - UPLOAD_QUOTA_MB: 每个用户上传文件的总大小（MB），默认 500
+ */
+
+export type LimitCode =
+  | "rate_limited"
+  | "concurrency_limit"
+  | "daily_token_budget_exceeded"
+  | "upload_quota_exceeded";
+
+/**
+ * 超出限制错误
+ * retryAfter 为建议的重试等待时间（秒），无法通过等待恢复时为空
+ */
+export class LimitError extends Error {
+  constructor(
+    public readonly code: LimitCode,
+    message: string,
+    public readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = "LimitError";
+  }
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+const MESSAGE_RATE_LIMIT = envNumber("MESSAGE_RATE_LIMIT", 20);
+const MESSAGE_RATE_BURST = envNumber("MESSAGE_RATE_BURST", 5);
+const UPLOAD_RATE_LIMIT = envNumber("UPLOAD_RATE_LIMIT", 30);
+const MAX_CONCURRENT_TURNS = envNumber("MAX_CONCURRENT_TURNS", 1);
+const DAILY_TOKEN_BUDGET = envNumber("DAILY_TOKEN_BUDGET", 0);
+const UPLOAD_QUOTA_BYTES = envNumber("UPLOAD_QUOTA_MB", 500) * 1024 * 1024;
+
+/**
+ * 令牌桶：容量为 capacity，每分钟补充 perMinute 个令牌
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(
+    private readonly capacity: number,
+    private readonly perMinute: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 60_000) * this.perMinute);
+    this.updatedAt = now;
+  }
+
+  /**
+   * 取一个令牌；成功返回 0，否则返回需要等待的毫秒数
+   */
+  take(): number {
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) / this.perMinute) * 60_000);
+  }
+
+  /** 令牌已补满（可以回收） */
+  get idle(): boolean {
+    this.refill();
+    return this.tokens >= this.capacity;
+  }
+}
+
+// "类型:限流键" -> 令牌桶
+const buckets = new Map<string, TokenBucket>();
+
+// 会话 -> 进行中的对话数
+const activeTurns = new Map<string, number>();
+
+// 定期回收已补满的令牌桶，避免内存增长
+setInterval(() => {
+  for (const [key, bucket] of buckets) {
+    if (bucket.idle) buckets.delete(key);
+  }
+}, 10 * 60 * 1000).unref();
+
+function consume(kind: string, key: string, perMinute: number, burst: number, label: string) {
+  if (perMinute <= 0) return;
+  const bucketKey = `${kind}:${key}`;
+  let bucket = buckets.get(bucketKey);
+  if (!bucket) {
+    bucket = new TokenBucket(Math.max(1, burst), perMinute);
+    buckets.set(bucketKey, bucket);
+  }
+  const waitMs = bucket.take();
+  if (waitMs > 0) {
+    const retryAfter = Math.ceil(waitMs / 1000);
+    throw new LimitError("rate_limited", `${label}过于频繁，请 ${retryAfter} 秒后再试`, retryAfter);
+  }
+}
+
+/**
+ * 生成限流键：已登录用户按用户 ID，否则按客户端 IP
+ */
+export function rateLimitKey(userId: string | undefined, ip: string | undefined): string {
+  return userId !== undefined ? `user:${userId}` : `ip:${ip || "unknown"}`;
+}
+
+/**
+ * 距离下一个 UTC 零点的秒数（每日预算重置时间）
+ */
+function secondsUntilTomorrow(): number {
+  const now = new Date();
+  const tomorrow = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((tomorrow - now.getTime()) / 1000);
+}
+
+/**
+ * 开始一轮对话：检查消息频率、每日 Token 预算与会话并发数
+ * 返回释放函数，对话结束后必须调用
+ */
+export function beginTurn(options: { clientKey: string; userId?: string; sessionId: string }): () => void {
+  const { clientKey, userId, sessionId } = options;
+
+  if (DAILY_TOKEN_BUDGET > 0 && getDailyTokens(userId) >= DAILY_TOKEN_BUDGET) {
+    throw new LimitError(
+      "daily_token_budget_exceeded",
+      `今日 Token 用量已达上限（${DAILY_TOKEN_BUDGET}），将于 UTC 零点重置`,
+      secondsUntilTomorrow()
+    );
+  }
+
+  const active = activeTurns.get(sessionId) || 0;
+  if (MAX_CONCURRENT_TURNS > 0 && active >= MAX_CONCURRENT_TURNS) {
+    throw new LimitError("concurrency_limit", "该会话正在生成回复，请稍后再试", 1);
+  }
+
+  consume("message", clientKey, MESSAGE_RATE_LIMIT, MESSAGE_RATE_BURST, "消息发送");
+
+  activeTurns.set(sessionId, active + 1);
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const count = (activeTurns.get(sessionId) || 1) - 1;
+    if (count > 0) {
+      activeTurns.set(sessionId, count);
+    } else {
+      activeTurns.delete(sessionId);
+    }
+  };
+}
+
+/**
+ * 检查上传请求频率
+ */
+export function checkUploadRate(clientKey: string): void {
+  consume("upload", clientKey, UPLOAD_RATE_LIMIT, UPLOAD_RATE_LIMIT, "上传");
+}
+
+/**
+ * 检查上传后是否超出用户的上传配额
+ */
+export function checkUploadQuota(usedBytes: number, incomingBytes: number): void {
+  if (UPLOAD_QUOTA_BYTES <= 0) return;
+  if (usedBytes + incomingBytes > UPLOAD_QUOTA_BYTES) {
+    const quotaMb = Math.round(UPLOAD_QUOTA_BYTES / 1024 / 1024);
+    const usedMb = (usedBytes / 1024 / 1024).toFixed(1);
+    throw new LimitError("upload_quota_exceeded", `上传空间不足（已用 ${usedMb}MB / ${quotaMb}MB），请先删除不需要的文件`);
+  }
+}
+
+/**
+ * 以 HTTP 429 返回限流错误
+ */
+export function sendLimitError(res: Response, error: LimitError): void {
+  if (error.retryAfter !== undefined) {
+    res.setHeader("Retry-After", String(error.retryAfter));
+  }
+  res.status(429).json({
+    success: false,
+    error: error.message,
+    code: error.code,
+    retryAfter: error.retryAfter,
+  });
+}
@@ -0,0 +1,199 @@
+import type { CopilotClient, ModelInfo } from "@github/copilot-sdk";
+import { resolvePricing, type ModelPricing } from "./usage.js";
+
+/**
+ * 模型发现
+ * 从正在运行的 Copilot CLI 获取可用模型及能力信息，结果按 TTL 缓存；
+ * CLI 不可用（未登录、连接失败等）时回退到内置的静态模型列表
+ *
+ * 环境变量配置：
+ * - MODELS_CACHE_TTL: 模型列表缓存时间（秒），默认 300
+ */
+
+export type ModelId = string;
+
+export const DEFAULT_MODEL: ModelId = "claude-opus-4.5";
+
+// 模型能力
+export interface ModelCapabilities {
+  /** 是否输出思考过程 */
+  reasoning: boolean;
+  /** 是否支持图片输入 */
+  vision: boolean;
+  /** 是否支持工具调用 */
+  tools: boolean;
+  /** 上下文窗口（Token） */
+  contextWindow?: number;
+  /** 单次提示词上限（Token） */
+  maxPromptTokens?: number;
+  /** 支持的图片类型 */
+  imageMediaTypes?: string[];
+}
+
+export interface ModelDescriptor {
+  id: ModelId;
+  name: string;
+  description: string;
+  /** 模型提供方，例如 "anthropic"、"openai" */
+  vendor: string;
+  capabilities: ModelCapabilities;
+  /** 价格（美元 / 百万 Token，可通过 MODEL_PRICING 覆盖） */
+  pricing?: ModelPricing;
+  /** 高级请求倍率（来自 CLI） */
+  billingMultiplier?: number;
+  /** discovered：由 CLI 提供；fallback：内置列表 */
+  source: "discovered" | "fallback";
+}
+
+type FallbackModel = Omit<ModelDescriptor, "source" | "vendor">;
+
+// 内置模型列表（CLI 不可用时使用，同时为发现的模型补充价格与能力信息）
+const FALLBACK_MODELS: FallbackModel[] = [
+  {
+    id: "claude-opus-4.5",
+    name: "Claude Opus 4.5",
+    description: "Anthropic Claude Opus 4.5",
+    capabilities: { reasoning: true, vision: true, tools: true, contextWindow: 200000 },
+    pricing: { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  },
+  {
+    id: "claude-sonnet-4.5",
+    name: "Claude Sonnet 4.5",
+    description: "Anthropic Claude Sonnet 4.5",
+    capabilities: { reasoning: true, vision: true, tools: true, contextWindow: 200000 },
+    pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  },
+  {
+    id: "gpt-5.2-codex",
+    name: "GPT-5.2-Codex",
+    description: "OpenAI GPT-5.2-Codex",
+    capabilities: { reasoning: true, vision: true, tools: true, contextWindow: 400000 },
+    pricing: { input: 1.75, output: 14, cacheRead: 0.175 },
+  },
+  {
+    id: "gpt-4o",
+    name: "GPT-4o",
+    description: "OpenAI GPT-4o",
+    capabilities: { reasoning: false, vision: true, tools: true, contextWindow: 128000 },
+    pricing: { input: 2.5, output: 10, cacheRead: 1.25 },
+  },
+  {
+    id: "gpt-4.1",
+    name: "GPT-4.1",
+    description: "OpenAI GPT-4.1",
+    capabilities: { reasoning: false, vision: true, tools: true, contextWindow: 1047576 },
+    pricing: { input: 2, output: 8, cacheRead: 0.5 },
+  },
+  {
+    id: "claude-sonnet-4",
+    name: "Claude Sonnet 4",
+    description: "Anthropic Claude Sonnet 4",
+    capabilities: { reasoning: true, vision: true, tools: true, contextWindow: 200000 },
+    pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  },
+  {
+    id: "o3-mini",
+    name: "o3-mini",
+    description: "OpenAI o3-mini",
+    capabilities: { reasoning: true, vision: false, tools: true, contextWindow: 200000 },
+    pricing: { input: 1.1, output: 4.4, cacheRead: 0.55 },
+  },
+];
+
+const CACHE_TTL = (Number(process.env.MODELS_CACHE_TTL) || 300) * 1000;
+
+// 发现失败时较快重试
+const FALLBACK_CACHE_TTL = 30 * 1000;
+
+let cache: { models: ModelDescriptor[]; expiresAt: number } | null = null;
+let inflight: Promise<ModelDescriptor[]> | null = null;
+
+/**
+ * 根据模型 ID 推断提供方
+ */
+function vendorOf(id: string): string {
+  if (id.startsWith("claude")) return "anthropic";
+  if (id.startsWith("gpt") || /^o\d/.test(id)) return "openai";
+  if (id.startsWith("gemini")) return "google";
+  if (id.startsWith("grok")) return "xai";
+  return "unknown";
+}
+
+/**
+ * 推断是否输出思考过程（CLI 不提供该信息）
+ */
+function inferReasoning(id: string): boolean {
+  return /^o\d/.test(id) || /^gpt-5/.test(id) || /^claude-(opus|sonnet)-4/.test(id) || /^gemini-(2\.5|3)/.test(id);
+}
+
+function fallbackDescriptor(model: FallbackModel): ModelDescriptor {
+  return { ...model, vendor: vendorOf(model.id), pricing: resolvePricing(model.id, model.pricing), source: "fallback" };
+}
+
+/**
+ * 将 CLI 返回的模型信息转换为统一格式，并补充内置列表中的价格与能力
+ */
+function fromModelInfo(info: ModelInfo): ModelDescriptor {
+  const known = FALLBACK_MODELS.find((m) => m.id === info.id);
+  const limits = info.capabilities?.limits;
+  return {
+    id: info.id,
+    name: info.name || info.id,
+    description: known?.description ?? info.name ?? info.id,
+    vendor: vendorOf(info.id),
+    capabilities: {
+      reasoning: known?.capabilities.reasoning ?? inferReasoning(info.id),
+      vision: info.capabilities?.supports?.vision ?? known?.capabilities.vision ?? false,
+      tools: known?.capabilities.tools ?? true,
+      contextWindow: limits?.max_context_window_tokens ?? known?.capabilities.contextWindow,
+      maxPromptTokens: limits?.max_prompt_tokens,
+      imageMediaTypes: limits?.vision?.supported_media_types,
+    },
+    pricing: resolvePricing(info.id, known?.pricing),
+    billingMultiplier: info.billing?.multiplier,
+    source: "discovered",
+  };
+}
+
+/**
+ * 获取可用模型列表（带缓存）
+ * getClient 由调用方传入，避免与 copilot.ts 循环依赖
+ */
+export async function discoverModels(getClient: () => Promise<CopilotClient>, refresh = false): Promise<ModelDescriptor[]> {
+  if (!refresh && cache && cache.expiresAt > Date.now()) {
+    return cache.models;
+  }
+  if (inflight) return inflight;
+
+  inflight = (async () => {
+    try {
+      const client = await getClient();
+      const infos = await client.listModels();
+      const models = infos.filter((info) => info.policy?.state !== "disabled").map(fromModelInfo);
+      if (models.length === 0) {
+        throw new Error("CLI 未返回任何可用模型");
+      }
+      cache = { models, expiresAt: Date.now() + CACHE_TTL };
+      console.log(`🧠 已发现 ${models.length} 个模型`);
+    } catch (e) {
+      console.warn(`⚠️ 无法从 CLI 获取模型列表，使用内置列表: ${e instanceof Error ? e.message : e}`);
+      cache = { models: FALLBACK_MODELS.map(fallbackDescriptor), expiresAt: Date.now() + FALLBACK_CACHE_TTL };
+    }
+    return cache.models;
+  })();
+
+  try {
+    return await inflight;
+  } finally {
+    inflight = null;
+  }
+}
+
+/**
+ * 获取模型价格（优先使用已发现的模型信息，否则查内置列表）
+ */
+export function getModelPricing(model?: string): ModelPricing | undefined {
+  const cached = cache?.models.find((m) => m.id === model);
+  if (cached) return cached.pricing;
+  return resolvePricing(model, FALLBACK_MODELS.find((m) => m.id === model)?.pricing);
+}
@@ -0,0 +1,66 @@
+import { Router, Request, Response } from "express";
+import {
+  AUTH_COOKIE_NAME,
+  authEnabled,
+  createAuthCookie,
+  requireAuth,
+  verifyToken,
+} from "../auth.js";
+
+const router = Router();
+
+/**
+ * POST /api/auth/login
+ * 使用 API Token 登录，换取签名 Cookie
+ */
+router.post("/login", (req: Request, res: Response): void => {
+  if (!authEnabled) {
+    res.json({ success: true, authEnabled: false });
+    return;
+  }
+
+  const { token } = (req.body || {}) as { token?: string };
+  const user = typeof token === "string" ? verifyToken(token) : null;
+  if (!user) {
+    res.status(401).json({
+      success: false,
+      error: "Token 无效",
+    });
+    return;
+  }
+
+  const cookie = createAuthCookie(user);
+  res.cookie(AUTH_COOKIE_NAME, cookie.value, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: req.secure,
+    maxAge: cookie.maxAge * 1000,
+    path: "/",
+  });
+
+  console.log(`🔑 用户登录: ${user.id}`);
+  res.json({ success: true, authEnabled: true, user });
+});
+
+/**
+ * POST /api/auth/logout
+ * 清除登录 Cookie
+ */
+router.post("/logout", (_req: Request, res: Response): void => {
+  res.clearCookie(AUTH_COOKIE_NAME, { path: "/" });
+  res.json({ success: true });
+});
+
+/**
+ * GET /api/auth/me
+ * 获取当前登录用户
+ */
+router.get("/me", requireAuth, (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    authEnabled,
+    user: req.user || null,
+  });
+});
+
+export default router;
@@ -0,0 +1,88 @@
+import { Router, Request, Response } from "express";
+import { getUserId } from "../auth.js";
+import { getComparison, runComparison } from "../compare.js";
+import { LimitError, rateLimitKey, sendLimitError } from "../limits.js";
+import { resolveAttachments, type AttachmentInput } from "../uploads.js";
+import type { ModelId } from "../copilot.js";
+
+/**
+ * 模型对比接口
+ * REST 接口等待所有模型完成后一次性返回；流式对比请使用 Socket.IO 的 compare 事件
+ */
+
+const router = Router();
+
+/**
+ * POST /api/compare
+ * 将同一条提示词发送给多个模型，请求体 { prompt, models, attachments? }
+ */
+router.post("/", async (req: Request, res: Response): Promise<void> => {
+  const userId = getUserId(req);
+  const { prompt, models, attachments } = (req.body || {}) as {
+    prompt?: string;
+    models?: ModelId[];
+    attachments?: AttachmentInput[];
+  };
+
+  if (!prompt || typeof prompt !== "string" || !Array.isArray(models)) {
+    res.status(400).json({
+      success: false,
+      error: "缺少 prompt 或 models 参数",
+    });
+    return;
+  }
+
+  const resolvedAttachments = resolveAttachments(attachments, userId);
+  if (resolvedAttachments === null) {
+    res.status(403).json({
+      success: false,
+      error: "附件不存在、已过期或无权使用",
+    });
+    return;
+  }
+
+  try {
+    const comparison = await runComparison({
+      prompt,
+      models,
+      attachments: resolvedAttachments,
+      ownerId: userId,
+      clientKey: rateLimitKey(userId, req.ip),
+    });
+    res.json({
+      success: true,
+      ...comparison,
+    });
+  } catch (error) {
+    if (error instanceof LimitError) {
+      sendLimitError(res, error);
+      return;
+    }
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : "模型对比失败",
+    });
+  }
+});
+
+/**
+ * GET /api/compare/:id
+ * 获取对比结果（从对比会话的记录中还原）
+ */
+router.get("/:id", (req: Request, res: Response): void => {
+  const comparison = getComparison(req.params.id, getUserId(req));
+  if (!comparison) {
+    res.status(404).json({
+      success: false,
+      error: "对比记录不存在",
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    ...comparison,
+  });
+});
+
+export default router;
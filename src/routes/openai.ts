@@ -0,0 +1,334 @@
+import { Router, Request, Response } from "express";
+import { createHash, randomUUID } from "crypto";
+import { z } from "zod";
+import {
+  getOrCreateSession,
+  sendMessage,
+  abortSession,
+  getModel,
+  listModels,
+  DEFAULT_MODEL,
+} from "../copilot.js";
+import { getUserId } from "../auth.js";
+import type { TurnUsage } from "../usage.js";
+import { LimitError, beginTurn, rateLimitKey } from "../limits.js";
+
+/**
+ * OpenAI 兼容接口
+ * 提供 /v1/chat/completions 与 /v1/models，使已有的 OpenAI 客户端可以直接调用
+ *
+ * 会话映射规则：
+ * - 请求头 X-Session-Id 指定时，直接使用该 Copilot 会话
+ * - 否则根据对话前缀（除最后一条用户消息外的所有消息）查找上一轮创建的会话
+ * - 找不到时创建新会话，并把历史消息拼接为上下文一并发送
+ *
+ * 注意：工具由 Copilot 在服务端执行，响应中的 tool_calls 仅用于展示，客户端无需再执行
+ */
+
+const router = Router();
+
+// OpenAI 消息格式（仅校验本接口用到的字段，其余字段忽略）
+const chatMessageSchema = z.object({
+  role: z.enum(["system", "user", "assistant", "tool"]),
+  content: z
+    .union([z.string(), z.array(z.object({ type: z.string(), text: z.string().optional() }))])
+    .nullish(),
+});
+
+type ChatMessage = z.infer<typeof chatMessageSchema>;
+
+const chatCompletionSchema = z.object({
+  model: z.string().default(DEFAULT_MODEL),
+  messages: z.array(chatMessageSchema).min(1),
+  stream: z.boolean().default(false),
+  stream_options: z.object({ include_usage: z.boolean().optional() }).nullish(),
+});
+
+interface ToolCallRecord {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+// 对话指纹 -> Copilot 会话 ID
+const conversationIndex = new Map<string, string>();
+
+// 对话指纹缓存上限
+const MAX_INDEXED_CONVERSATIONS = 1000;
+
+/**
+ * 提取消息文本（支持字符串与 content parts 两种格式）
+ */
+function messageText(message: ChatMessage): string {
+  if (typeof message.content === "string") return message.content;
+  if (Array.isArray(message.content)) {
+    return message.content
+      .filter((part) => part.type === "text" && typeof part.text === "string")
+      .map((part) => part.text)
+      .join("\n");
+  }
+  return "";
+}
+
+/**
+ * 计算对话指纹（包含用户 ID，不同用户的相同对话不会共用会话）
+ */
+function fingerprint(messages: ChatMessage[], userId?: string): string {
+  const normalized = [userId ?? "", ...messages.map((m) => [m.role, messageText(m)])];
+  return createHash("sha256").update(JSON.stringify(normalized)).digest("hex");
+}
+
+function rememberConversation(messages: ChatMessage[], sessionId: string, userId?: string) {
+  if (conversationIndex.size >= MAX_INDEXED_CONVERSATIONS) {
+    // Map 按插入顺序迭代，删除最早的记录
+    const oldest = conversationIndex.keys().next().value;
+    if (oldest !== undefined) conversationIndex.delete(oldest);
+  }
+  conversationIndex.set(fingerprint(messages, userId), sessionId);
+}
+
+/**
+ * 将历史消息拼接为文本上下文（用于新建会话时补充历史）
+ */
+function buildTranscriptPrompt(history: ChatMessage[], prompt: string): string {
+  if (history.length === 0) return prompt;
+  const lines = history.map((m) => {
+    const label = m.role === "system" ? "System" : m.role === "assistant" ? "Assistant" : m.role === "tool" ? "Tool" : "User";
+    return `[${label}]\n${messageText(m)}`;
+  });
+  return `以下是此前的对话内容，请在此基础上继续回答。\n\n${lines.join("\n\n")}\n\n[User]\n${prompt}`;
+}
+
+/**
+ * 转换为 OpenAI 格式的用量（缓存 Token 计入 prompt_tokens）
+ */
+function toOpenAIUsage(usage?: TurnUsage) {
+  if (!usage) return { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  const prompt = usage.inputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: usage.outputTokens,
+    total_tokens: prompt + usage.outputTokens,
+    prompt_tokens_details: { cached_tokens: usage.cacheReadTokens },
+    completion_tokens_details: { reasoning_tokens: usage.reasoningTokens },
+  };
+}
+
+/**
+ * 返回 OpenAI 格式的错误
+ */
+function sendError(res: Response, status: number, message: string, type: string, code?: string) {
+  res.status(status).json({
+    error: { message, type, code: code ?? null, param: null },
+  });
+}
+
+/**
+ * GET /v1/models
+ */
+router.get("/models", async (_req: Request, res: Response): Promise<void> => {
+  const models = await listModels();
+  res.json({
+    object: "list",
+    data: models.map((m) => ({
+      id: m.id,
+      object: "model",
+      created: 0,
+      owned_by: m.vendor,
+    })),
+  });
+});
+
+/**
+ * POST /v1/chat/completions
+ */
+router.post("/chat/completions", async (req: Request, res: Response): Promise<void> => {
+  const parsed = chatCompletionSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    sendError(res, 400, `Invalid value for '${issue.path.join(".") || "body"}': ${issue.message}`, "invalid_request_error");
+    return;
+  }
+  const { model, messages, stream, stream_options } = parsed.data;
+
+  if (!(await getModel(model))) {
+    sendError(res, 404, `The model '${model}' does not exist`, "invalid_request_error", "model_not_found");
+    return;
+  }
+  const last = messages[messages.length - 1];
+  if (last.role !== "user") {
+    sendError(res, 400, "The last message must have role 'user'", "invalid_request_error");
+    return;
+  }
+
+  const userId = getUserId(req);
+  const history = messages.slice(0, -1);
+  const headerSessionId = req.header("x-session-id");
+  const knownSessionId = headerSessionId || (history.length > 0 ? conversationIndex.get(fingerprint(history, userId)) : undefined);
+  const sessionId = knownSessionId || `openai-${randomUUID()}`;
+  const prompt = knownSessionId ? messageText(last) : buildTranscriptPrompt(history, messageText(last));
+
+  const completionId = `chatcmpl-${randomUUID().replace(/-/g, "")}`;
+  const created = Math.floor(Date.now() / 1000);
+  const toolCalls: ToolCallRecord[] = [];
+
+  // 限流与配额检查（对话结束后释放并发名额）
+  let releaseTurn: () => void;
+  try {
+    releaseTurn = beginTurn({ clientKey: rateLimitKey(userId, req.ip), userId, sessionId });
+  } catch (error) {
+    if (error instanceof LimitError) {
+      if (error.retryAfter !== undefined) res.setHeader("Retry-After", String(error.retryAfter));
+      sendError(res, 429, error.message, "rate_limit_error", error.code);
+      return;
+    }
+    sendError(res, 500, error instanceof Error ? error.message : "消息发送失败", "server_error");
+    return;
+  }
+
+  // 通过限流检查后才创建或恢复会话
+  try {
+    await getOrCreateSession(sessionId, model, userId);
+  } catch (error) {
+    releaseTurn();
+    sendError(res, 403, error instanceof Error ? error.message : "创建会话失败", "permission_error");
+    return;
+  }
+
+  res.setHeader("X-Session-Id", sessionId);
+
+  // 非流式
+  if (!stream) {
+    const outcome: { content?: string; usage?: TurnUsage; error?: Error } = {};
+    await sendMessage({
+      sessionId,
+      prompt,
+      model: model,
+      ownerId: userId,
+      onToolCall: (toolName, args, toolCallId) => {
+        toolCalls.push({
+          id: toolCallId,
+          type: "function",
+          function: { name: toolName, arguments: JSON.stringify(args ?? {}) },
+        });
+      },
+      onComplete: (fullContent, usage) => {
+        outcome.content = fullContent;
+        outcome.usage = usage;
+      },
+      onError: (error) => {
+        // 出错时立即回复，不等待本轮对话返回
+        outcome.error = error;
+        if (!res.headersSent) sendError(res, 500, error.message || "消息发送失败", "server_error");
+      },
+    });
+    releaseTurn();
+
+    if (res.headersSent) return;
+    if (outcome.content === undefined) {
+      sendError(res, 500, outcome.error?.message || "消息发送失败", "server_error");
+      return;
+    }
+
+    rememberConversation([...messages, { role: "assistant", content: outcome.content }], sessionId, userId);
+
+    res.json({
+      id: completionId,
+      object: "chat.completion",
+      created,
+      model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: outcome.content,
+            ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+          },
+          finish_reason: "stop",
+        },
+      ],
+      usage: toOpenAIUsage(outcome.usage),
+    });
+    return;
+  }
+
+  // 流式：OpenAI 风格 SSE（data-only，以 [DONE] 结束）
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Session-Id": sessionId,
+  });
+  res.flushHeaders();
+
+  const writeChunk = (delta: Record<string, unknown>, finishReason: string | null = null) => {
+    const chunk = {
+      id: completionId,
+      object: "chat.completion.chunk",
+      created,
+      model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    };
+    if (res.writableEnded) return;
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  };
+
+  let finished = false;
+
+  // 以 [DONE] 结束事件流（出错时立即结束，不等待本轮对话返回）
+  const endStream = () => {
+    if (!finished) {
+      finished = true;
+      res.write("data: [DONE]\n\n");
+      res.end();
+    }
+  };
+
+  res.on("close", () => {
+    if (!finished) {
+      finished = true;
+      abortSession(sessionId, userId).catch(() => undefined);
+    }
+  });
+
+  writeChunk({ role: "assistant", content: "" });
+
+  await sendMessage({
+    sessionId,
+    prompt,
+    model: model,
+    ownerId: userId,
+    onDelta: (content) => {
+      if (content.length > 0) writeChunk({ content });
+    },
+    onToolCall: (toolName, args, toolCallId) => {
+      const call: ToolCallRecord = {
+        id: toolCallId,
+        type: "function",
+        function: { name: toolName, arguments: JSON.stringify(args ?? {}) },
+      };
+      toolCalls.push(call);
+      writeChunk({ tool_calls: [{ index: toolCalls.length - 1, ...call }] });
+    },
+    onComplete: (fullContent, usage) => {
+      rememberConversation([...messages, { role: "assistant", content: fullContent }], sessionId, userId);
+      writeChunk({}, "stop");
+      // stream_options.include_usage：额外发送一个只包含用量的块
+      if (stream_options?.include_usage) {
+        const chunk = { id: completionId, object: "chat.completion.chunk", created, model, choices: [], usage: toOpenAIUsage(usage) };
+        res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      }
+    },
+    onError: (error) => {
+      if (!finished) {
+        res.write(`data: ${JSON.stringify({ error: { message: error.message, type: "server_error", code: null, param: null } })}\n\n`);
+      }
+      endStream();
+    },
+  });
+  releaseTurn();
+  endStream();
+});
+
+export default router;
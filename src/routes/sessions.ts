@@ -0,0 +1,610 @@
+import { Router, Request, Response } from "express";
+import {
+  createSession,
+  listSessions,
+  deleteSession,
+  getSessionMessages,
+  getSessionApprovals,
+  getSessionRecord,
+  importSession,
+  sendMessage,
+  abortSession,
+  ownsSession,
+  switchModel,
+  switchBranch,
+  getMessageBranches,
+  getSessionConfig,
+  updateSessionConfig,
+  DEFAULT_MODEL,
+  type ModelId,
+  type SwitchModelMode,
+  type SendMessageOptions,
+} from "../copilot.js";
+import { getUserId } from "../auth.js";
+import { getPendingApproval, resolveToolApproval } from "../approval.js";
+import type { TurnUsage } from "../usage.js";
+import { LimitError, beginTurn, rateLimitKey, sendLimitError } from "../limits.js";
+import { EXPORT_FORMATS, exportSession, parseSessionExport, type ExportFormat } from "../export.js";
+import { resolveAttachments, type AttachmentInput } from "../uploads.js";
+import {
+  mergeSessionConfig,
+  parseSessionConfig,
+  resolveSessionConfig,
+  type SessionConfigUpdate,
+} from "../sessionConfig.js";
+
+/**
+ * 会话 REST API
+ * 与 Socket.IO 聊天协议一一对应，供脚本和后端服务调用
+ * 发送消息接口以 Server-Sent Events 流式返回，事件名与 Socket.IO 事件保持一致
+ * 需要审批的工具调用仅在流式模式下可用（非流式请求会直接拒绝）
+ */
+
+const router = Router();
+
+/**
+ * 写入一条 SSE 事件
+ */
+function writeEvent(res: Response, event: string, data: unknown) {
+  if (res.writableEnded) return;
+  res.write(`event: ${event}\n`);
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * 会话不存在或不属于当前用户
+ */
+function sendNotFound(res: Response) {
+  res.status(404).json({
+    success: false,
+    error: "会话不存在",
+  });
+}
+
+/**
+ * GET /api/sessions
+ * 获取会话列表
+ */
+router.get("/", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessions = await listSessions(getUserId(req));
+    res.json({
+      success: true,
+      sessions,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "获取会话列表失败",
+    });
+  }
+});
+
+/**
+ * 校验并解析请求中的会话配置，失败时直接返回 400 / 403
+ */
+function readSessionConfig(req: Request, res: Response, sessionId?: string): SessionConfigUpdate | undefined {
+  let input;
+  try {
+    input = parseSessionConfig((req.body || {}).config);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : "会话配置格式错误",
+    });
+    return undefined;
+  }
+  const config = resolveSessionConfig(input, getUserId(req), sessionId);
+  if (!config) {
+    res.status(403).json({
+      success: false,
+      error: "附件不存在、已过期或无权使用",
+    });
+    return undefined;
+  }
+  return config;
+}
+
+/**
+ * POST /api/sessions
+ * 创建新会话（可通过 tools 指定启用的工具，config 指定会话配置）
+ */
+router.post("/", async (req: Request, res: Response): Promise<void> => {
+  const { sessionId, model, tools } = (req.body || {}) as { sessionId?: string; model?: ModelId; tools?: string[] };
+  const config = readSessionConfig(req, res, sessionId);
+  if (!config) return;
+
+  try {
+    const { tools: configTools, ...settings } = config;
+    const session = await createSession(sessionId, model, getUserId(req), {
+      tools: configTools ?? tools,
+      config: mergeSessionConfig(undefined, settings),
+    });
+    res.status(201).json({
+      success: true,
+      sessionId: session.sessionId,
+      model: model || DEFAULT_MODEL,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "创建会话失败",
+    });
+  }
+});
+
+/**
+ * POST /api/sessions/import
+ * 从 JSON 导出数据创建新会话
+ */
+router.post("/import", async (req: Request, res: Response): Promise<void> => {
+  let data;
+  try {
+    data = parseSessionExport(req.body);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : "导入数据格式错误",
+    });
+    return;
+  }
+
+  const record = await importSession(data, getUserId(req));
+  res.status(201).json({
+    success: true,
+    sessionId: record.sessionId,
+    title: record.title,
+    messageCount: record.messages.length,
+  });
+});
+
+/**
+ * GET /api/sessions/:id/export?format=md|json|html
+ * 导出会话（默认 Markdown），以附件形式下载
+ */
+router.get("/:id/export", (req: Request, res: Response): void => {
+  const format = (req.query.format || "md") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    res.status(400).json({
+      success: false,
+      error: `不支持的导出格式: ${format}（可选 ${EXPORT_FORMATS.join(", ")}）`,
+    });
+    return;
+  }
+
+  const record = getSessionRecord(req.params.id, getUserId(req));
+  if (!record) {
+    sendNotFound(res);
+    return;
+  }
+
+  const { contentType, filename, body } = exportSession(record, format);
+  res.setHeader("Content-Type", contentType);
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.send(body);
+});
+
+/**
+ * GET /api/sessions/:id/messages
+ * 获取会话消息历史
+ */
+router.get("/:id/messages", async (req: Request, res: Response): Promise<void> => {
+  if (!ownsSession(req.params.id, getUserId(req))) {
+    sendNotFound(res);
+    return;
+  }
+
+  try {
+    const messages = await getSessionMessages(req.params.id, getUserId(req));
+    res.json({
+      success: true,
+      sessionId: req.params.id,
+      messages,
+      branches: getMessageBranches(req.params.id, getUserId(req)),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "获取消息历史失败",
+    });
+  }
+});
+
+/**
+ * POST /api/sessions/:id/messages
+ * 发送消息
+ * 默认以 SSE 流式返回；请求体中 stream: false 时等待完成后返回完整 JSON
+ * 传入 branchFrom: { messageId, mode: "edit" | "regenerate" } 时从该消息处创建新分支
+ * （regenerate 不需要 prompt）
+ */
+router.post("/:id/messages", async (req: Request, res: Response): Promise<void> => {
+  const sessionId = req.params.id;
+  const userId = getUserId(req);
+  const { model, attachments, branchFrom, stream = true } = (req.body || {}) as {
+    prompt?: string;
+    model?: ModelId;
+    attachments?: AttachmentInput[];
+    branchFrom?: SendMessageOptions["branchFrom"];
+    stream?: boolean;
+  };
+  let { prompt } = (req.body || {}) as { prompt?: string };
+
+  if (
+    branchFrom !== undefined &&
+    (typeof branchFrom?.messageId !== "string" || (branchFrom.mode !== "edit" && branchFrom.mode !== "regenerate"))
+  ) {
+    res.status(400).json({
+      success: false,
+      error: "branchFrom 参数无效",
+    });
+    return;
+  }
+  if (branchFrom?.mode === "regenerate") {
+    prompt = "";
+  } else if (!prompt || typeof prompt !== "string") {
+    res.status(400).json({
+      success: false,
+      error: "缺少 prompt 参数",
+    });
+    return;
+  }
+
+  const resolvedAttachments = resolveAttachments(attachments, userId, sessionId);
+  if (resolvedAttachments === null) {
+    res.status(403).json({
+      success: false,
+      error: "附件不存在、已过期或无权使用",
+    });
+    return;
+  }
+
+  // 限流与配额检查（对话结束后释放并发名额）
+  let releaseTurn: () => void;
+  try {
+    releaseTurn = beginTurn({ clientKey: rateLimitKey(userId, req.ip), userId, sessionId });
+  } catch (error) {
+    if (error instanceof LimitError) {
+      sendLimitError(res, error);
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "消息发送失败",
+    });
+    return;
+  }
+
+  console.log(`📨 [REST] 收到消息: [${sessionId}] ${prompt.substring(0, 50)}...`);
+
+  // 非流式：收集工具调用，完成后一次性返回
+  if (!stream) {
+    const toolCalls: Array<{ toolCallId: string; toolName: string; args: unknown; result?: unknown }> = [];
+    let reasoning = "";
+    const outcome: { content?: string; usage?: TurnUsage; error?: Error } = {};
+
+    await sendMessage({
+      sessionId,
+      prompt,
+      model,
+      ownerId: userId,
+      attachments: resolvedAttachments,
+      branchFrom,
+      onReasoningDelta: (delta) => {
+        reasoning += delta;
+      },
+      onToolCall: (toolName, args, toolCallId) => {
+        toolCalls.push({ toolCallId, toolName, args });
+      },
+      onToolResult: (_toolName, result, toolCallId) => {
+        const call = toolCalls.find((c) => c.toolCallId === toolCallId);
+        if (call) call.result = result;
+      },
+      onComplete: (fullContent, usage) => {
+        outcome.content = fullContent;
+        outcome.usage = usage;
+      },
+      onError: (error) => {
+        outcome.error = error;
+      },
+    });
+    releaseTurn();
+
+    if (outcome.content === undefined) {
+      res.status(500).json({
+        success: false,
+        sessionId,
+        error: outcome.error?.message || "消息发送失败",
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      sessionId,
+      content: outcome.content,
+      reasoning: reasoning || undefined,
+      toolCalls,
+      usage: outcome.usage,
+    });
+    return;
+  }
+
+  // 流式：Server-Sent Events
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+
+  let finished = false;
+
+  // 结束事件流（出错时立即关闭，不等待本轮对话返回）
+  const endStream = () => {
+    if (!finished) {
+      finished = true;
+      res.end();
+    }
+  };
+
+  // 客户端提前断开时中止本轮对话
+  res.on("close", () => {
+    if (!finished) {
+      finished = true;
+      abortSession(sessionId, userId).catch(() => undefined);
+    }
+  });
+
+  writeEvent(res, "message-start", { sessionId });
+
+  await sendMessage({
+    sessionId,
+    prompt,
+    model,
+    ownerId: userId,
+    attachments: resolvedAttachments,
+    branchFrom,
+    onDelta: (content) => {
+      writeEvent(res, "message-delta", { sessionId, content });
+    },
+    onReasoningDelta: (content) => {
+      writeEvent(res, "reasoning-delta", { sessionId, content });
+    },
+    onToolCall: (toolName, args, toolCallId) => {
+      writeEvent(res, "tool-call", { sessionId, toolName, args, toolCallId });
+    },
+    onToolResult: (toolName, result, toolCallId) => {
+      writeEvent(res, "tool-result", { sessionId, toolName, result, toolCallId });
+    },
+    onApprovalRequest: (request) => {
+      writeEvent(res, "tool-approval-request", request);
+    },
+    onApprovalResolved: (request, entry) => {
+      writeEvent(res, "tool-approval-resolved", {
+        sessionId,
+        requestId: request.requestId,
+        toolName: request.toolName,
+        decision: entry.decision,
+        reason: entry.reason,
+      });
+    },
+    onComplete: (fullContent, usage) => {
+      writeEvent(res, "message-complete", { sessionId, content: fullContent, usage });
+      console.log(`✅ [REST] 消息完成: [${sessionId}]`);
+    },
+    onError: (error) => {
+      writeEvent(res, "message-error", { sessionId, error: error.message });
+      console.error(`❌ [REST] 消息错误: [${sessionId}]`, error.message);
+      endStream();
+    },
+  });
+  releaseTurn();
+  endStream();
+});
+
+/**
+ * POST /api/sessions/:id/model
+ * 切换会话模型，请求体 { model, mode?: "reconfigure" | "fork" }
+ * fork 模式返回新会话的 ID
+ */
+router.post("/:id/model", async (req: Request, res: Response): Promise<void> => {
+  const userId = getUserId(req);
+  if (!ownsSession(req.params.id, userId)) {
+    sendNotFound(res);
+    return;
+  }
+
+  const { model, mode = "reconfigure" } = (req.body || {}) as { model?: ModelId; mode?: SwitchModelMode };
+  if (!model || (mode !== "reconfigure" && mode !== "fork")) {
+    res.status(400).json({
+      success: false,
+      error: "缺少 model 参数或 mode 无效",
+    });
+    return;
+  }
+
+  try {
+    const result = await switchModel(req.params.id, model, userId, mode);
+    res.json({
+      success: true,
+      ...result,
+      mode,
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : "切换模型失败",
+    });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/config
+ * 获取会话配置
+ */
+router.get("/:id/config", (req: Request, res: Response): void => {
+  const userId = getUserId(req);
+  if (!getSessionRecord(req.params.id, userId)) {
+    sendNotFound(res);
+    return;
+  }
+  res.json({
+    success: true,
+    sessionId: req.params.id,
+    config: getSessionConfig(req.params.id, userId),
+  });
+});
+
+/**
+ * PATCH /api/sessions/:id/config
+ * 修改会话配置，请求体 { config }（未提供的字段保持不变，null 表示清除）
+ */
+router.patch("/:id/config", async (req: Request, res: Response): Promise<void> => {
+  const userId = getUserId(req);
+  if (!getSessionRecord(req.params.id, userId)) {
+    sendNotFound(res);
+    return;
+  }
+  const config = readSessionConfig(req, res, req.params.id);
+  if (!config) return;
+
+  try {
+    res.json({
+      success: true,
+      sessionId: req.params.id,
+      config: await updateSessionConfig(req.params.id, config, userId),
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : "修改会话配置失败",
+    });
+  }
+});
+
+/**
+ * POST /api/sessions/:id/branch
+ * 切换到包含指定消息的分支，请求体 { messageId }
+ */
+router.post("/:id/branch", async (req: Request, res: Response): Promise<void> => {
+  const userId = getUserId(req);
+  if (!ownsSession(req.params.id, userId)) {
+    sendNotFound(res);
+    return;
+  }
+
+  const { messageId } = (req.body || {}) as { messageId?: string };
+  if (!messageId || typeof messageId !== "string") {
+    res.status(400).json({
+      success: false,
+      error: "缺少 messageId 参数",
+    });
+    return;
+  }
+
+  try {
+    const messages = await switchBranch(req.params.id, messageId, userId);
+    res.json({
+      success: true,
+      sessionId: req.params.id,
+      messages,
+      branches: getMessageBranches(req.params.id, userId),
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : "切换分支失败",
+    });
+  }
+});
+
+/**
+ * GET /api/sessions/:id/approvals
+ * 获取会话的工具审批记录
+ */
+router.get("/:id/approvals", (req: Request, res: Response): void => {
+  if (!ownsSession(req.params.id, getUserId(req))) {
+    sendNotFound(res);
+    return;
+  }
+
+  res.json({
+    success: true,
+    sessionId: req.params.id,
+    approvals: getSessionApprovals(req.params.id, getUserId(req)),
+  });
+});
+
+/**
+ * POST /api/sessions/:id/approvals/:requestId
+ * 回复工具审批请求，请求体 { approved: boolean }
+ */
+router.post("/:id/approvals/:requestId", (req: Request, res: Response): void => {
+  const userId = getUserId(req);
+  const request = getPendingApproval(req.params.requestId);
+  if (!request || request.sessionId !== req.params.id || !ownsSession(req.params.id, userId)) {
+    res.status(404).json({
+      success: false,
+      error: "审批请求不存在或已过期",
+    });
+    return;
+  }
+
+  const approved = (req.body || {}).approved === true;
+  resolveToolApproval(req.params.requestId, approved, userId);
+  res.json({
+    success: true,
+    requestId: req.params.requestId,
+    decision: approved ? "approved" : "denied",
+  });
+});
+
+/**
+ * POST /api/sessions/:id/abort
+ * 中止当前请求
+ */
+router.post("/:id/abort", async (req: Request, res: Response): Promise<void> => {
+  if (!ownsSession(req.params.id, getUserId(req))) {
+    sendNotFound(res);
+    return;
+  }
+
+  try {
+    await abortSession(req.params.id, getUserId(req));
+    res.json({
+      success: true,
+      sessionId: req.params.id,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "中止失败",
+    });
+  }
+});
+
+/**
+ * DELETE /api/sessions/:id
+ * 删除会话
+ */
+router.delete("/:id", async (req: Request, res: Response): Promise<void> => {
+  if (!ownsSession(req.params.id, getUserId(req))) {
+    sendNotFound(res);
+    return;
+  }
+
+  try {
+    await deleteSession(req.params.id, getUserId(req));
+    res.json({
+      success: true,
+      sessionId: req.params.id,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "删除会话失败",
+    });
+  }
+});
+
+export default router;
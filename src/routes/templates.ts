@@ -0,0 +1,151 @@
+import { Router, Request, Response } from "express";
+import { getUserId } from "../auth.js";
+import { SLASH_COMMANDS } from "../commands.js";
+import {
+  TemplateError,
+  bindTemplateArguments,
+  createTemplate,
+  deleteTemplate,
+  getTemplate,
+  listTemplates,
+  renderTemplate,
+  templateVariables,
+  updateTemplate,
+} from "../templates.js";
+
+/**
+ * 提示词模板接口
+ * 所有用户共享模板；内置模板只读，用户模板只能由创建者或管理员修改
+ */
+
+const router = Router();
+
+function sendTemplateError(res: Response, error: unknown, fallback: string): void {
+  if (error instanceof TemplateError) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message,
+    });
+    return;
+  }
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : fallback,
+  });
+}
+
+/**
+ * GET /api/templates
+ * 列出所有模板与内置斜杠命令
+ */
+router.get("/", (_req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    templates: listTemplates(),
+    commands: SLASH_COMMANDS,
+  });
+});
+
+/**
+ * GET /api/templates/:name
+ * 获取单个模板
+ */
+router.get("/:name", (req: Request, res: Response): void => {
+  const template = getTemplate(req.params.name);
+  if (!template) {
+    res.status(404).json({
+      success: false,
+      error: "模板不存在",
+    });
+    return;
+  }
+  res.json({
+    success: true,
+    template: { ...template, variables: templateVariables(template.content) },
+  });
+});
+
+/**
+ * POST /api/templates
+ * 创建模板（{ name, description?, content }）
+ */
+router.post("/", (req: Request, res: Response): void => {
+  try {
+    const template = createTemplate(req.body, getUserId(req));
+    res.status(201).json({
+      success: true,
+      template: { ...template, variables: templateVariables(template.content) },
+    });
+  } catch (error) {
+    sendTemplateError(res, error, "创建模板失败");
+  }
+});
+
+/**
+ * PUT /api/templates/:name
+ * 修改模板的描述或内容
+ */
+router.put("/:name", (req: Request, res: Response): void => {
+  try {
+    const template = updateTemplate(req.params.name, req.body, getUserId(req));
+    res.json({
+      success: true,
+      template: { ...template, variables: templateVariables(template.content) },
+    });
+  } catch (error) {
+    sendTemplateError(res, error, "修改模板失败");
+  }
+});
+
+/**
+ * DELETE /api/templates/:name
+ * 删除模板
+ */
+router.delete("/:name", (req: Request, res: Response): void => {
+  try {
+    deleteTemplate(req.params.name, getUserId(req));
+    res.json({ success: true });
+  } catch (error) {
+    sendTemplateError(res, error, "删除模板失败");
+  }
+});
+
+/**
+ * POST /api/templates/:name/render
+ * 预览模板展开结果（{ args?: 斜杠命令的参数文本, values?: 变量值 }）
+ */
+router.post("/:name/render", (req: Request, res: Response): void => {
+  const template = getTemplate(req.params.name);
+  if (!template) {
+    res.status(404).json({
+      success: false,
+      error: "模板不存在",
+    });
+    return;
+  }
+
+  const { args = "", values = {} } = (req.body || {}) as { args?: string; values?: Record<string, unknown> };
+  const validValues =
+    typeof values === "object" &&
+    values !== null &&
+    !Array.isArray(values) &&
+    Object.values(values).every((value) => typeof value === "string");
+  if (!validValues) {
+    res.status(400).json({
+      success: false,
+      error: "values 应为变量名到字符串的映射",
+    });
+    return;
+  }
+
+  try {
+    res.json({
+      success: true,
+      prompt: renderTemplate(template, Object.assign(bindTemplateArguments(template, String(args)), values)),
+    });
+  } catch (error) {
+    sendTemplateError(res, error, "模板展开失败");
+  }
+});
+
+export default router;
@@ -1,106 +1,167 @@
-import { Router, Request, Response } from "express";
+import express, { Router, Request, Response, NextFunction } from "express";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
+import { getUserId } from "../auth.js";
+import { LimitError, checkUploadQuota, checkUploadRate, rateLimitKey, sendLimitError } from "../limits.js";
+import {
+  deleteUpload,
+  extractUpload,
+  getUploadDir,
+  getUsedBytes,
+  listUploads,
+  registerUploads,
+  tempUploadName,
+} from "../uploads.js";
+import {
+  WORKSPACE_UPLOAD_BYTES,
+  createWorkspace,
+  deleteWorkspace,
+  getIncomingDir,
+  listWorkspaces,
+  workspaceSourceOf,
+} from "../workspaces.js";
+import { getSessionRecord } from "../copilot.js";
+import {
+  CHUNKED_UPLOAD_MAX_BYTES,
+  ChunkedUploadError,
+  UPLOAD_CHUNK_BYTES,
+  appendChunk,
+  cancelChunkedUpload,
+  completeChunkedUpload,
+  createChunkedUpload,
+  getChunkedUpload,
+  type ChunkedUpload,
+} from "../chunkedUpload.js";
 
 const router = Router();
 
-// 确保上传目录存在
-const uploadDir = path.join(process.cwd(), "uploads");
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
+/**
+ * 上传前检查请求频率，并按 Content-Length 预估是否超出配额
+ */
+function uploadLimits(req: Request, res: Response, next: NextFunction): void {
+  const userId = getUserId(req);
+  try {
+    checkUploadRate(rateLimitKey(userId, req.ip));
+    checkUploadQuota(getUsedBytes(userId), Number(req.headers["content-length"]) || 0);
+  } catch (error) {
+    if (error instanceof LimitError) {
+      sendLimitError(res, error);
+      return;
+    }
+    next(error);
+    return;
+  }
+  next();
 }
 
 // 配置 multer 存储
 const storage = multer.diskStorage({
-  destination: (_req, _file, cb) => {
-    cb(null, uploadDir);
+  destination: (req, _file, cb) => {
+    cb(null, getUploadDir(getUserId(req)));
   },
-  filename: (_req, file, cb) => {
-    // 使用时间戳 + 原始文件名避免冲突
-    const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1e9)}`;
-    const ext = path.extname(file.originalname);
-    const baseName = path.basename(file.originalname, ext);
-    cb(null, `${baseName}-${uniqueSuffix}${ext}`);
+  filename: (_req, _file, cb) => {
+    // 先写入临时文件，登记时按内容哈希重命名（见 registerUploads）
+    cb(null, tempUploadName());
   },
 });
 
+// 允许的文件类型
+const allowedMimes = [
+  // 文本文件
+  "text/plain",
+  "text/markdown",
+  "text/html",
+  "text/css",
+  "text/javascript",
+  "application/json",
+  "application/xml",
+  // 代码文件
+  "application/javascript",
+  "application/typescript",
+  "application/x-python",
+  "application/x-python-code",
+  // 图片
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  // 文档
+  "application/pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "text/csv",
+  // 压缩包
+  "application/zip",
+  "application/x-zip-compressed",
+  "application/x-tar",
+  "application/gzip",
+  "application/x-gzip",
+  // 其他
+  "application/octet-stream", // 未知类型，根据扩展名判断
+];
+
+// 允许的文件扩展名
+const allowedExts = [
+  ".txt",
+  ".md",
+  ".json",
+  ".js",
+  ".ts",
+  ".jsx",
+  ".tsx",
+  ".py",
+  ".java",
+  ".c",
+  ".cpp",
+  ".h",
+  ".go",
+  ".rs",
+  ".rb",
+  ".php",
+  ".html",
+  ".css",
+  ".scss",
+  ".yaml",
+  ".yml",
+  ".xml",
+  ".sql",
+  ".sh",
+  ".bash",
+  ".zsh",
+  ".jpg",
+  ".jpeg",
+  ".png",
+  ".gif",
+  ".webp",
+  ".pdf",
+  ".docx",
+  ".xlsx",
+  ".log",
+  ".csv",
+  ".zip",
+  ".tar",
+  ".gz",
+  ".tgz",
+];
+
+/**
+ * 检查文件类型是否允许上传（MIME 类型或扩展名任一匹配即可）
+ */
+function isAllowedFile(originalName: string, mimetype: string): boolean {
+  return allowedMimes.includes(mimetype) || allowedExts.includes(path.extname(originalName).toLowerCase());
+}
+
 // 文件过滤器
 const fileFilter = (
   _req: Request,
   file: Express.Multer.File,
   cb: multer.FileFilterCallback
 ) => {
-  // 允许的文件类型
-  const allowedMimes = [
-    // 文本文件
-    "text/plain",
-    "text/markdown",
-    "text/html",
-    "text/css",
-    "text/javascript",
-    "application/json",
-    "application/xml",
-    // 代码文件
-    "application/javascript",
-    "application/typescript",
-    "application/x-python",
-    "application/x-python-code",
-    // 图片
-    "image/jpeg",
-    "image/png",
-    "image/gif",
-    "image/webp",
-    // 文档
-    "application/pdf",
-    // 其他
-    "application/octet-stream", // 未知类型，根据扩展名判断
-  ];
-
-  // 允许的文件扩展名
-  const allowedExts = [
-    ".txt",
-    ".md",
-    ".json",
-    ".js",
-    ".ts",
-    ".jsx",
-    ".tsx",
-    ".py",
-    ".java",
-    ".c",
-    ".cpp",
-    ".h",
-    ".go",
-    ".rs",
-    ".rb",
-    ".php",
-    ".html",
-    ".css",
-    ".scss",
-    ".yaml",
-    ".yml",
-    ".xml",
-    ".sql",
-    ".sh",
-    ".bash",
-    ".zsh",
-    ".jpg",
-    ".jpeg",
-    ".png",
-    ".gif",
-    ".webp",
-    ".pdf",
-    ".log",
-    ".csv",
-  ];
-
-  const ext = path.extname(file.originalname).toLowerCase();
-
-  if (allowedMimes.includes(file.mimetype) || allowedExts.includes(ext)) {
+  if (isAllowedFile(file.originalname, file.mimetype)) {
     cb(null, true);
   } else {
-    cb(new Error(`不支持的文件类型: ${file.mimetype} (${ext})`));
+    cb(new Error(`不支持的文件类型: ${file.mimetype} (${path.extname(file.originalname).toLowerCase()})`));
   }
 };
 
@@ -116,12 +177,13 @@ const upload = multer({
 
 /**
  * POST /api/upload
- * 上传单个或多个文件
+ * 上传单个或多个文件（相同内容只保存一份），返回上传 ID 与文档提取结果供发送消息时引用
  */
 router.post(
   "/",
+  uploadLimits,
   upload.array("files", 5),
-  (req: Request, res: Response): void => {
+  async (req: Request, res: Response): Promise<void> => {
     try {
       const files = req.files as Express.Multer.File[];
 
@@ -133,13 +195,18 @@ router.post(
         return;
       }
 
-      const uploadedFiles = files.map((file) => ({
-        originalName: file.originalname,
-        filename: file.filename,
-        path: file.path,
-        size: file.size,
-        mimetype: file.mimetype,
-      }));
+      // 按实际写入的大小复核配额（重复内容不计），超出时删除本次上传的文件
+      const registered = await registerUploads(
+        files.map((file) => ({ tempPath: file.path, originalName: file.originalname, mimetype: file.mimetype })),
+        getUserId(req)
+      );
+
+      // 文档提取：PDF / DOCX 转文本，CSV / XLSX 生成表格预览，压缩包解压为目录（重复内容沿用已有结果）
+      const uploadedFiles = [];
+      for (const { upload, deduplicated } of registered) {
+        const extracted = upload.extraction || upload.extractionError ? upload : await extractUpload(upload.id);
+        uploadedFiles.push({ ...upload, ...extracted, originalName: upload.originalName, deduplicated });
+      }
 
       console.log(`📤 上传了 ${files.length} 个文件:`, uploadedFiles.map((f) => f.originalName));
 
@@ -148,6 +215,10 @@ router.post(
         files: uploadedFiles,
       });
     } catch (error) {
+      if (error instanceof LimitError) {
+        sendLimitError(res, error);
+        return;
+      }
       console.error("上传错误:", error);
       res.status(500).json({
         success: false,
@@ -158,28 +229,19 @@ router.post(
 );
 
 /**
- * DELETE /api/upload/:filename
- * 删除已上传的文件
+ * DELETE /api/upload/:id
+ * 删除已上传的文件（已被会话引用的文件会随会话删除）
  */
-router.delete("/:filename", (req: Request, res: Response): void => {
+router.delete("/:id", async (req: Request, res: Response): Promise<void> => {
   try {
-    const { filename } = req.params;
-    const filePath = path.join(uploadDir, filename);
-
-    // 安全检查：确保文件在上传目录内
-    const resolvedPath = path.resolve(filePath);
-    if (!resolvedPath.startsWith(path.resolve(uploadDir))) {
-      res.status(403).json({
+    const result = await deleteUpload(req.params.id, getUserId(req));
+    if (result === "deleted") {
+      res.json({ success: true });
+    } else if (result === "in-use") {
+      res.status(409).json({
         success: false,
-        error: "无权访问该文件",
+        error: "文件已被会话引用，删除会话后会自动清理",
       });
-      return;
-    }
-
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
-      console.log(`🗑️ 删除文件: ${filename}`);
-      res.json({ success: true });
     } else {
       res.status(404).json({
         success: false,
@@ -196,32 +258,308 @@ router.delete("/:filename", (req: Request, res: Response): void => {
 });
 
 /**
- * GET /api/upload/list
- * 列出所有已上传的文件
+ * 分片上传的状态（同时通过 Upload-Offset / Upload-Length 响应头返回）
+ */
+function describeTransfer(res: Response, upload: ChunkedUpload) {
+  res.setHeader("Upload-Offset", String(upload.offset));
+  res.setHeader("Upload-Length", String(upload.size));
+  res.setHeader("Cache-Control", "no-store");
+  return {
+    id: upload.id,
+    filename: upload.filename,
+    size: upload.size,
+    offset: upload.offset,
+    chunkSize: UPLOAD_CHUNK_BYTES,
+  };
+}
+
+/**
+ * 分片上传的错误响应（偏移量不一致时带上服务器当前的偏移量，客户端据此续传）
+ */
+function sendChunkedError(res: Response, error: unknown): void {
+  if (error instanceof LimitError) {
+    sendLimitError(res, error);
+    return;
+  }
+  if (error instanceof ChunkedUploadError) {
+    if (error.offset !== undefined) {
+      res.setHeader("Upload-Offset", String(error.offset));
+    }
+    res.status(error.status).json({
+      success: false,
+      error: error.message,
+      offset: error.offset,
+    });
+    return;
+  }
+  console.error("分片上传错误:", error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : "上传失败",
+  });
+}
+
+// 分片内容：请求体为原始字节（Content-Type: application/offset+octet-stream）
+const rawChunk = express.raw({ type: "application/offset+octet-stream", limit: UPLOAD_CHUNK_BYTES });
+
+function readChunk(req: Request, res: Response, next: NextFunction): void {
+  rawChunk(req, res, (error?: unknown) => {
+    if (error) {
+      res.status((error as { status?: number }).status || 400).json({
+        success: false,
+        error: `分片读取失败（单个分片不超过 ${UPLOAD_CHUNK_BYTES} 字节）`,
+      });
+      return;
+    }
+    next();
+  });
+}
+
+/**
+ * POST /api/upload/chunked
+ * 创建分片上传（{ filename, size, mimetype?, sha256? }），返回上传 ID 与建议的分片大小
+ */
+router.post("/chunked", uploadLimits, async (req: Request, res: Response): Promise<void> => {
+  const { filename, size, mimetype, sha256 } = (req.body || {}) as {
+    filename?: string;
+    size?: number;
+    mimetype?: string;
+    sha256?: string;
+  };
+
+  if (!filename || typeof filename !== "string") {
+    res.status(400).json({
+      success: false,
+      error: "缺少 filename 参数",
+    });
+    return;
+  }
+  if (!isAllowedFile(filename, mimetype || "")) {
+    res.status(400).json({
+      success: false,
+      error: `不支持的文件类型: ${mimetype || "未知"} (${path.extname(filename).toLowerCase()})`,
+    });
+    return;
+  }
+
+  try {
+    const upload = await createChunkedUpload({ filename, size: Number(size), mimetype, sha256, ownerId: getUserId(req) });
+    res.setHeader("Location", `${req.baseUrl}/chunked/${upload.id}`);
+    res.status(201).json({
+      success: true,
+      ...describeTransfer(res, upload),
+      maxSize: CHUNKED_UPLOAD_MAX_BYTES,
+    });
+  } catch (error) {
+    sendChunkedError(res, error);
+  }
+});
+
+/**
+ * HEAD /api/upload/chunked/:id
+ * 查询已接收的偏移量（Upload-Offset 响应头），用于断线后续传
+ */
+router.head("/chunked/:id", (req: Request, res: Response): void => {
+  const upload = getChunkedUpload(req.params.id, getUserId(req));
+  if (!upload) {
+    res.status(404).end();
+    return;
+  }
+  describeTransfer(res, upload);
+  res.status(200).end();
+});
+
+/**
+ * GET /api/upload/chunked/:id
+ * 查询分片上传的状态
+ */
+router.get("/chunked/:id", (req: Request, res: Response): void => {
+  const upload = getChunkedUpload(req.params.id, getUserId(req));
+  if (!upload) {
+    res.status(404).json({
+      success: false,
+      error: "上传不存在或已过期",
+    });
+    return;
+  }
+  res.json({
+    success: true,
+    ...describeTransfer(res, upload),
+  });
+});
+
+/**
+ * PATCH /api/upload/chunked/:id
+ * 在 Upload-Offset 处追加一个分片，可带 Upload-Checksum: <sha256|sha1|md5> <Base64 摘要>
+ * 偏移量不一致返回 409，校验和不一致返回 460，响应中的 offset 为服务器当前的偏移量
  */
-router.get("/list", (_req: Request, res: Response): void => {
+router.patch("/chunked/:id", readChunk, async (req: Request, res: Response): Promise<void> => {
+  if (!Buffer.isBuffer(req.body)) {
+    res.status(415).json({
+      success: false,
+      error: "Content-Type 应为 application/offset+octet-stream",
+    });
+    return;
+  }
+  const offset = Number(req.get("Upload-Offset"));
+  if (!Number.isInteger(offset) || offset < 0) {
+    res.status(400).json({
+      success: false,
+      error: "缺少或无效的 Upload-Offset 请求头",
+    });
+    return;
+  }
+
   try {
-    const files = fs.readdirSync(uploadDir).map((filename) => {
-      const filePath = path.join(uploadDir, filename);
-      const stats = fs.statSync(filePath);
-      return {
-        filename,
-        path: filePath,
-        size: stats.size,
-        createdAt: stats.birthtime,
-      };
+    const upload = await appendChunk(req.params.id, getUserId(req), offset, req.body, req.get("Upload-Checksum"));
+    res.json({
+      success: true,
+      ...describeTransfer(res, upload),
     });
+  } catch (error) {
+    sendChunkedError(res, error);
+  }
+});
 
+/**
+ * POST /api/upload/chunked/:id/complete
+ * 完成分片上传，返回与普通上传相同格式的文件信息
+ */
+router.post("/chunked/:id/complete", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const file = await completeChunkedUpload(req.params.id, getUserId(req));
     res.json({
       success: true,
-      files,
+      file,
     });
   } catch (error) {
-    res.status(500).json({
+    sendChunkedError(res, error);
+  }
+});
+
+/**
+ * DELETE /api/upload/chunked/:id
+ * 取消分片上传并删除已接收的数据
+ */
+router.delete("/chunked/:id", async (req: Request, res: Response): Promise<void> => {
+  try {
+    await cancelChunkedUpload(req.params.id, getUserId(req));
+    res.json({ success: true });
+  } catch (error) {
+    sendChunkedError(res, error);
+  }
+});
+
+// 工作区上传：单个 zip 压缩包或 git bundle，暂存后解压到会话工作区
+const workspaceUpload = multer({
+  dest: getIncomingDir(),
+  fileFilter: (_req, file, cb) => {
+    if (workspaceSourceOf(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error("仅支持 zip 压缩包（.zip）或 git bundle（.bundle）"));
+    }
+  },
+  limits: {
+    fileSize: WORKSPACE_UPLOAD_BYTES,
+    files: 1,
+  },
+});
+
+/**
+ * 接收工作区压缩包，上传出错（类型不支持、超出大小）时返回 400
+ */
+function receiveWorkspace(req: Request, res: Response, next: NextFunction): void {
+  workspaceUpload.single("archive")(req, res, (error?: unknown) => {
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : "上传失败",
+      });
+      return;
+    }
+    next();
+  });
+}
+
+/**
+ * POST /api/upload/workspace
+ * 上传项目（表单字段 archive 为 zip 或 git bundle，sessionId 为所属会话），解压为会话工作区
+ * 返回可直接用于发送消息的目录附件 { type: "directory", workspaceId }
+ */
+router.post("/workspace", uploadLimits, receiveWorkspace, async (req: Request, res: Response): Promise<void> => {
+  const userId = getUserId(req);
+  const file = req.file;
+  const sessionId = typeof req.body?.sessionId === "string" ? req.body.sessionId : "";
+
+  if (!file) {
+    res.status(400).json({
+      success: false,
+      error: "没有上传文件",
+    });
+    return;
+  }
+  if (!getSessionRecord(sessionId, userId)) {
+    fs.rmSync(file.path, { force: true });
+    res.status(404).json({
+      success: false,
+      error: "会话不存在",
+    });
+    return;
+  }
+
+  try {
+    const workspace = await createWorkspace({ archivePath: file.path, name: file.originalname, sessionId, ownerId: userId });
+    res.json({
+      success: true,
+      workspace,
+      attachment: { type: "directory", workspaceId: workspace.id, displayName: workspace.name },
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : "创建工作区失败",
+    });
+  }
+});
+
+/**
+ * GET /api/upload/workspace?sessionId=
+ * 列出会话的工作区
+ */
+router.get("/workspace", async (req: Request, res: Response): Promise<void> => {
+  const sessionId = typeof req.query.sessionId === "string" ? req.query.sessionId : "";
+  res.json({
+    success: true,
+    workspaces: await listWorkspaces(sessionId, getUserId(req)),
+  });
+});
+
+/**
+ * DELETE /api/upload/workspace/:id?sessionId=
+ * 删除会话工作区
+ */
+router.delete("/workspace/:id", async (req: Request, res: Response): Promise<void> => {
+  const sessionId = typeof req.query.sessionId === "string" ? req.query.sessionId : "";
+  if (!(await deleteWorkspace(sessionId, req.params.id, getUserId(req)))) {
+    res.status(404).json({
       success: false,
-      error: error instanceof Error ? error.message : "获取文件列表失败",
+      error: "工作区不存在",
     });
+    return;
   }
+  res.json({ success: true });
+});
+
+/**
+ * GET /api/upload/list
+ * 列出当前用户已上传的文件（不包含服务器路径）
+ */
+router.get("/list", (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    files: listUploads(getUserId(req)),
+  });
 });
 
 export default router;
@@ -0,0 +1,66 @@
+import { Router, Request, Response } from "express";
+import { getUserId, isAdmin } from "../auth.js";
+import { getUserUsage, listSessionUsage, listUserUsage } from "../usage.js";
+
+/**
+ * 用量统计接口
+ * 普通用户只能查看自己的用量；管理员可通过 ?scope=all 查看所有用户
+ */
+
+const router = Router();
+
+/**
+ * GET /api/usage
+ * 获取当前用户的用量汇总、每日明细与各会话用量
+ */
+router.get("/", (req: Request, res: Response): void => {
+  const userId = getUserId(req);
+
+  if (req.query.scope === "all") {
+    if (!isAdmin(userId)) {
+      res.status(403).json({
+        success: false,
+        error: "仅管理员可以查看所有用户的用量",
+      });
+      return;
+    }
+    res.json({
+      success: true,
+      users: listUserUsage(),
+      sessions: listSessionUsage(),
+    });
+    return;
+  }
+
+  const { total, today, daily } = getUserUsage(userId);
+  res.json({
+    success: true,
+    userId: userId ?? null,
+    total,
+    today,
+    daily,
+    sessions: listSessionUsage(userId),
+  });
+});
+
+/**
+ * GET /api/usage/sessions/:id
+ * 获取单个会话的用量
+ */
+router.get("/sessions/:id", (req: Request, res: Response): void => {
+  const userId = getUserId(req);
+  const usage = listSessionUsage(isAdmin(userId) ? undefined : userId).find((s) => s.sessionId === req.params.id);
+  if (!usage) {
+    res.status(404).json({
+      success: false,
+      error: "没有该会话的用量记录",
+    });
+    return;
+  }
+  res.json({
+    success: true,
+    usage,
+  });
+});
+
+export default router;
@@ -0,0 +1,377 @@
+import fs from "fs";
+import path from "path";
+import { spawn, spawnSync } from "child_process";
+import { isValidSessionId } from "./store.js";
+import { sessionUploadPaths } from "./uploads.js";
+import { getSessionWorkspaceDir } from "./workspaces.js";
+
+/**
+ * 代码沙箱（run_code 工具）
+ * 在独立的子进程中执行 JavaScript / TypeScript（可选 Python），每个会话有自己的临时目录，多次执行之间保留
+ * - 文件系统：JavaScript 通过 Node.js 权限模型只能读取临时目录、会话的上传文件与工作区，只能写入临时目录，
+ *   且不能创建子进程、Worker 或加载原生模块
+ * - 网络：系统支持时在独立的网络命名空间（unshare -rn）中运行，同时禁用 Node.js / Python 的网络接口
+ * - 资源：超时后结束整个进程组，限制 V8 堆大小（Python 限制地址空间）、写入文件的大小与输出长度
+ * - 子进程不继承服务器的环境变量
+ * Python 无法限制文件系统的读取，需通过 RUN_CODE_PYTHON 显式启用
+ *
+ * 环境变量配置：
+ * - RUN_CODE_DIR: 会话临时目录的根目录，默认 "./data/sandbox"
+ * - RUN_CODE_TIMEOUT: 单次执行的超时上限（毫秒），默认 10000
+ * - RUN_CODE_MEMORY_MB: 内存上限（MB），默认 256
+ * - RUN_CODE_OUTPUT_KB: stdout / stderr 各自保留的最大长度（KB），默认 64
+ * - RUN_CODE_MAX_CONCURRENT: 同时执行的进程数，默认 2
+ * - RUN_CODE_PYTHON: Python 解释器（如 "python3"），未设置时不支持 Python
+ */
+
+export type SandboxErrorCode = "LANGUAGE_UNAVAILABLE" | "COMPILE_ERROR" | "BUSY" | "SPAWN_FAILED" | "INVALID_SESSION";
+
+/**
+ * 沙箱执行错误（代码本身的运行错误通过 stderr 与退出码返回，不抛出）
+ */
+export class SandboxError extends Error {
+  constructor(
+    public readonly code: SandboxErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "SandboxError";
+  }
+}
+
+export type SandboxLanguage = "javascript" | "typescript" | "python";
+
+export interface RunCodeOptions {
+  language: SandboxLanguage;
+  code: string;
+  stdin?: string;
+  /** 超时时间（不超过 RUN_CODE_TIMEOUT） */
+  timeoutMs?: number;
+  /** 所属会话（决定临时目录与可读取的文件） */
+  sessionId?: string;
+}
+
+export interface RunCodeResult {
+  language: SandboxLanguage;
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  stdout: string;
+  stderr: string;
+  /** stdout 或 stderr 超出长度限制被截断 */
+  truncated: boolean;
+  durationMs: number;
+  /** 临时目录中的文件（相对路径） */
+  files: Array<{ name: string; size: number }>;
+}
+
+const SANDBOX_ROOT = process.env.RUN_CODE_DIR || path.join(process.cwd(), "data", "sandbox");
+export const RUN_CODE_TIMEOUT = Number(process.env.RUN_CODE_TIMEOUT) || 10 * 1000;
+const MEMORY_MB = Number(process.env.RUN_CODE_MEMORY_MB) || 256;
+const OUTPUT_LIMIT = (Number(process.env.RUN_CODE_OUTPUT_KB) || 64) * 1024;
+const MAX_CONCURRENT = Number(process.env.RUN_CODE_MAX_CONCURRENT) || 2;
+const PYTHON = process.env.RUN_CODE_PYTHON || "";
+
+// 单个写入文件的大小上限
+const MAX_FILE_BYTES = 50 * 1024 * 1024;
+const MAX_LISTED_FILES = 50;
+// 入口文件所在的子目录（不计入 files）
+const RUN_DIR = ".run";
+
+// 加载在用户代码之前，禁用 Node.js 的网络接口
+const NODE_PRELOAD = `"use strict";
+const blocked = (name) => function () {
+  throw new Error("沙箱中禁止网络访问（" + name + "）");
+};
+const net = require("net");
+net.Socket.prototype.connect = blocked("net");
+net.Server.prototype.listen = blocked("net");
+require("dgram").Socket.prototype.bind = blocked("dgram");
+require("dgram").Socket.prototype.send = blocked("dgram");
+const dns = require("dns");
+for (const key of ["lookup", "resolve", "resolve4", "resolve6", "lookupService"]) {
+  dns[key] = blocked("dns");
+  dns.promises[key] = blocked("dns");
+}
+globalThis.fetch = blocked("fetch");
+globalThis.WebSocket = undefined;
+`;
+
+// 禁用 Python 的网络接口后执行入口文件
+const PYTHON_BOOTSTRAP = `import runpy, socket, sys
+def _blocked(*args, **kwargs):
+    raise OSError("沙箱中禁止网络访问")
+for _name in ("connect", "connect_ex", "bind", "sendto"):
+    setattr(socket.socket, _name, _blocked)
+socket.create_connection = socket.getaddrinfo = _blocked
+sys.argv = sys.argv[1:]
+runpy.run_path(sys.argv[0], run_name="__main__")
+`;
+
+interface SandboxRuntime {
+  /** 可用的 unshare（网络命名空间） */
+  namespace: boolean;
+  /** 可用的 prlimit */
+  prlimit: boolean;
+  /** Node.js 权限模型的命令行参数 */
+  permissionFlag: string | null;
+  python: boolean;
+  preload: string;
+}
+
+let runtime: Promise<SandboxRuntime> | null = null;
+let running = 0;
+
+function commandWorks(command: string, args: string[]): boolean {
+  try {
+    return spawnSync(command, args, { stdio: "ignore", timeout: 5000 }).status === 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 检测系统支持的隔离方式并写入预加载脚本（只执行一次）
+ */
+function getRuntime(): Promise<SandboxRuntime> {
+  runtime ??= (async () => {
+    const runtimeDir = path.join(SANDBOX_ROOT, ".runtime");
+    await fs.promises.mkdir(runtimeDir, { recursive: true });
+    const preload = path.join(runtimeDir, "no-network.cjs");
+    await fs.promises.writeFile(preload, NODE_PRELOAD, "utf-8");
+
+    const flags = process.allowedNodeEnvironmentFlags;
+    return {
+      namespace: process.platform === "linux" && commandWorks("unshare", ["-rn", "true"]),
+      prlimit: process.platform === "linux" && commandWorks("prlimit", ["--version"]),
+      permissionFlag: flags.has("--permission")
+        ? "--permission"
+        : flags.has("--experimental-permission")
+          ? "--experimental-permission"
+          : null,
+      python: PYTHON !== "" && commandWorks(PYTHON, ["--version"]),
+      preload,
+    };
+  })();
+  return runtime;
+}
+
+/**
+ * 检测沙箱环境并输出支持情况
+ * 应在服务启动时调用一次
+ */
+export async function initSandbox(): Promise<void> {
+  const { namespace, permissionFlag, python } = await getRuntime();
+  console.log(
+    `🧪 代码沙箱: 网络隔离=${namespace ? "命名空间" : "接口禁用"}，` +
+      `JavaScript=${permissionFlag ? "可用" : "不可用（需要 Node.js 20+）"}，Python=${python ? "可用" : "未启用"}`
+  );
+}
+
+/**
+ * 会话的临时目录（作为 --allow-fs-write 的唯一可写路径）
+ * 会话 ID 不合法或目录不在沙箱根目录之内时抛出 SandboxError（避免路径穿越）
+ */
+function sessionScratchDir(sessionId: string): string {
+  const root = path.resolve(SANDBOX_ROOT);
+  const dir = path.resolve(root, sessionId);
+  if (!isValidSessionId(sessionId) || !dir.startsWith(root + path.sep)) {
+    throw new SandboxError("INVALID_SESSION", "无效的会话 ID");
+  }
+  return dir;
+}
+
+/**
+ * 删除会话的临时目录（删除会话时调用）
+ */
+export async function removeSessionSandbox(sessionId: string): Promise<void> {
+  if (!isValidSessionId(sessionId)) return;
+  await fs.promises.rm(sessionScratchDir(sessionId), { recursive: true, force: true });
+}
+
+/**
+ * TypeScript 转译为 JavaScript（只检查语法，不做类型检查）
+ */
+async function transpileTypeScript(code: string, commonjs: boolean): Promise<string> {
+  let ts: typeof import("typescript");
+  try {
+    ts = (await import("typescript")).default;
+  } catch {
+    throw new SandboxError("LANGUAGE_UNAVAILABLE", "执行 TypeScript 需要安装 typescript 依赖");
+  }
+  const output = ts.transpileModule(code, {
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2022,
+      module: commonjs ? ts.ModuleKind.CommonJS : ts.ModuleKind.ESNext,
+    },
+    reportDiagnostics: true,
+  });
+  const error = output.diagnostics?.find((d) => d.category === ts.DiagnosticCategory.Error);
+  if (error) {
+    const position = error.file && error.start !== undefined ? error.file.getLineAndCharacterOfPosition(error.start) : undefined;
+    const location = position ? `第 ${position.line + 1} 行第 ${position.character + 1} 列: ` : "";
+    throw new SandboxError("COMPILE_ERROR", `${location}${ts.flattenDiagnosticMessageText(error.messageText, "\n")}`);
+  }
+  return output.outputText;
+}
+
+/**
+ * 列出临时目录中的文件（跳过入口文件目录）
+ */
+async function listScratchFiles(dir: string, prefix = ""): Promise<Array<{ name: string; size: number }>> {
+  const files: Array<{ name: string; size: number }> = [];
+  for (const entry of await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => [])) {
+    if (files.length >= MAX_LISTED_FILES) break;
+    const name = prefix + entry.name;
+    if (name === RUN_DIR) continue;
+    if (entry.isDirectory()) {
+      files.push(...(await listScratchFiles(path.join(dir, entry.name), `${name}/`)));
+    } else if (entry.isFile()) {
+      files.push({ name, size: (await fs.promises.stat(path.join(dir, entry.name))).size });
+    }
+  }
+  return files.slice(0, MAX_LISTED_FILES);
+}
+
+/**
+ * 生成执行命令：[unshare -rn] [prlimit ...] 解释器 ...
+ */
+async function buildCommand(
+  env: SandboxRuntime,
+  language: SandboxLanguage,
+  code: string,
+  scratch: string,
+  sessionId: string,
+  timeoutMs: number
+): Promise<string[]> {
+  const runDir = path.join(scratch, RUN_DIR);
+  await fs.promises.mkdir(runDir, { recursive: true });
+
+  let command: string[];
+  if (language === "python") {
+    if (!env.python) {
+      throw new SandboxError("LANGUAGE_UNAVAILABLE", "服务器未启用 Python（RUN_CODE_PYTHON）");
+    }
+    const entry = path.join(runDir, "main.py");
+    await fs.promises.writeFile(entry, code, "utf-8");
+    command = [PYTHON, "-B", "-c", PYTHON_BOOTSTRAP, entry];
+  } else {
+    if (!env.permissionFlag) {
+      throw new SandboxError("LANGUAGE_UNAVAILABLE", "当前 Node.js 版本不支持权限模型，无法安全执行 JavaScript");
+    }
+    // 使用 require 且没有 import / export 的代码按 CommonJS 执行，其余按 ES 模块执行（支持顶层 await）
+    const commonjs = /\brequire\s*\(/.test(code) && !/^\s*(import|export)\s/m.test(code);
+    const source = language === "typescript" ? await transpileTypeScript(code, commonjs) : code;
+    const entry = path.join(runDir, commonjs ? "main.cjs" : "main.mjs");
+    await fs.promises.writeFile(entry, source, "utf-8");
+
+    const readable = [scratch, env.preload, getSessionWorkspaceDir(sessionId), ...sessionUploadPaths(sessionId)];
+    command = [
+      process.execPath,
+      env.permissionFlag,
+      ...readable.map((file) => `--allow-fs-read=${file}`),
+      `--allow-fs-write=${scratch}`,
+      `--max-old-space-size=${MEMORY_MB}`,
+      "--no-warnings",
+      "--require",
+      env.preload,
+      entry,
+    ];
+  }
+
+  if (env.prlimit) {
+    const limits = [`--fsize=${MAX_FILE_BYTES}`, `--cpu=${Math.ceil(timeoutMs / 1000) + 1}`];
+    // V8 会预留大量虚拟内存，Node.js 只限制堆大小
+    if (language === "python") limits.push(`--as=${MEMORY_MB * 1024 * 1024}`);
+    command = ["prlimit", ...limits, ...command];
+  }
+  if (env.namespace) {
+    command = ["unshare", "-rn", ...command];
+  }
+  return command;
+}
+
+/**
+ * 在沙箱中执行代码
+ * 语言不可用、编译失败、会话 ID 不合法或并发数已满时抛出 SandboxError；代码的运行错误通过 stderr 与退出码返回
+ */
+export async function runCode(options: RunCodeOptions): Promise<RunCodeResult> {
+  if (running >= MAX_CONCURRENT) {
+    throw new SandboxError("BUSY", "沙箱正忙，请稍后再试");
+  }
+  running++;
+  try {
+    const env = await getRuntime();
+    const timeoutMs = Math.min(options.timeoutMs ?? RUN_CODE_TIMEOUT, RUN_CODE_TIMEOUT);
+    const sessionId = options.sessionId || "default";
+    const scratch = sessionScratchDir(sessionId);
+    const [command, ...args] = await buildCommand(env, options.language, options.code, scratch, sessionId, timeoutMs);
+
+    const started = Date.now();
+    const result = await new Promise<Omit<RunCodeResult, "language" | "files" | "durationMs">>((resolve, reject) => {
+      const child = spawn(command, args, {
+        cwd: scratch,
+        env: { PATH: process.env.PATH ?? "/usr/bin:/bin", HOME: scratch, TMPDIR: scratch, LANG: "C.UTF-8", PYTHONIOENCODING: "utf-8" },
+        stdio: ["pipe", "pipe", "pipe"],
+        // 独立的进程组，超时时连同其创建的子进程一起结束
+        detached: true,
+      });
+
+      const output = { stdout: [] as Buffer[], stderr: [] as Buffer[] };
+      const sizes = { stdout: 0, stderr: 0 };
+      let truncated = false;
+      let timedOut = false;
+      for (const stream of ["stdout", "stderr"] as const) {
+        child[stream].on("data", (chunk: Buffer) => {
+          const room = OUTPUT_LIMIT - sizes[stream];
+          if (room <= 0) {
+            truncated = true;
+            return;
+          }
+          if (chunk.length > room) truncated = true;
+          output[stream].push(chunk.subarray(0, room));
+          sizes[stream] += Math.min(chunk.length, room);
+        });
+      }
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        try {
+          process.kill(-child.pid!, "SIGKILL");
+        } catch {
+          child.kill("SIGKILL");
+        }
+      }, timeoutMs);
+
+      child.on("error", (error) => {
+        clearTimeout(timer);
+        reject(new SandboxError("SPAWN_FAILED", `无法启动沙箱进程: ${error.message}`));
+      });
+      child.on("close", (exitCode, signal) => {
+        clearTimeout(timer);
+        resolve({
+          exitCode,
+          signal,
+          timedOut,
+          stdout: Buffer.concat(output.stdout).toString("utf-8"),
+          stderr: Buffer.concat(output.stderr).toString("utf-8"),
+          truncated,
+        });
+      });
+
+      child.stdin.on("error", () => {
+        // 进程未读取 stdin 就退出时忽略 EPIPE
+      });
+      child.stdin.end(options.stdin ?? "");
+    });
+
+    return {
+      language: options.language,
+      ...result,
+      durationMs: Date.now() - started,
+      files: await listScratchFiles(scratch),
+    };
+  } finally {
+    running--;
+  }
+}
@@ -4,6 +4,12 @@ import { Server as SocketIOServer } from "socket.io";
 import path from "path";
 
 import uploadRouter from "./routes/upload.js";
+import authRouter from "./routes/auth.js";
+import sessionsRouter from "./routes/sessions.js";
+import openaiRouter from "./routes/openai.js";
+import usageRouter from "./routes/usage.js";
+import compareRouter from "./routes/compare.js";
+import templatesRouter from "./routes/templates.js";
 import {
   createSession,
   listSessions,
@@ -12,47 +18,154 @@ import {
   sendMessage,
   abortSession,
   stopClient,
-  AVAILABLE_MODELS,
+  initSessionStore,
+  ownsSession,
+  canUseSessionId,
+  switchModel,
+  switchBranch,
+  getMessageBranches,
+  getSessionRecord,
+  updateSessionConfig,
+  type SwitchModelMode,
+  type SendMessageOptions,
+  listModels,
   type ModelId,
 } from "./copilot.js";
+import { requireAuth, socketAuth, getUserId, getCorsOrigin } from "./auth.js";
+import { loadToolPlugins, watchToolPlugins, listTools } from "./toolRegistry.js";
+import { getPendingApproval, resolveToolApproval, type ToolApprovalRequest } from "./approval.js";
+import { initUsageLedger } from "./usage.js";
+import { LimitError, beginTurn, rateLimitKey } from "./limits.js";
+import { runComparison } from "./compare.js";
+import { initUploadIndex, resolveAttachments, startUploadCleanup, type AttachmentInput } from "./uploads.js";
+import { initTemplates } from "./templates.js";
+import { parseSlashCommand, type SlashCommandResult } from "./commands.js";
+import { mergeSessionConfig, parseSessionConfig, resolveSessionConfig } from "./sessionConfig.js";
+import { getChunkedUpload, initChunkedUploads, uploadEvents, type ChunkedUpload } from "./chunkedUpload.js";
+import { initSandbox } from "./sandbox.js";
 
 const app = express();
 const httpServer = createServer(app);
 const io = new SocketIOServer(httpServer, {
   cors: {
-    origin: "*",
+    origin: getCorsOrigin(),
     methods: ["GET", "POST"],
+    credentials: true,
   },
 });
 
+// Socket.IO 握手认证
+io.use(socketAuth);
+
 const PORT = process.env.PORT || 3000;
 
+// 正在生成中的回复（供中途加入会话的客户端追赶进度）
+interface LiveResponse {
+  sessionId: string;
+  prompt: string;
+  senderId: string;
+  content: string;
+  reasoning: string;
+  toolCalls: Array<{ toolCallId: string; toolName: string; args: unknown; result?: unknown }>;
+  pendingApprovals: ToolApprovalRequest[];
+  startedAt: number;
+}
+
+const liveResponses = new Map<string, LiveResponse>();
+
+// 客户端发起一轮对话的参数（附件可引用上传 ID，由服务端解析为文件路径）
+type TurnRequest = Pick<SendMessageOptions, "sessionId" | "prompt" | "model" | "branchFrom"> & {
+  attachments?: AttachmentInput[];
+  /** 由斜杠命令展开的模板名 */
+  template?: string;
+};
+
+/**
+ * 会话对应的 Socket.IO 房间名
+ */
+function sessionRoom(sessionId: string): string {
+  return `session:${sessionId}`;
+}
+
+/**
+ * 分片上传对应的 Socket.IO 房间名
+ */
+function uploadRoom(uploadId: string): string {
+  return `upload:${uploadId}`;
+}
+
+// 分片上传进度推送给关注该上传的客户端
+uploadEvents.on("progress", ({ upload }: { upload: ChunkedUpload }) => {
+  io.to(uploadRoom(upload.id)).emit("upload-progress", {
+    uploadId: upload.id,
+    offset: upload.offset,
+    size: upload.size,
+  });
+});
+
+uploadEvents.on("complete", ({ upload, file }: { upload: ChunkedUpload; file: unknown }) => {
+  io.to(uploadRoom(upload.id)).emit("upload-complete", {
+    uploadId: upload.id,
+    file,
+  });
+  io.socketsLeave(uploadRoom(upload.id));
+});
+
 // 中间件
-app.use(express.json());
+// 会话导入的 JSON 可能较大，放宽请求体限制
+app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: true }));
 
 // 静态文件
 app.use(express.static(path.join(process.cwd(), "public")));
 
-// API 路由
-app.use("/api/upload", uploadRouter);
+// API 路由（登录接口无需认证）
+app.use("/api/auth", authRouter);
+app.use("/api/upload", requireAuth, uploadRouter);
+app.use("/api/sessions", requireAuth, sessionsRouter);
+app.use("/api/usage", requireAuth, usageRouter);
+app.use("/api/compare", requireAuth, compareRouter);
+app.use("/api/templates", requireAuth, templatesRouter);
+
+// OpenAI 兼容接口
+app.use("/v1", requireAuth, openaiRouter);
 
-// 获取可用模型列表
-app.get("/api/models", (_req, res) => {
+// 获取可用模型列表（?refresh=true 跳过缓存重新从 CLI 获取）
+app.get("/api/models", requireAuth, async (req, res) => {
+  const models = await listModels(req.query.refresh === "true");
   res.json({
     success: true,
-    models: AVAILABLE_MODELS,
+    source: models[0]?.source ?? "fallback",
+    models,
+  });
+});
+
+// 获取可用工具列表
+app.get("/api/tools", requireAuth, (_req, res) => {
+  res.json({
+    success: true,
+    tools: listTools(),
   });
 });
 
 // Socket.IO 连接处理
 io.on("connection", (socket) => {
-  console.log(`🔌 客户端连接: ${socket.id}`);
+  const userId = getUserId(socket);
+  console.log(`🔌 客户端连接: ${socket.id}${userId ? ` (用户: ${userId})` : ""}`);
 
-  // 创建新会话
-  socket.on("create-session", async (data: { sessionId?: string; model?: ModelId }) => {
+  // 创建新会话（config 见 sessionConfig.ts）
+  socket.on("create-session", async (data: { sessionId?: string; model?: ModelId; tools?: string[]; config?: unknown }) => {
     try {
-      const session = await createSession(data.sessionId, data.model);
+      const input = parseSessionConfig(data.config);
+      const config = resolveSessionConfig(input, userId, data.sessionId);
+      if (!config) {
+        throw new Error("附件不存在、已过期或无权使用");
+      }
+      const { tools, ...settings } = config;
+      const session = await createSession(data.sessionId, data.model, userId, {
+        tools: tools ?? data.tools,
+        config: mergeSessionConfig(undefined, settings),
+      });
       socket.emit("session-created", {
         success: true,
         sessionId: session.sessionId,
@@ -69,7 +182,7 @@ io.on("connection", (socket) => {
   // 获取会话列表
   socket.on("list-sessions", async () => {
     try {
-      const sessions = await listSessions();
+      const sessions = await listSessions(userId);
       socket.emit("sessions-list", {
         success: true,
         sessions,
@@ -85,7 +198,13 @@ io.on("connection", (socket) => {
   // 删除会话
   socket.on("delete-session", async (data: { sessionId: string }) => {
     try {
-      await deleteSession(data.sessionId);
+      await deleteSession(data.sessionId, userId);
+      // 通知同一会话中的其他客户端
+      io.to(sessionRoom(data.sessionId)).except(socket.id).emit("session-deleted", {
+        success: true,
+        sessionId: data.sessionId,
+      });
+      io.in(sessionRoom(data.sessionId)).socketsLeave(sessionRoom(data.sessionId));
       socket.emit("session-deleted", {
         success: true,
         sessionId: data.sessionId,
@@ -101,11 +220,12 @@ io.on("connection", (socket) => {
   // 获取会话消息历史
   socket.on("get-messages", async (data: { sessionId: string }) => {
     try {
-      const messages = await getSessionMessages(data.sessionId);
+      const messages = await getSessionMessages(data.sessionId, userId);
       socket.emit("messages-history", {
         success: true,
         sessionId: data.sessionId,
         messages,
+        branches: getMessageBranches(data.sessionId, userId),
       });
     } catch (error) {
       socket.emit("messages-history", {
@@ -115,86 +235,455 @@ io.on("connection", (socket) => {
     }
   });
 
-  // 发送消息
+  // 切换会话模型
+  const handleSwitchModel = async (data: { sessionId: string; model: ModelId; mode?: SwitchModelMode }) => {
+    try {
+      const result = await switchModel(data.sessionId, data.model, userId, data.mode);
+      const payload = {
+        success: true,
+        sessionId: data.sessionId,
+        model: result.model,
+        previousModel: result.previousModel,
+        mode: data.mode || "reconfigure",
+        forkedSessionId: result.sessionId !== data.sessionId ? result.sessionId : undefined,
+      };
+      // 原地切换时通知会话中的所有客户端，分叉只通知发起者
+      if (payload.forkedSessionId) {
+        socket.emit("model-switched", payload);
+      } else {
+        io.to(sessionRoom(data.sessionId)).except(socket.id).emit("model-switched", payload);
+        socket.emit("model-switched", payload);
+      }
+    } catch (error) {
+      socket.emit("model-switched", {
+        success: false,
+        sessionId: data.sessionId,
+        error: error instanceof Error ? error.message : "切换模型失败",
+      });
+    }
+  };
+  socket.on("switch-model", handleSwitchModel);
+
+  // 修改会话配置（通知会话中的所有客户端）
+  socket.on("update-session-config", async (data: { sessionId: string; config: unknown }) => {
+    try {
+      const config = resolveSessionConfig(parseSessionConfig(data?.config), userId, data?.sessionId);
+      if (!config) {
+        throw new Error("附件不存在、已过期或无权使用");
+      }
+      const payload = {
+        success: true,
+        sessionId: data.sessionId,
+        config: await updateSessionConfig(data.sessionId, config, userId),
+      };
+      io.to(sessionRoom(data.sessionId)).except(socket.id).emit("session-config-updated", payload);
+      socket.emit("session-config-updated", payload);
+    } catch (error) {
+      socket.emit("session-config-updated", {
+        success: false,
+        sessionId: data?.sessionId,
+        error: error instanceof Error ? error.message : "修改会话配置失败",
+      });
+    }
+  });
+
+  // 切换到兄弟分支（通知会话中的所有客户端）
+  socket.on("switch-branch", async (data: { sessionId: string; messageId: string }) => {
+    try {
+      const messages = await switchBranch(data.sessionId, data.messageId, userId);
+      const payload = {
+        success: true,
+        sessionId: data.sessionId,
+        messages,
+        branches: getMessageBranches(data.sessionId, userId),
+      };
+      io.to(sessionRoom(data.sessionId)).except(socket.id).emit("branch-switched", payload);
+      socket.emit("branch-switched", payload);
+    } catch (error) {
+      socket.emit("branch-switched", {
+        success: false,
+        sessionId: data.sessionId,
+        error: error instanceof Error ? error.message : "切换分支失败",
+      });
+    }
+  });
+
+  // 加入会话房间，接收该会话的实时消息
+  socket.on("join-session", (data: { sessionId: string }) => {
+    if (!data?.sessionId || !ownsSession(data.sessionId, userId)) {
+      socket.emit("session-joined", {
+        success: false,
+        sessionId: data?.sessionId,
+        error: "会话不存在",
+      });
+      return;
+    }
+
+    socket.join(sessionRoom(data.sessionId));
+    socket.emit("session-joined", {
+      success: true,
+      sessionId: data.sessionId,
+      inProgress: liveResponses.get(data.sessionId) ?? null,
+    });
+  });
+
+  // 离开会话房间
+  socket.on("leave-session", (data: { sessionId: string }) => {
+    if (!data?.sessionId) return;
+    socket.leave(sessionRoom(data.sessionId));
+  });
+
+  // 关注分片上传的进度（可在其他标签页或设备上查看）
+  socket.on("watch-upload", (data: { uploadId: string }) => {
+    const upload = data?.uploadId ? getChunkedUpload(data.uploadId, userId) : undefined;
+    if (!upload) {
+      socket.emit("upload-error", {
+        uploadId: data?.uploadId,
+        error: "上传不存在或已过期",
+      });
+      return;
+    }
+
+    socket.join(uploadRoom(upload.id));
+    socket.emit("upload-progress", {
+      uploadId: upload.id,
+      offset: upload.offset,
+      size: upload.size,
+    });
+  });
+
+  /**
+   * 执行一轮对话（发送、编辑或重新生成），流式事件广播给会话房间
+   */
+  const runTurn = async (data: TurnRequest) => {
+    // 先校验会话归属：无权使用该会话时只通知发送者，不加入房间也不影响进行中的回复
+    if (!canUseSessionId(data?.sessionId, userId)) {
+      socket.emit("message-error", {
+        sessionId: data?.sessionId,
+        error: "无权访问该会话",
+      });
+      return;
+    }
+
+    // 同一会话同时只进行一轮对话（与 MAX_CONCURRENT_TURNS 无关，交错的对话会打乱会话历史）
+    if (liveResponses.has(data.sessionId)) {
+      socket.emit("message-error", {
+        sessionId: data.sessionId,
+        error: "该会话正在生成回复，请稍后再试",
+        code: "concurrency_limit",
+      });
+      return;
+    }
+
+    console.log(`📨 收到消息: [${data.sessionId}] ${data.prompt.substring(0, 50)}...`);
+
+    const attachments = resolveAttachments(data.attachments, userId, data.sessionId);
+    if (attachments === null) {
+      socket.emit("message-error", {
+        sessionId: data.sessionId,
+        error: "附件不存在、已过期或无权使用",
+      });
+      return;
+    }
+
+    // 限流与配额检查
+    let releaseTurn: () => void;
+    try {
+      releaseTurn = beginTurn({
+        clientKey: rateLimitKey(userId, socket.handshake.address),
+        userId,
+        sessionId: data.sessionId,
+      });
+    } catch (error) {
+      if (error instanceof LimitError) {
+        socket.emit("message-error", {
+          sessionId: data.sessionId,
+          error: error.message,
+          code: error.code,
+          retryAfter: error.retryAfter,
+        });
+        return;
+      }
+      console.error(`❌ 限流检查失败: [${data.sessionId}]`, error);
+      socket.emit("message-error", {
+        sessionId: data.sessionId,
+        error: error instanceof Error ? error.message : "消息发送失败",
+      });
+      return;
+    }
+
+    // 发送者自动加入会话房间，所有流式事件广播给房间内的客户端
+    const room = sessionRoom(data.sessionId);
+    socket.join(room);
+
+    const live: LiveResponse = {
+      sessionId: data.sessionId,
+      prompt: data.prompt,
+      senderId: socket.id,
+      content: "",
+      reasoning: "",
+      toolCalls: [],
+      pendingApprovals: [],
+      startedAt: Date.now(),
+    };
+    liveResponses.set(data.sessionId, live);
+
+    // 通知开始处理（其他客户端据此显示用户消息）
+    io.to(room).emit("message-start", {
+      sessionId: data.sessionId,
+      prompt: data.prompt,
+      attachments: data.attachments,
+      senderId: socket.id,
+      branchFrom: data.branchFrom,
+      template: data.template,
+    });
+
+    // 使用 Promise 包装，等待真正完成
+    try {
+      await sendMessage({
+        sessionId: data.sessionId,
+        prompt: data.prompt,
+        model: data.model,
+        ownerId: userId,
+        attachments,
+        branchFrom: data.branchFrom,
+        onDelta: (content) => {
+          live.content += content;
+          io.to(room).emit("message-delta", {
+            sessionId: data.sessionId,
+            content,
+          });
+        },
+        onReasoningDelta: (content) => {
+          live.reasoning += content;
+          io.to(room).emit("reasoning-delta", {
+            sessionId: data.sessionId,
+            content,
+          });
+        },
+        onToolCall: (toolName, args, toolCallId) => {
+          live.toolCalls.push({ toolCallId, toolName, args });
+          io.to(room).emit("tool-call", {
+            sessionId: data.sessionId,
+            toolName,
+            args,
+            toolCallId,
+          });
+        },
+        onToolResult: (toolName, result, toolCallId) => {
+          const call = live.toolCalls.find((c) => c.toolCallId === toolCallId);
+          if (call) call.result = result;
+          io.to(room).emit("tool-result", {
+            sessionId: data.sessionId,
+            toolName,
+            result,
+            toolCallId,
+          });
+        },
+        onApprovalRequest: (request) => {
+          live.pendingApprovals.push(request);
+          io.to(room).emit("tool-approval-request", request);
+        },
+        onApprovalResolved: (request, entry) => {
+          live.pendingApprovals = live.pendingApprovals.filter((r) => r.requestId !== request.requestId);
+          io.to(room).emit("tool-approval-resolved", {
+            sessionId: request.sessionId,
+            requestId: request.requestId,
+            toolName: request.toolName,
+            decision: entry.decision,
+            reason: entry.reason,
+          });
+        },
+        onComplete: (fullContent, usage) => {
+          liveResponses.delete(data.sessionId);
+          io.to(room).emit("message-complete", {
+            sessionId: data.sessionId,
+            content: fullContent,
+            usage,
+          });
+          console.log(`✅ 消息完成: [${data.sessionId}]`);
+        },
+        onError: (error) => {
+          liveResponses.delete(data.sessionId);
+          io.to(room).emit("message-error", {
+            sessionId: data.sessionId,
+            error: error.message,
+          });
+          console.error(`❌ 消息错误: [${data.sessionId}]`, error.message);
+        },
+      });
+    } catch (error) {
+      console.error(`❌ sendMessage 异常: [${data.sessionId}]`, error);
+    } finally {
+      releaseTurn();
+      if (liveResponses.get(data.sessionId) === live) {
+        liveResponses.delete(data.sessionId);
+      }
+    }
+  };
+
+  // 发送消息（以 / 开头的消息先解析斜杠命令：展开提示词模板或执行会话操作）
+  socket.on("send-message", async (data: TurnRequest) => {
+    let command: SlashCommandResult;
+    try {
+      command = parseSlashCommand(data?.prompt ?? "");
+    } catch (error) {
+      socket.emit("command-result", {
+        success: false,
+        sessionId: data?.sessionId,
+        error: error instanceof Error ? error.message : "命令执行失败",
+      });
+      return;
+    }
+
+    switch (command.type) {
+      case "message":
+        if (command.template) {
+          console.log(`📝 展开模板: [${data.sessionId}] /${command.template}`);
+        }
+        return runTurn({ ...data, prompt: command.prompt, template: command.template });
+      case "help":
+        socket.emit("command-result", {
+          success: true,
+          sessionId: data.sessionId,
+          command: "help",
+          content: command.text,
+        });
+        return;
+      case "model":
+        return handleSwitchModel({ sessionId: data.sessionId, model: command.model, mode: command.mode });
+      case "clear": {
+        // 以相同的模型、工具与配置开始新会话，原会话保留在会话列表中
+        const record = getSessionRecord(data.sessionId, userId);
+        if (!record) {
+          socket.emit("command-result", {
+            success: false,
+            sessionId: data.sessionId,
+            error: "会话不存在",
+          });
+          return;
+        }
+        try {
+          const session = await createSession(undefined, record.model, userId, {
+            tools: record.tools,
+            config: structuredClone(record.config),
+          });
+          socket.emit("session-created", {
+            success: true,
+            sessionId: session.sessionId,
+            model: record.model,
+            clearedFrom: data.sessionId,
+          });
+        } catch (error) {
+          socket.emit("session-created", {
+            success: false,
+            error: error instanceof Error ? error.message : "创建会话失败",
+          });
+        }
+        return;
+      }
+    }
+  });
+
+  // 编辑历史中的用户消息，从该处创建新分支并重新回答
   socket.on(
-    "send-message",
-    async (data: {
-      sessionId: string;
-      prompt: string;
-      model?: ModelId;
-      attachments?: Array<{
-        type: "file" | "directory";
-        path: string;
-        displayName?: string;
-      }>;
-    }) => {
-      console.log(`📨 收到消息: [${data.sessionId}] ${data.prompt.substring(0, 50)}...`);
-
-      // 通知开始处理
-      socket.emit("message-start", {
+    "edit-message",
+    (data: Omit<TurnRequest, "model" | "branchFrom"> & { messageId: string }) => {
+      if (!data?.messageId || !data.prompt) {
+        socket.emit("message-error", { sessionId: data?.sessionId, error: "缺少 messageId 或 prompt 参数" });
+        return;
+      }
+      return runTurn({
         sessionId: data.sessionId,
+        prompt: data.prompt,
+        attachments: data.attachments,
+        branchFrom: { messageId: data.messageId, mode: "edit" },
       });
+    }
+  );
 
-      // 使用 Promise 包装，等待真正完成
+  // 重新生成回复（新的回复与原回复互为兄弟分支）
+  socket.on("regenerate", (data: { sessionId: string; messageId: string }) => {
+    if (!data?.messageId) {
+      socket.emit("message-error", { sessionId: data?.sessionId, error: "缺少 messageId 参数" });
+      return;
+    }
+    return runTurn({
+      sessionId: data.sessionId,
+      prompt: "",
+      branchFrom: { messageId: data.messageId, mode: "regenerate" },
+    });
+  });
+
+  // 模型对比：同一提示词并行发送给多个模型，事件按模型标记，只发送给发起者
+  socket.on(
+    "compare",
+    async (data: Pick<TurnRequest, "prompt" | "attachments"> & { models: ModelId[] }) => {
+      if (!data?.prompt || !Array.isArray(data.models)) {
+        socket.emit("compare-error", { error: "缺少 prompt 或 models 参数" });
+        return;
+      }
+      const attachments = resolveAttachments(data.attachments, userId);
+      if (attachments === null) {
+        socket.emit("compare-error", { error: "附件不存在、已过期或无权使用" });
+        return;
+      }
+
+      let comparisonId: string | undefined;
       try {
-        await sendMessage({
-          sessionId: data.sessionId,
+        const comparison = await runComparison({
           prompt: data.prompt,
-          model: data.model,
-          attachments: data.attachments,
-          onDelta: (content) => {
-            socket.emit("message-delta", {
-              sessionId: data.sessionId,
-              content,
-            });
+          models: data.models,
+          attachments,
+          ownerId: userId,
+          clientKey: rateLimitKey(userId, socket.handshake.address),
+          onStart: (id, targets) => {
+            comparisonId = id;
+            socket.emit("compare-start", { comparisonId: id, prompt: data.prompt, targets });
           },
-          onReasoningDelta: (content) => {
-            socket.emit("reasoning-delta", {
-              sessionId: data.sessionId,
-              content,
-            });
+          onDelta: (model, content) => {
+            socket.emit("compare-delta", { comparisonId, model, content });
           },
-          onToolCall: (toolName, args, toolCallId) => {
-            socket.emit("tool-call", {
-              sessionId: data.sessionId,
-              toolName,
-              args,
-              toolCallId,
-            });
+          onToolCall: (model, toolName, args, toolCallId) => {
+            socket.emit("compare-tool-call", { comparisonId, model, toolName, args, toolCallId });
           },
-          onToolResult: (toolName, result, toolCallId) => {
-            socket.emit("tool-result", {
-              sessionId: data.sessionId,
-              toolName,
-              result,
-              toolCallId,
-            });
+          onToolResult: (model, toolName, result, toolCallId) => {
+            socket.emit("compare-tool-result", { comparisonId, model, toolName, result, toolCallId });
           },
-          onComplete: (fullContent) => {
-            socket.emit("message-complete", {
-              sessionId: data.sessionId,
-              content: fullContent,
-            });
-            console.log(`✅ 消息完成: [${data.sessionId}]`);
-          },
-          onError: (error) => {
-            socket.emit("message-error", {
-              sessionId: data.sessionId,
-              error: error.message,
-            });
-            console.error(`❌ 消息错误: [${data.sessionId}]`, error.message);
+          onResult: (result) => {
+            socket.emit("compare-result", { comparisonId, ...result });
           },
         });
+        socket.emit("compare-complete", comparison);
       } catch (error) {
-        console.error(`❌ sendMessage 异常: [${data.sessionId}]`, error);
+        socket.emit("compare-error", {
+          comparisonId,
+          error: error instanceof Error ? error.message : "模型对比失败",
+          code: error instanceof LimitError ? error.code : undefined,
+          retryAfter: error instanceof LimitError ? error.retryAfter : undefined,
+        });
       }
     }
   );
 
+  // 回复工具审批请求
+  socket.on("tool-approval-response", (data: { requestId: string; approved: boolean }) => {
+    const request = getPendingApproval(data.requestId);
+    if (!request || !ownsSession(request.sessionId, userId)) {
+      socket.emit("tool-approval-resolved", {
+        requestId: data.requestId,
+        success: false,
+        error: "审批请求不存在或已过期",
+      });
+      return;
+    }
+    resolveToolApproval(data.requestId, data.approved === true, userId);
+  });
+
   // 中止请求
   socket.on("abort", async (data: { sessionId: string }) => {
     try {
-      await abortSession(data.sessionId);
+      await abortSession(data.sessionId, userId);
       socket.emit("aborted", {
         success: true,
         sessionId: data.sessionId,
@@ -213,7 +702,17 @@ io.on("connection", (socket) => {
   });
 });
 
-// 启动服务器
+// 启动服务器（先恢复上传索引、未完成的分片上传与持久化的会话记录，再加载工具插件）
+await initUploadIndex();
+await initChunkedUploads();
+await initSessionStore();
+startUploadCleanup();
+await initTemplates();
+await initUsageLedger();
+await initSandbox();
+await loadToolPlugins();
+watchToolPlugins();
+
 httpServer.listen(PORT, () => {
   console.log(`
 ╔════════════════════════════════════════════════════════╗
@@ -0,0 +1,119 @@
+import { z } from "zod";
+import type { SystemMessageConfig } from "@github/copilot-sdk";
+import type { SessionSettings } from "./store.js";
+import { resolveAttachments, type Attachment, type AttachmentInput } from "./uploads.js";
+
+/**
+ * 会话配置
+ * 创建会话（create-session、POST /api/sessions）时通过 config 指定，之后可通过
+ * update-session-config 或 PATCH /api/sessions/:id/config 修改；字段设为 null 表示清除
+ * - systemPrompt / persona: 追加到 SDK 的系统提示词中（修改后重建 SDK 会话，历史作为上下文发送）
+ * - tools: 启用的工具（与会话的 tools 字段相同，修改后重建 SDK 会话）
+ * - attachments: 每条消息默认附带的附件（格式与 send-message 的 attachments 相同）
+ * - showReasoning: 为 false 时不向客户端推送、也不保存思考过程
+ * - timeoutMs: 单条消息的超时时间
+ */
+
+export const SESSION_TIMEOUT_MIN = 10 * 1000;
+export const SESSION_TIMEOUT_MAX = 30 * 60 * 1000;
+
+const attachmentInputSchema = z.object({
+  type: z.enum(["file", "directory"]),
+  uploadId: z.string().optional(),
+  workspaceId: z.string().optional(),
+  raw: z.boolean().optional(),
+  path: z.string().optional(),
+  displayName: z.string().optional(),
+});
+
+const sessionConfigSchema = z
+  .object({
+    systemPrompt: z.string().max(8000).nullable(),
+    persona: z.string().max(500).nullable(),
+    tools: z.array(z.string()).nullable(),
+    attachments: z.array(attachmentInputSchema).max(20).nullable(),
+    showReasoning: z.boolean().nullable(),
+    timeoutMs: z.number().int().min(SESSION_TIMEOUT_MIN).max(SESSION_TIMEOUT_MAX).nullable(),
+  })
+  .partial()
+  .strict();
+
+// 客户端提交的配置（附件为上传 ID 等引用）
+export type SessionConfigInput = z.infer<typeof sessionConfigSchema>;
+
+// 附件已解析为服务器路径的配置修改
+export type SessionConfigUpdate = Omit<SessionConfigInput, "attachments"> & {
+  attachments?: Attachment[] | null;
+};
+
+// 返回给客户端的配置（含会话启用的工具）
+export type SessionConfigView = SessionSettings & { tools?: string[] };
+
+/**
+ * 校验客户端提交的会话配置
+ */
+export function parseSessionConfig(data: unknown): SessionConfigInput {
+  const parsed = sessionConfigSchema.safeParse(data ?? {});
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`会话配置格式错误: ${issue.path.join(".") || "(根)"} ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * 解析配置中的默认附件（附件不存在或无权使用时返回 null）
+ */
+export function resolveSessionConfig(
+  input: SessionConfigInput,
+  userId?: string,
+  sessionId?: string
+): SessionConfigUpdate | null {
+  if (!input.attachments) {
+    return input as SessionConfigUpdate;
+  }
+  const attachments = resolveAttachments(input.attachments as AttachmentInput[], userId, sessionId);
+  return attachments ? { ...input, attachments } : null;
+}
+
+/**
+ * 合并配置修改（null 清除字段，undefined 保持不变；tools 由会话记录单独保存）
+ */
+export function mergeSessionConfig(
+  current: SessionSettings | undefined,
+  update: SessionConfigUpdate
+): SessionSettings | undefined {
+  const merged: Record<string, unknown> = { ...current };
+  for (const [key, value] of Object.entries(update)) {
+    if (key === "tools" || value === undefined) continue;
+    if (value === null || value === "" || (Array.isArray(value) && value.length === 0)) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  }
+  return Object.keys(merged).length > 0 ? (merged as SessionSettings) : undefined;
+}
+
+/**
+ * 由角色设定与系统提示词生成追加到 SDK 系统提示词的内容
+ */
+export function buildSystemMessage(config?: SessionSettings): SystemMessageConfig | undefined {
+  const sections = [
+    config?.persona ? `你的角色：${config.persona}` : "",
+    config?.systemPrompt ?? "",
+  ].filter((section) => section.trim().length > 0);
+  return sections.length > 0 ? { mode: "append", content: sections.join("\n\n") } : undefined;
+}
+
+/**
+ * 合并默认附件与本条消息的附件（按路径去重）
+ */
+export function withDefaultAttachments(
+  config: SessionSettings | undefined,
+  attachments: Attachment[] | undefined
+): Attachment[] | undefined {
+  if (!config?.attachments) return attachments;
+  const paths = new Set((attachments || []).map((a) => a.path));
+  return [...config.attachments.filter((a) => !paths.has(a.path)), ...(attachments || [])];
+}
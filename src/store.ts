@@ -0,0 +1,213 @@
+import fs from "fs";
+import path from "path";
+import type { ApprovalLogEntry } from "./approval.js";
+import type { TurnUsage } from "./usage.js";
+
+/**
+ * 会话存储层
+ * 持久化会话元数据与完整消息历史，服务重启后可重新加载
+ *
+ * 环境变量配置：
+ * - SESSION_STORE: 存储类型 ("file" | "memory")，默认 "file"
+ * - SESSION_STORE_DIR: 文件存储目录，默认 "./data/sessions"
+ */
+
+// 会话 ID 格式（会话 ID 同时用作文件与目录名，不允许 "."、".." 与路径分隔符）
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+/**
+ * 判断会话 ID 是否合法（客户端指定的会话 ID 在使用前必须校验）
+ * 会话 ID 也用作对象的键，拒绝 "__proto__"、"constructor" 等 Object.prototype 上的名称
+ */
+export function isValidSessionId(sessionId: unknown): sessionId is string {
+  return typeof sessionId === "string" && SESSION_ID_PATTERN.test(sessionId) && !(sessionId in Object.prototype);
+}
+
+// 工具调用记录
+export interface StoredToolCall {
+  toolCallId: string;
+  toolName: string;
+  args?: unknown;
+  result?: unknown;
+}
+
+// 单条消息记录
+export interface StoredMessage {
+  /** 消息 ID（会话内唯一，旧数据加载时补齐） */
+  id?: string;
+  /** 上一条消息的 ID（首条消息为空），用于构成消息树 */
+  parentId?: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: number;
+  model?: string;
+  reasoning?: string;
+  toolCalls?: StoredToolCall[];
+  /** 本轮用量（仅助手消息） */
+  usage?: TurnUsage;
+  attachments?: Array<{
+    type: "file" | "directory";
+    path: string;
+    displayName?: string;
+  }>;
+}
+
+// 会话配置（创建会话时指定，之后可通过 update-session-config 修改）
+export interface SessionSettings {
+  /** 追加到系统提示词中的指令 */
+  systemPrompt?: string;
+  /** 角色设定，例如“严谨的代码审查员” */
+  persona?: string;
+  /** 每条消息默认附带的附件 */
+  attachments?: StoredMessage["attachments"];
+  /** 是否向客户端展示思考过程（默认展示） */
+  showReasoning?: boolean;
+  /** 单条消息的超时时间（毫秒），覆盖默认的 5 分钟 */
+  timeoutMs?: number;
+}
+
+// 会话记录
+export interface SessionRecord {
+  sessionId: string;
+  /** 所属用户 ID（未启用认证时为空） */
+  ownerId?: string;
+  model?: string;
+  title?: string;
+  /** 会话启用的工具名（未设置时使用默认工具集） */
+  tools?: string[];
+  /** 会话配置（系统提示词、角色、默认附件等） */
+  config?: SessionSettings;
+  /** 工具审批记录 */
+  approvals?: ApprovalLogEntry[];
+  /** 导入来源的会话 ID */
+  importedFrom?: string;
+  /** 分叉来源的会话 ID（切换模型时创建） */
+  forkedFrom?: string;
+  /** 所属的模型对比 ID（对比模式创建的会话） */
+  comparisonId?: string;
+  /** 模型切换记录 */
+  modelSwitches?: Array<{ from?: string; to: string; at: number }>;
+  /** 本地历史尚未发送给模型（导入、切换模型或分支后，下一条消息会附带历史上下文） */
+  pendingContext?: boolean;
+  createdAt: number;
+  updatedAt: number;
+  /** 当前分支上的消息（从根到最新一条） */
+  messages: StoredMessage[];
+  /** 其他分支上的消息（编辑或重新生成时被替换下来的），与 messages 一起构成消息树 */
+  inactiveMessages?: StoredMessage[];
+}
+
+/**
+ * 存储后端接口
+ * 实现此接口即可替换默认的文件存储
+ */
+export interface SessionStore {
+  /** 加载全部会话记录（启动时调用） */
+  loadAll(): Promise<SessionRecord[]>;
+  /** 保存（覆盖）单个会话记录 */
+  save(record: SessionRecord): Promise<void>;
+  /** 删除会话记录 */
+  remove(sessionId: string): Promise<void>;
+}
+
+/**
+ * 内存存储（不持久化，主要用于调试）
+ */
+export class MemorySessionStore implements SessionStore {
+  private records = new Map<string, SessionRecord>();
+
+  async loadAll(): Promise<SessionRecord[]> {
+    return Array.from(this.records.values());
+  }
+
+  async save(record: SessionRecord): Promise<void> {
+    this.records.set(record.sessionId, structuredClone(record));
+  }
+
+  async remove(sessionId: string): Promise<void> {
+    this.records.delete(sessionId);
+  }
+}
+
+/**
+ * JSON 文件存储
+ * 每个会话对应目录下的一个 JSON 文件
+ */
+export class FileSessionStore implements SessionStore {
+  // 按会话串行化写入，避免并发写导致文件损坏
+  private writeQueues = new Map<string, Promise<void>>();
+
+  constructor(private readonly dir: string) {
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  private fileFor(sessionId: string): string {
+    // 会话 ID 可能包含任意字符，编码后作为文件名
+    return path.join(this.dir, `${encodeURIComponent(sessionId)}.json`);
+  }
+
+  private enqueue(sessionId: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.writeQueues.get(sessionId) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.writeQueues.set(sessionId, next);
+    void next.finally(() => {
+      if (this.writeQueues.get(sessionId) === next) {
+        this.writeQueues.delete(sessionId);
+      }
+    });
+    return next;
+  }
+
+  async loadAll(): Promise<SessionRecord[]> {
+    const records: SessionRecord[] = [];
+    const files = await fs.promises.readdir(this.dir);
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        const raw = await fs.promises.readFile(path.join(this.dir, file), "utf-8");
+        const record = JSON.parse(raw) as SessionRecord;
+        if (record && typeof record.sessionId === "string" && Array.isArray(record.messages)) {
+          records.push(record);
+        }
+      } catch (e) {
+        console.error(`⚠️ 无法读取会话文件: ${file}`, e);
+      }
+    }
+    return records;
+  }
+
+  save(record: SessionRecord): Promise<void> {
+    const file = this.fileFor(record.sessionId);
+    const data = JSON.stringify(record, null, 2);
+    return this.enqueue(record.sessionId, async () => {
+      // 先写临时文件再重命名，保证写入原子性
+      const tmp = `${file}.tmp`;
+      await fs.promises.writeFile(tmp, data, "utf-8");
+      await fs.promises.rename(tmp, file);
+    });
+  }
+
+  remove(sessionId: string): Promise<void> {
+    const file = this.fileFor(sessionId);
+    return this.enqueue(sessionId, async () => {
+      await fs.promises.rm(file, { force: true });
+    });
+  }
+}
+
+/**
+ * 根据环境变量创建存储实例
+ */
+export function createSessionStore(): SessionStore {
+  const type = process.env.SESSION_STORE || "file";
+  if (type === "memory") {
+    console.log("💾 会话存储: 内存（重启后丢失）");
+    return new MemorySessionStore();
+  }
+
+  const dir = process.env.SESSION_STORE_DIR || path.join(process.cwd(), "data", "sessions");
+  console.log(`💾 会话存储: 文件 (${dir})`);
+  return new FileSessionStore(dir);
+}
@@ -0,0 +1,306 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { isAdmin } from "./auth.js";
+
+/**
+ * 提示词模板
+ * 模板内容中的 {{变量}} 在使用时替换为参数，{{变量|默认值}} 可省略该参数
+ * 内置模板不可修改；用户创建的模板对所有用户可见，只能由创建者或管理员修改和删除
+ * 在输入框中以 /模板名 参数... 的形式使用（见 commands.ts）
+ *
+ * 环境变量配置：
+ * - TEMPLATES_FILE: 用户模板文件，默认 "./data/templates.json"（SESSION_STORE=memory 时不持久化）
+ */
+
+export interface PromptTemplate {
+  /** 模板名（即斜杠命令名） */
+  name: string;
+  description: string;
+  /** 模板内容 */
+  content: string;
+  /** 创建者（未启用认证时为空） */
+  ownerId?: string;
+  builtin?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// 模板变量（按在模板中首次出现的顺序）
+export interface TemplateVariable {
+  name: string;
+  default?: string;
+}
+
+// 模板操作失败（status 为建议的 HTTP 状态码）
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+// 内置模板
+const BUILTIN_TEMPLATES: PromptTemplate[] = [
+  {
+    name: "review",
+    description: "审查代码或 diff",
+    content:
+      "请审查 {{target}}，指出其中的缺陷、未处理的边界情况、安全与性能问题，按严重程度排序并给出具体的修改建议。{{focus|}}",
+  },
+  {
+    name: "summarize",
+    description: "总结日志或长文本",
+    content: "请总结以下内容的要点，列出关键事件、错误及需要跟进的事项：\n\n{{text}}",
+  },
+  {
+    name: "explain",
+    description: "解释代码的作用与实现思路",
+    content: "请解释 {{target}} 的作用和实现思路，面向{{audience|刚接触这段代码的开发者}}。",
+  },
+  {
+    name: "translate",
+    description: "翻译文本（/translate 目标语言 文本）",
+    content: "请将以下内容翻译为{{language}}，保留原有格式，只输出译文：\n\n{{text}}",
+  },
+].map((template) => ({ ...template, builtin: true, createdAt: 0, updatedAt: 0 }));
+
+// 保留给内置斜杠命令的名称
+const RESERVED_NAMES = new Set(["help", "model", "clear"]);
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_][\w-]*)\s*(?:\|([^}]*))?\}\}/g;
+
+const templateSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[a-z][a-z0-9_-]{0,31}$/, "应以小写字母开头，只包含小写字母、数字、_ 和 -，最长 32 个字符"),
+  description: z.string().max(200).default(""),
+  content: z.string().min(1).max(20000),
+});
+
+export type TemplateInput = z.input<typeof templateSchema>;
+
+let userTemplates = new Map<string, PromptTemplate>();
+let templatesFile: string | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * 加载用户模板
+ * 应在服务启动时调用一次
+ */
+export async function initTemplates(): Promise<void> {
+  if (process.env.SESSION_STORE === "memory") {
+    templatesFile = null;
+    return;
+  }
+
+  templatesFile = process.env.TEMPLATES_FILE || path.join(process.cwd(), "data", "templates.json");
+  try {
+    const data = JSON.parse(await fs.promises.readFile(templatesFile, "utf-8")) as PromptTemplate[];
+    userTemplates = new Map(data.map((template) => [template.name, template]));
+    console.log(`📝 已加载 ${userTemplates.size} 个提示词模板`);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`⚠️ 无法读取提示词模板文件: ${templatesFile}`, e);
+    }
+  }
+}
+
+/**
+ * 延迟合并写入（先写临时文件再重命名）
+ */
+function scheduleSave() {
+  if (!templatesFile || saveTimer) return;
+  const file = templatesFile;
+  saveTimer = setTimeout(async () => {
+    saveTimer = null;
+    try {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      const tmp = `${file}.tmp`;
+      await fs.promises.writeFile(tmp, JSON.stringify(Array.from(userTemplates.values()), null, 2), "utf-8");
+      await fs.promises.rename(tmp, file);
+    } catch (e) {
+      console.error("⚠️ 提示词模板持久化失败", e);
+    }
+  }, 1000);
+  saveTimer.unref();
+}
+
+/**
+ * 提取模板中的变量
+ */
+export function templateVariables(content: string): TemplateVariable[] {
+  const variables = new Map<string, TemplateVariable>();
+  for (const match of content.matchAll(VARIABLE_PATTERN)) {
+    if (!variables.has(match[1])) {
+      variables.set(match[1], { name: match[1], default: match[2]?.trim() });
+    }
+  }
+  return Array.from(variables.values());
+}
+
+/**
+ * 获取模板（内置模板优先）
+ */
+export function getTemplate(name: string): PromptTemplate | undefined {
+  return BUILTIN_TEMPLATES.find((template) => template.name === name) ?? userTemplates.get(name);
+}
+
+/**
+ * 列出所有模板（含变量）
+ */
+export function listTemplates(): Array<PromptTemplate & { variables: TemplateVariable[] }> {
+  return [...BUILTIN_TEMPLATES, ...Array.from(userTemplates.values()).sort((a, b) => a.name.localeCompare(b.name))].map(
+    (template) => ({ ...template, variables: templateVariables(template.content) })
+  );
+}
+
+/**
+ * 校验模板参数
+ */
+function parseTemplateInput(data: unknown): z.infer<typeof templateSchema> {
+  const parsed = templateSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new TemplateError(`模板格式错误: ${issue.path.join(".") || "(根)"} ${issue.message}`, 400);
+  }
+  return parsed.data;
+}
+
+/**
+ * 获取可由该用户修改的模板（内置模板、他人的模板不可修改）
+ */
+function requireEditable(name: string, ownerId?: string): PromptTemplate {
+  const template = getTemplate(name);
+  if (!template) {
+    throw new TemplateError("模板不存在", 404);
+  }
+  if (template.builtin) {
+    throw new TemplateError("内置模板不可修改", 403);
+  }
+  if (template.ownerId !== ownerId && !isAdmin(ownerId)) {
+    throw new TemplateError("只能修改自己创建的模板", 403);
+  }
+  return template;
+}
+
+/**
+ * 创建模板
+ */
+export function createTemplate(data: unknown, ownerId?: string): PromptTemplate {
+  const input = parseTemplateInput(data);
+  if (RESERVED_NAMES.has(input.name)) {
+    throw new TemplateError(`/${input.name} 是内置命令，不能用作模板名`, 409);
+  }
+  if (getTemplate(input.name)) {
+    throw new TemplateError(`模板 ${input.name} 已存在`, 409);
+  }
+
+  const now = Date.now();
+  const template: PromptTemplate = { ...input, ownerId, createdAt: now, updatedAt: now };
+  userTemplates.set(template.name, template);
+  scheduleSave();
+  console.log(`📝 创建提示词模板: ${template.name}`);
+  return template;
+}
+
+/**
+ * 修改模板的描述或内容
+ */
+export function updateTemplate(name: string, data: unknown, ownerId?: string): PromptTemplate {
+  const template = requireEditable(name, ownerId);
+  const input = parseTemplateInput({ ...template, ...(data as object), name });
+  template.description = input.description;
+  template.content = input.content;
+  template.updatedAt = Date.now();
+  scheduleSave();
+  return template;
+}
+
+/**
+ * 删除模板
+ */
+export function deleteTemplate(name: string, ownerId?: string): void {
+  requireEditable(name, ownerId);
+  userTemplates.delete(name);
+  scheduleSave();
+  console.log(`🗑️ 删除提示词模板: ${name}`);
+}
+
+/**
+ * 将参数文本拆分为参数（支持引号），记录每个参数在原文中的起始位置
+ */
+function tokenize(args: string): Array<{ value: string; start: number }> {
+  const tokens: Array<{ value: string; start: number }> = [];
+  const pattern = /([a-zA-Z_][\w-]*=)?(?:"((?:[^"\\]|\\.)*)"|'([^']*)'|(\S+))/g;
+  for (const match of args.matchAll(pattern)) {
+    const value = match[2]?.replace(/\\(.)/g, "$1") ?? match[3] ?? match[4];
+    tokens.push({ value: (match[1] ?? "") + value, start: match.index ?? 0 });
+  }
+  return tokens;
+}
+
+/**
+ * 将斜杠命令的参数绑定到模板变量
+ * - 变量名=值 的参数按名称绑定
+ * - 其余参数按顺序绑定到尚未赋值的变量，最后一个变量取剩余的全部文本（保留换行）
+ */
+export function bindTemplateArguments(template: PromptTemplate, args: string): Record<string, string> {
+  const variables = templateVariables(template.content);
+  const names = new Set(variables.map((variable) => variable.name));
+  // 无原型的对象，避免 constructor、toString 等变量名取到 Object.prototype 上的属性
+  const values: Record<string, string> = Object.create(null);
+  const positional: Array<{ value: string; start: number }> = [];
+
+  for (const token of tokenize(args)) {
+    const named = /^([a-zA-Z_][\w-]*)=([\s\S]*)$/.exec(token.value);
+    if (named && names.has(named[1]) && !Object.hasOwn(values, named[1])) {
+      values[named[1]] = named[2];
+    } else {
+      positional.push(token);
+    }
+  }
+
+  const unbound = variables.filter((variable) => !Object.hasOwn(values, variable.name));
+  unbound.forEach((variable, i) => {
+    if (i >= positional.length) return;
+    values[variable.name] =
+      i === unbound.length - 1 && positional.length > unbound.length
+        ? args.slice(positional[i].start).trim()
+        : positional[i].value;
+  });
+  return values;
+}
+
+/**
+ * 模板的用法说明，例如 "/translate <language> <text>"（[] 为可省略的参数）
+ */
+export function templateUsage(template: PromptTemplate): string {
+  const variables = templateVariables(template.content).map((variable) =>
+    variable.default === undefined ? `<${variable.name}>` : `[${variable.name}]`
+  );
+  return [`/${template.name}`, ...variables].join(" ");
+}
+
+/**
+ * 用参数渲染模板，缺少没有默认值的变量时抛出 TemplateError
+ */
+export function renderTemplate(template: PromptTemplate, values: Record<string, string>): string {
+  // 只取自身属性（values 可能来自客户端提交的普通对象）
+  const valueOf = (name: string) => (Object.hasOwn(values, name) ? values[name] : undefined);
+  const missing = templateVariables(template.content).filter(
+    (variable) => !valueOf(variable.name) && variable.default === undefined
+  );
+  if (missing.length > 0) {
+    throw new TemplateError(
+      `缺少参数: ${missing.map((variable) => variable.name).join(", ")}（用法: ${templateUsage(template)}）`,
+      400
+    );
+  }
+  return template.content
+    .replace(VARIABLE_PATTERN, (_match, name: string, fallback?: string) => valueOf(name) || fallback?.trim() || "")
+    .trim();
+}
@@ -0,0 +1,699 @@
+import crypto from "crypto";
+import vm from "vm";
+import YAML from "yaml";
+import { z } from "zod";
+
+/**
+ * 文本处理工具集（process_text 工具）
+ * 每种操作有各自的参数 schema，按 operation 区分：
+ * - count / segment: 字数统计与分词（基于 Intl.Segmenter，中日文按词切分，另统计汉字数）
+ * - uppercase / lowercase / reverse: 大小写转换、按字形反转
+ * - find / replace: 正则查找与替换（支持捕获组，在独立上下文中执行并限制执行时间）
+ * - diff: 两段文本的逐行差异（统一 diff 格式）
+ * - validate / format: JSON、YAML、CSV 校验与格式化
+ * - encode / decode: base64、base64url、URL、hex 编解码
+ * - hash: md5、sha1、sha256、sha512 摘要
+ * - detect_language: 按文字系统与常用词识别语言
+ */
+
+export type TextToolErrorCode =
+  | "INVALID_ARGUMENT"
+  | "INVALID_PATTERN"
+  | "REGEX_TIMEOUT"
+  | "PARSE_ERROR"
+  | "DECODE_ERROR"
+  | "INPUT_TOO_LARGE";
+
+/**
+ * 文本处理错误（line / column 为解析出错的位置，从 1 开始）
+ */
+export class TextToolError extends Error {
+  constructor(
+    public readonly code: TextToolErrorCode,
+    message: string,
+    public readonly line?: number,
+    public readonly column?: number
+  ) {
+    super(message);
+    this.name = "TextToolError";
+  }
+}
+
+const MAX_TEXT_LENGTH = 500_000;
+const MAX_SEGMENTS = 5000;
+const MAX_TABLE_ROWS = 500;
+// diff 的逐行比较矩阵大小上限（行数乘积）
+const MAX_DIFF_CELLS = 4_000_000;
+const REGEX_TIMEOUT = 1000;
+
+// ===== 参数 =====
+
+const text = z.string().max(MAX_TEXT_LENGTH).describe("要处理的文本内容");
+const locale = z.string().optional().describe("分词使用的语言，例如 'zh'、'ja'、'en'，默认 'zh'");
+const pattern = z.string().min(1).max(1000).describe("JavaScript 正则表达式（不含两侧的 /）");
+const flags = z
+  .string()
+  .regex(/^[imsuy]*$/, "只支持 i、m、s、u、y")
+  .optional()
+  .describe("正则标志，例如 'i'（忽略大小写）、'm'（多行）、's'（. 匹配换行）");
+const structuredFormat = z.enum(["json", "yaml", "csv"]).describe("数据格式");
+
+export const textToolSchema = z.discriminatedUnion("operation", [
+  z.object({
+    operation: z.literal("count").describe("统计字符、词、汉字、句子、行与段落数"),
+    text,
+    locale,
+  }),
+  z.object({
+    operation: z.literal("segment").describe("分词，返回词语列表"),
+    text,
+    locale,
+  }),
+  z.object({
+    operation: z.enum(["uppercase", "lowercase", "reverse"]).describe("大写、小写、反转"),
+    text,
+  }),
+  z.object({
+    operation: z.literal("find").describe("正则查找，返回匹配内容、位置与捕获组"),
+    text,
+    pattern,
+    flags,
+    limit: z.number().int().min(1).max(1000).optional().describe("最多返回的匹配数，默认 100"),
+  }),
+  z.object({
+    operation: z.literal("replace").describe("正则替换"),
+    text,
+    pattern,
+    flags,
+    replacement: z.string().describe("替换内容，可用 $1、$<name> 引用捕获组，$& 引用整个匹配"),
+    all: z.boolean().optional().describe("是否替换全部匹配，默认 true"),
+  }),
+  z.object({
+    operation: z.literal("diff").describe("逐行比较 text 与 other"),
+    text,
+    other: z.string().max(MAX_TEXT_LENGTH).describe("与 text 比较的文本"),
+    context: z.number().int().min(0).max(20).optional().describe("差异前后保留的上下文行数，默认 3"),
+  }),
+  z.object({
+    operation: z.enum(["validate", "format"]).describe("校验格式，或校验后格式化输出（CSV 输出为 Markdown 表格）"),
+    text,
+    format: structuredFormat,
+    indent: z.number().int().min(0).max(8).optional().describe("JSON / YAML 的缩进空格数，默认 2"),
+    delimiter: z.string().length(1).optional().describe("CSV 分隔符，默认自动识别"),
+  }),
+  z.object({
+    operation: z.enum(["encode", "decode"]).describe("编码或解码"),
+    text,
+    encoding: z.enum(["base64", "base64url", "url", "hex"]).describe("编码方式"),
+  }),
+  z.object({
+    operation: z.literal("hash").describe("计算 UTF-8 文本的摘要"),
+    text,
+    algorithm: z.enum(["md5", "sha1", "sha256", "sha512"]).optional().describe("摘要算法，默认 sha256"),
+    digest: z.enum(["hex", "base64"]).optional().describe("输出格式，默认 hex"),
+  }),
+  z.object({
+    operation: z.literal("detect_language").describe("识别文本的语言"),
+    text,
+  }),
+]);
+
+export type TextToolInput = z.infer<typeof textToolSchema>;
+
+// ===== 统计与分词 =====
+
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+function segments(value: string, granularity: "grapheme" | "word" | "sentence", lang = "zh") {
+  return new Intl.Segmenter(lang, { granularity }).segment(value);
+}
+
+function countText(value: string, lang?: string) {
+  let words = 0;
+  let nonCjkWords = 0;
+  for (const segment of segments(value, "word", lang)) {
+    if (!segment.isWordLike) continue;
+    words++;
+    if (!CJK_PATTERN.test(segment.segment)) nonCjkWords++;
+  }
+  const cjkCharacters = value.match(new RegExp(CJK_PATTERN.source, "gu"))?.length ?? 0;
+  let characters = 0;
+  for (const _ of segments(value, "grapheme")) characters++;
+  let sentences = 0;
+  for (const segment of segments(value, "sentence", lang)) {
+    if (segment.segment.trim()) sentences++;
+  }
+
+  return {
+    characters,
+    charactersNoSpaces: value.replace(/\s/g, "").length,
+    words,
+    cjkCharacters,
+    nonCjkWords,
+    // 中文排版习惯的字数：每个汉字（含假名、谚文）计 1，其他语言按词计
+    wordCount: cjkCharacters + nonCjkWords,
+    sentences,
+    lines: value.split("\n").length,
+    paragraphs: value.split(/\n\s*\n/).filter((p) => p.trim()).length,
+  };
+}
+
+function segmentText(value: string, lang?: string) {
+  const words: string[] = [];
+  let truncated = false;
+  for (const segment of segments(value, "word", lang)) {
+    if (!segment.isWordLike) continue;
+    if (words.length >= MAX_SEGMENTS) {
+      truncated = true;
+      break;
+    }
+    words.push(segment.segment);
+  }
+  return { words, count: words.length, truncated };
+}
+
+// ===== 正则 =====
+
+function compilePattern(source: string, flags = "", global = true): RegExp {
+  try {
+    return new RegExp(source, global ? `${flags}g` : flags);
+  } catch (error) {
+    throw new TextToolError("INVALID_PATTERN", `正则表达式无效: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * 在独立上下文中执行正则，超时后中断（防止灾难性回溯阻塞服务）
+ */
+function runRegex<T>(code: string, context: Record<string, unknown>): T {
+  try {
+    return vm.runInNewContext(code, context, { timeout: REGEX_TIMEOUT }) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+      throw new TextToolError("REGEX_TIMEOUT", `正则表达式执行超过 ${REGEX_TIMEOUT}ms，请简化表达式`);
+    }
+    throw error;
+  }
+}
+
+interface RegexMatch {
+  match: string;
+  index: number;
+  groups: Array<string | null>;
+  namedGroups?: Record<string, string | null>;
+}
+
+function findMatches(value: string, source: string, flags?: string, limit = 100) {
+  const re = compilePattern(source, flags);
+  const result = runRegex<{ matches: RegexMatch[]; total: number }>(
+    `const matches = [];
+    let total = 0;
+    for (const m of text.matchAll(re)) {
+      total++;
+      if (matches.length < limit) {
+        matches.push({
+          match: m[0],
+          index: m.index,
+          groups: m.slice(1).map((g) => g ?? null),
+          namedGroups: m.groups && Object.fromEntries(Object.entries(m.groups).map(([k, v]) => [k, v ?? null])),
+        });
+      }
+    }
+    ({ matches, total });`,
+    { text: value, re, limit }
+  );
+  // 转换为当前上下文的普通对象
+  const matches = JSON.parse(JSON.stringify(result.matches)) as RegexMatch[];
+  return { matches, total: result.total, truncated: result.total > matches.length };
+}
+
+function replaceText(value: string, source: string, replacement: string, flags?: string, all = true) {
+  const re = compilePattern(source, flags, all);
+  return runRegex<{ result: string; replacements: number }>(
+    `const replacements = all ? Array.from(text.matchAll(re)).length : Number(re.test(text));
+    re.lastIndex = 0;
+    ({ result: text.replace(re, replacement), replacements });`,
+    { text: value, re, replacement, all }
+  );
+}
+
+// ===== diff =====
+
+type DiffOp = { type: " " | "-" | "+"; line: string };
+
+/**
+ * 基于最长公共子序列的逐行比较（先去掉相同的首尾行）
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_DIFF_CELLS) {
+    throw new TextToolError("INPUT_TOO_LARGE", `差异部分过大（${n} 行 × ${m} 行），请缩小比较范围`);
+  }
+
+  // lcs[i][j]: a[start+i..endA) 与 b[start+j..endB) 的最长公共子序列长度
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[start + i] === b[start + j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map((line) => ({ type: " ", line }));
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      ops.push({ type: " ", line: a[start + i] });
+      i++;
+      j++;
+    } else if (i < n && (j === m || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      ops.push({ type: "-", line: a[start + i++] });
+    } else {
+      ops.push({ type: "+", line: b[start + j++] });
+    }
+  }
+  ops.push(...a.slice(endA).map((line) => ({ type: " " as const, line })));
+  return ops;
+}
+
+function diffTexts(before: string, after: string, context = 3) {
+  const ops = diffLines(before.split("\n"), after.split("\n"));
+  const changed = ops.flatMap((op, index) => (op.type === " " ? [] : [index]));
+  const added = ops.filter((op) => op.type === "+").length;
+  const removed = ops.filter((op) => op.type === "-").length;
+  if (changed.length === 0) {
+    return { identical: true, added, removed, diff: "" };
+  }
+
+  // 合并上下文相互重叠的变更为 hunk
+  const hunks: Array<[number, number]> = [];
+  for (const index of changed) {
+    const from = Math.max(0, index - context);
+    const to = Math.min(ops.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && from <= last[1]) {
+      last[1] = to;
+    } else {
+      hunks.push([from, to]);
+    }
+  }
+
+  const lines = ["--- text", "+++ other"];
+  for (const [from, to] of hunks) {
+    const before = ops.slice(0, from);
+    const oldStart = before.filter((op) => op.type !== "+").length + 1;
+    const newStart = before.filter((op) => op.type !== "-").length + 1;
+    const hunk = ops.slice(from, to);
+    const oldCount = hunk.filter((op) => op.type !== "+").length;
+    const newCount = hunk.filter((op) => op.type !== "-").length;
+    lines.push(`@@ -${oldCount ? oldStart : oldStart - 1},${oldCount} +${newCount ? newStart : newStart - 1},${newCount} @@`);
+    lines.push(...hunk.map((op) => op.type + op.line));
+  }
+  return { identical: false, added, removed, diff: lines.join("\n") };
+}
+
+// ===== JSON / YAML / CSV =====
+
+const CSV_DELIMITERS = [",", ";", "\t", "|"];
+
+/**
+ * 识别 CSV 分隔符（首行中出现次数最多的候选分隔符）
+ */
+function detectDelimiter(value: string): string {
+  const firstLine = value.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, "");
+  let best = ",";
+  let bestCount = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * 按 RFC 4180 解析 CSV（引号内可包含分隔符与换行，"" 表示引号）
+ */
+function parseCsv(value: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let quoteLine = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (quoted) {
+      if (ch === '"' && value[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === "\n") line++;
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+      quoteLine = line;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && value[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+      line++;
+    } else if (ch === '"') {
+      throw new TextToolError("PARSE_ERROR", `第 ${line} 行: 未加引号的字段中出现引号`, line);
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) {
+    throw new TextToolError("PARSE_ERROR", `第 ${quoteLine} 行: 引号未闭合`, quoteLine);
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function parseStructured(value: string, format: "json" | "yaml" | "csv", delimiter?: string) {
+  switch (format) {
+    case "json":
+      try {
+        return { data: JSON.parse(value) };
+      } catch (error) {
+        throw new TextToolError("PARSE_ERROR", `JSON 格式错误: ${(error as Error).message}`);
+      }
+    case "yaml": {
+      const document = YAML.parseDocument(value, { prettyErrors: true });
+      const error = document.errors[0];
+      if (error) {
+        const position = error.linePos?.[0];
+        throw new TextToolError(
+          "PARSE_ERROR",
+          `YAML 格式错误: ${error.message.split("\n")[0]}`,
+          position?.line,
+          position?.col
+        );
+      }
+      return { data: document.toJS(), document };
+    }
+    case "csv": {
+      const sep = delimiter ?? detectDelimiter(value);
+      const rows = parseCsv(value, sep);
+      if (rows.length === 0) {
+        throw new TextToolError("PARSE_ERROR", "CSV 内容为空");
+      }
+      const columns = rows[0].length;
+      const bad = rows.findIndex((row) => row.length !== columns);
+      if (bad !== -1) {
+        throw new TextToolError(
+          "PARSE_ERROR",
+          `第 ${bad + 1} 条记录有 ${rows[bad].length} 列，表头有 ${columns} 列`,
+          bad + 1
+        );
+      }
+      return { data: rows, delimiter: sep };
+    }
+  }
+}
+
+function describeStructured(format: "json" | "yaml" | "csv", data: unknown) {
+  if (format === "csv") {
+    const rows = data as string[][];
+    return { rows: rows.length - 1, columns: rows[0].length };
+  }
+  return { type: Array.isArray(data) ? "array" : data === null ? "null" : typeof data };
+}
+
+function validateStructured(value: string, format: "json" | "yaml" | "csv", delimiter?: string) {
+  try {
+    const parsed = parseStructured(value, format, delimiter);
+    return {
+      valid: true,
+      format,
+      ...describeStructured(format, parsed.data),
+      ...(parsed.delimiter ? { delimiter: parsed.delimiter } : {}),
+    };
+  } catch (error) {
+    if (!(error instanceof TextToolError)) throw error;
+    return { valid: false, format, error: error.message, line: error.line, column: error.column };
+  }
+}
+
+function formatStructured(value: string, format: "json" | "yaml" | "csv", indent = 2, delimiter?: string) {
+  const parsed = parseStructured(value, format, delimiter);
+  switch (format) {
+    case "json":
+      return { format, result: JSON.stringify(parsed.data, null, indent) };
+    case "yaml": {
+      // 将 { } / [ ] 形式的集合展开为块格式（保留注释）
+      YAML.visit(parsed.document!, {
+        Collection(_key, node) {
+          node.flow = false;
+        },
+      });
+      return { format, result: parsed.document!.toString({ indent: Math.max(indent, 1) }) };
+    }
+    case "csv": {
+      const rows = parsed.data as string[][];
+      const cell = (v: string) => v.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+      const body = rows.slice(1, MAX_TABLE_ROWS + 1);
+      const table = [
+        `| ${rows[0].map(cell).join(" | ")} |`,
+        `| ${rows[0].map(() => "---").join(" | ")} |`,
+        ...body.map((row) => `| ${row.map(cell).join(" | ")} |`),
+      ];
+      return {
+        format,
+        result: table.join("\n"),
+        rows: rows.length - 1,
+        columns: rows[0].length,
+        delimiter: parsed.delimiter,
+        truncated: rows.length - 1 > body.length,
+      };
+    }
+  }
+}
+
+// ===== 编解码与摘要 =====
+
+type TextEncoding = "base64" | "base64url" | "url" | "hex";
+
+function encodeText(value: string, encoding: TextEncoding): string {
+  switch (encoding) {
+    case "url":
+      return encodeURIComponent(value);
+    default:
+      return Buffer.from(value, "utf-8").toString(encoding);
+  }
+}
+
+function decodeText(value: string, encoding: TextEncoding): string {
+  if (encoding === "url") {
+    try {
+      return decodeURIComponent(value.replace(/\+/g, " "));
+    } catch {
+      throw new TextToolError("DECODE_ERROR", "URL 编码格式错误");
+    }
+  }
+
+  const compact = value.replace(/\s/g, "");
+  const valid = {
+    base64: /^[A-Za-z0-9+/]*={0,2}$/.test(compact) && compact.length % 4 !== 1,
+    base64url: /^[A-Za-z0-9_-]*={0,2}$/.test(compact) && compact.length % 4 !== 1,
+    hex: /^[0-9a-fA-F]*$/.test(compact) && compact.length % 2 === 0,
+  }[encoding];
+  if (!valid) {
+    throw new TextToolError("DECODE_ERROR", `不是有效的 ${encoding} 编码`);
+  }
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(Buffer.from(compact, encoding));
+  } catch {
+    throw new TextToolError("DECODE_ERROR", "解码结果不是有效的 UTF-8 文本");
+  }
+}
+
+// ===== 语言识别 =====
+
+const SCRIPTS: Array<[string, RegExp]> = [
+  ["Han", /\p{Script=Han}/u],
+  ["Kana", /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+  ["Hangul", /\p{Script=Hangul}/u],
+  ["Latin", /\p{Script=Latin}/u],
+  ["Cyrillic", /\p{Script=Cyrillic}/u],
+  ["Arabic", /\p{Script=Arabic}/u],
+  ["Devanagari", /\p{Script=Devanagari}/u],
+  ["Thai", /\p{Script=Thai}/u],
+  ["Greek", /\p{Script=Greek}/u],
+  ["Hebrew", /\p{Script=Hebrew}/u],
+];
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  "zh-Hans": "中文（简体）",
+  "zh-Hant": "中文（繁体）",
+  ja: "日语",
+  ko: "韩语",
+  en: "英语",
+  fr: "法语",
+  de: "德语",
+  es: "西班牙语",
+  pt: "葡萄牙语",
+  it: "意大利语",
+  nl: "荷兰语",
+  ru: "俄语",
+  uk: "乌克兰语",
+  ar: "阿拉伯语",
+  hi: "印地语",
+  th: "泰语",
+  el: "希腊语",
+  he: "希伯来语",
+  und: "未知",
+};
+
+// 拉丁字母语言的常用词
+const STOPWORDS: Record<string, string[]> = {
+  en: ["the", "and", "is", "are", "of", "to", "in", "that", "it", "with", "for", "this", "you", "not", "be"],
+  fr: ["le", "la", "les", "et", "est", "des", "une", "un", "que", "dans", "pour", "pas", "du", "sur", "avec"],
+  de: ["der", "die", "das", "und", "ist", "nicht", "ein", "eine", "mit", "den", "zu", "ich", "sie", "auf", "für"],
+  es: ["el", "la", "los", "las", "y", "es", "de", "que", "en", "un", "una", "por", "para", "con", "no"],
+  pt: ["o", "a", "os", "as", "e", "é", "de", "que", "em", "um", "uma", "para", "com", "não", "do"],
+  it: ["il", "lo", "la", "gli", "e", "è", "di", "che", "in", "un", "una", "per", "con", "non", "del"],
+  nl: ["de", "het", "een", "en", "is", "van", "dat", "niet", "op", "met", "voor", "zijn", "ik", "te", "die"],
+};
+
+// 简繁体中字形不同的常用字
+const SIMPLIFIED = "们这说时来为国会对发经过还没后种样门问间东车长开关见现让认话语请读写学习书图";
+const TRADITIONAL = "們這說時來為國會對發經過還沒後種樣門問間東車長開關見現讓認話語請讀寫學習書圖";
+
+function detectLanguage(value: string) {
+  const counts: Record<string, number> = {};
+  let letters = 0;
+  for (const ch of value) {
+    const script = SCRIPTS.find(([, re]) => re.test(ch));
+    if (!script) continue;
+    counts[script[0]] = (counts[script[0]] ?? 0) + 1;
+    letters++;
+  }
+  if (letters === 0) {
+    return { language: "und", name: LANGUAGE_NAMES.und, confidence: 0, scripts: {} };
+  }
+
+  const scripts = Object.fromEntries(
+    Object.entries(counts)
+      .sort((a, b) => b[1] - a[1])
+      .map(([script, count]) => [script, Math.round((count / letters) * 100) / 100])
+  );
+  const [dominant, dominantCount] = Object.entries(counts).sort((a, b) => b[1] - a[1])[0];
+  let language: string;
+  let confidence = dominantCount / letters;
+
+  const kana = counts.Kana ?? 0;
+  const han = counts.Han ?? 0;
+  if (kana > 0 && kana / (kana + han) >= 0.1 && (dominant === "Han" || dominant === "Kana")) {
+    language = "ja";
+    confidence = (kana + han) / letters;
+  } else if (dominant === "Han") {
+    const simplified = [...value].filter((ch) => SIMPLIFIED.includes(ch)).length;
+    const traditional = [...value].filter((ch) => TRADITIONAL.includes(ch)).length;
+    language = traditional > simplified ? "zh-Hant" : "zh-Hans";
+  } else if (dominant === "Latin") {
+    const words = value.toLowerCase().match(/\p{L}+/gu) ?? [];
+    const scores = Object.entries(STOPWORDS)
+      .map(([lang, list]) => [lang, words.filter((word) => list.includes(word)).length] as const)
+      .sort((a, b) => b[1] - a[1]);
+    const total = scores.reduce((sum, [, score]) => sum + score, 0);
+    if (scores[0][1] === 0) {
+      language = "und";
+      confidence = 0;
+    } else {
+      language = scores[0][0];
+      confidence *= scores[0][1] / total;
+    }
+  } else if (dominant === "Cyrillic") {
+    language = /[іїєґ]/i.test(value) ? "uk" : "ru";
+  } else {
+    language = { Hangul: "ko", Arabic: "ar", Devanagari: "hi", Thai: "th", Greek: "el", Hebrew: "he" }[dominant] ?? "und";
+  }
+
+  return {
+    language,
+    name: LANGUAGE_NAMES[language],
+    confidence: Math.round(confidence * 100) / 100,
+    scripts,
+  };
+}
+
+/**
+ * 校验参数并执行文本处理操作
+ * 参数无效或处理失败时抛出 TextToolError
+ */
+export function processText(args: unknown): Record<string, unknown> {
+  const parsed = textToolSchema.safeParse(args);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new TextToolError("INVALID_ARGUMENT", `参数错误: ${issue.path.join(".") || "(根)"} ${issue.message}`);
+  }
+
+  const input = parsed.data;
+  switch (input.operation) {
+    case "count":
+      return countText(input.text, input.locale);
+    case "segment":
+      return segmentText(input.text, input.locale);
+    case "uppercase":
+      return { result: input.text.toUpperCase() };
+    case "lowercase":
+      return { result: input.text.toLowerCase() };
+    case "reverse":
+      return { result: Array.from(segments(input.text, "grapheme"), (s) => s.segment).reverse().join("") };
+    case "find":
+      return findMatches(input.text, input.pattern, input.flags, input.limit);
+    case "replace":
+      return replaceText(input.text, input.pattern, input.replacement, input.flags, input.all);
+    case "diff":
+      return diffTexts(input.text, input.other, input.context);
+    case "validate":
+      return validateStructured(input.text, input.format, input.delimiter);
+    case "format":
+      return formatStructured(input.text, input.format, input.indent, input.delimiter);
+    case "encode":
+      return { encoding: input.encoding, result: encodeText(input.text, input.encoding) };
+    case "decode":
+      return { encoding: input.encoding, result: decodeText(input.text, input.encoding) };
+    case "hash": {
+      const algorithm = input.algorithm ?? "sha256";
+      const digest = input.digest ?? "hex";
+      return {
+        algorithm,
+        digest,
+        result: crypto.createHash(algorithm).update(input.text, "utf-8").digest(digest),
+      };
+    }
+    case "detect_language":
+      return detectLanguage(input.text);
+  }
+}
@@ -0,0 +1,233 @@
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import { z } from "zod";
+import YAML from "yaml";
+import type { Tool } from "@github/copilot-sdk";
+import { allTools } from "./tools.js";
+
+/**
+ * 工具注册表
+ * 内置工具（src/tools.ts）+ 插件目录中发现的自定义工具
+ *
+ * 插件目录结构：
+ *   tools/
+ *   ├── manifest.json | manifest.yaml   # 可选，声明启用的模块和默认工具
+ *   ├── my-tool.js                      # 导出一个或多个 defineTool() 结果
+ *   └── other-tool.ts                   # .ts 插件仅在 tsx（开发模式）下可加载
+ *
+ * 环境变量配置：
+ * - TOOLS_DIR: 插件目录，默认 "./tools"
+ * - TOOLS_HOT_RELOAD: 是否监听插件目录变化，默认在非 production 环境下开启
+ */
+
+export interface ToolInfo {
+  name: string;
+  description?: string;
+  source: "builtin" | "plugin";
+  module?: string;
+}
+
+// 工具定义结构校验
+const toolSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[a-zA-Z0-9_-]{1,64}$/, "工具名只能包含字母、数字、下划线和连字符"),
+  description: z.string().optional(),
+  parameters: z.record(z.unknown()).optional(),
+  handler: z.function(),
+});
+
+// 插件清单结构校验
+const manifestSchema = z.object({
+  // 要加载的模块（相对插件目录）；未声明时加载目录下所有插件文件
+  modules: z
+    .array(
+      z.union([
+        z.string(),
+        z.object({
+          path: z.string(),
+          enabled: z.boolean().default(true),
+        }),
+      ])
+    )
+    .optional(),
+  // 会话未指定工具时默认启用的工具；未声明时启用全部工具
+  defaultTools: z.array(z.string()).optional(),
+});
+
+type Manifest = z.infer<typeof manifestSchema>;
+
+const PLUGIN_EXTENSIONS = [".js", ".mjs", ".ts", ".mts"];
+const MANIFEST_FILES = ["manifest.json", "manifest.yaml", "manifest.yml"];
+
+const toolsDir = path.resolve(process.env.TOOLS_DIR || path.join(process.cwd(), "tools"));
+
+type Registry = Map<string, { tool: Tool<any>; info: ToolInfo }>;
+
+/**
+ * 创建只包含内置工具的注册表
+ */
+function builtinRegistry(): Registry {
+  const builtins: Registry = new Map();
+  for (const tool of allTools) {
+    builtins.set(tool.name, {
+      tool,
+      info: { name: tool.name, description: tool.description, source: "builtin" },
+    });
+  }
+  return builtins;
+}
+
+// 当前注册的工具（按名称索引）
+let registry = builtinRegistry();
+let defaultToolNames: string[] | undefined;
+
+function readManifest(): Manifest {
+  for (const file of MANIFEST_FILES) {
+    const manifestPath = path.join(toolsDir, file);
+    if (!fs.existsSync(manifestPath)) continue;
+    const raw = fs.readFileSync(manifestPath, "utf-8");
+    const data = file.endsWith(".json") ? JSON.parse(raw) : YAML.parse(raw);
+    const parsed = manifestSchema.safeParse(data ?? {});
+    if (!parsed.success) {
+      throw new Error(`插件清单格式错误 (${file}): ${parsed.error.issues.map((i) => i.message).join("; ")}`);
+    }
+    return parsed.data;
+  }
+  return {};
+}
+
+function listModules(manifest: Manifest): string[] {
+  if (manifest.modules) {
+    return manifest.modules
+      .map((m) => (typeof m === "string" ? { path: m, enabled: true } : m))
+      .filter((m) => m.enabled)
+      .map((m) => path.resolve(toolsDir, m.path));
+  }
+  return fs
+    .readdirSync(toolsDir)
+    .filter((file) => PLUGIN_EXTENSIONS.includes(path.extname(file)) && !file.endsWith(".d.ts"))
+    .sort()
+    .map((file) => path.join(toolsDir, file));
+}
+
+/**
+ * 从模块导出中提取工具定义（支持默认导出单个工具 / 工具数组，以及具名导出）
+ */
+function collectExportedTools(mod: Record<string, unknown>): unknown[] {
+  const candidates: unknown[] = [];
+  for (const value of Object.values(mod)) {
+    if (Array.isArray(value)) {
+      candidates.push(...value);
+    } else if (value && typeof value === "object" && "handler" in value) {
+      candidates.push(value);
+    }
+  }
+  return candidates;
+}
+
+/**
+ * 扫描插件目录并重建注册表
+ * 校验失败或重名的工具会被跳过并记录日志，不影响其他工具
+ */
+export async function loadToolPlugins(): Promise<void> {
+  const next = builtinRegistry();
+
+  let manifest: Manifest = {};
+  if (fs.existsSync(toolsDir)) {
+    try {
+      manifest = readManifest();
+    } catch (e) {
+      console.error(`⚠️ ${e instanceof Error ? e.message : e}`);
+    }
+
+    for (const modulePath of listModules(manifest)) {
+      const relative = path.relative(toolsDir, modulePath);
+      try {
+        // 加上时间戳参数绕过 ESM 模块缓存，支持热重载
+        const url = `${pathToFileURL(modulePath).href}?v=${Date.now()}`;
+        const mod = (await import(url)) as Record<string, unknown>;
+        for (const candidate of collectExportedTools(mod)) {
+          const parsed = toolSchema.safeParse(candidate);
+          if (!parsed.success) {
+            console.error(`⚠️ 插件 ${relative} 中的工具定义无效: ${parsed.error.issues.map((i) => i.message).join("; ")}`);
+            continue;
+          }
+          const tool = candidate as Tool<any>;
+          if (next.has(tool.name)) {
+            console.error(`⚠️ 插件 ${relative} 中的工具名重复，已跳过: ${tool.name}`);
+            continue;
+          }
+          next.set(tool.name, {
+            tool,
+            info: { name: tool.name, description: tool.description, source: "plugin", module: relative },
+          });
+        }
+      } catch (e) {
+        console.error(`⚠️ 无法加载工具插件 ${relative}:`, e instanceof Error ? e.message : e);
+      }
+    }
+  }
+
+  const unknownDefaults = (manifest.defaultTools || []).filter((name) => !next.has(name));
+  if (unknownDefaults.length > 0) {
+    console.error(`⚠️ 插件清单中的默认工具不存在: ${unknownDefaults.join(", ")}`);
+  }
+
+  registry = next;
+  defaultToolNames = manifest.defaultTools?.filter((name) => next.has(name));
+
+  const pluginCount = Array.from(next.values()).filter((t) => t.info.source === "plugin").length;
+  console.log(`🧰 已注册 ${next.size} 个工具（插件 ${pluginCount} 个）`);
+}
+
+/**
+ * 列出所有已注册工具
+ */
+export function listTools(): ToolInfo[] {
+  return Array.from(registry.values()).map((t) => t.info);
+}
+
+/**
+ * 判断工具是否已注册
+ */
+export function hasTool(name: string): boolean {
+  return registry.has(name);
+}
+
+/**
+ * 根据工具名解析工具定义
+ * 未指定时返回默认工具集；包含未知工具名时抛出错误
+ */
+export function resolveTools(names?: string[]): Tool<any>[] {
+  const selected = names ?? defaultToolNames ?? Array.from(registry.keys());
+  const unknown = selected.filter((name) => !registry.has(name));
+  if (unknown.length > 0) {
+    throw new Error(`未知工具: ${unknown.join(", ")}`);
+  }
+  return selected.map((name) => registry.get(name)!.tool);
+}
+
+/**
+ * 监听插件目录变化并自动重新加载（开发模式）
+ * 已创建的会话继续使用创建时的工具，新会话使用重新加载后的工具
+ */
+export function watchToolPlugins(): void {
+  const enabled = process.env.TOOLS_HOT_RELOAD
+    ? process.env.TOOLS_HOT_RELOAD === "true"
+    : process.env.NODE_ENV !== "production";
+  if (!enabled || !fs.existsSync(toolsDir)) return;
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const watcher = fs.watch(toolsDir, () => {
+    // 合并短时间内的多次变更
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      console.log("🔄 检测到工具插件变化，重新加载...");
+      void loadToolPlugins();
+    }, 300);
+  });
+  watcher.unref();
+  console.log(`👀 正在监听工具插件目录: ${toolsDir}`);
+}
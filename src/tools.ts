@@ -1,11 +1,54 @@
 import { z } from "zod";
-import { defineTool } from "@github/copilot-sdk";
+import { defineTool, type ToolInvocation } from "@github/copilot-sdk";
+import { evaluateExpression, CalcError, type CalcMode } from "./calculator.js";
+import {
+  DateToolError,
+  addDuration,
+  businessDays,
+  convertTime,
+  currentTime,
+  describeTime,
+  meetingOverlap,
+  timeDifference,
+  type Duration,
+} from "./dateTools.js";
+import { RUN_CODE_TIMEOUT, SandboxError, runCode, type SandboxLanguage } from "./sandbox.js";
+import { processText, textToolSchema, TextToolError } from "./textTools.js";
+import { getWeather, WeatherError, MAX_FORECAST_DAYS, type WeatherUnits } from "./weather.js";
 
 /**
  * 自定义工具定义
  * 演示 Copilot SDK 的工具调用能力
  */
 
+/**
+ * 执行日期工具操作，DateToolError 转换为结构化错误
+ */
+function dateToolResult(run: () => object) {
+  try {
+    return run();
+  } catch (error) {
+    if (error instanceof DateToolError) {
+      return {
+        error: `日期处理错误: ${error.message}`,
+        code: error.code,
+        ...(error.field ? { field: error.field } : {}),
+      };
+    }
+    return {
+      error: `日期处理错误: ${error instanceof Error ? error.message : "未知错误"}`,
+    };
+  }
+}
+
+const timeInput = z
+  .union([z.string(), z.number()])
+  .describe("时间：ISO 8601（如 '2024-05-01T14:00'、'2024-05-01T14:00:00+08:00'）、RFC 2822、Unix 时间戳或 now / today");
+const timezoneInput = z
+  .string()
+  .optional()
+  .describe("IANA 时区，例如 'Asia/Shanghai'、'America/New_York'，默认为系统时区；不带偏移的时间按此时区解释");
+
 // 获取当前时间工具
 export const getCurrentTimeTool = defineTool("get_current_time", {
   description: "获取当前的日期和时间，支持指定时区",
@@ -17,69 +60,164 @@ export const getCurrentTimeTool = defineTool("get_current_time", {
   }) as any,
   handler: async (args: unknown) => {
     const { timezone } = args as { timezone?: string };
-    const options: Intl.DateTimeFormatOptions = {
-      year: "numeric",
-      month: "2-digit",
-      day: "2-digit",
-      hour: "2-digit",
-      minute: "2-digit",
-      second: "2-digit",
-      hour12: false,
-      timeZone: timezone || undefined,
-    };
+    return dateToolResult(() => currentTime(timezone));
+  },
+});
 
-    const now = new Date();
-    const formatted = new Intl.DateTimeFormat("zh-CN", options).format(now);
+// 时区换算工具
+export const convertTimeTool = defineTool("convert_time", {
+  description: "将某个时间换算到一个或多个时区",
+  parameters: z.object({
+    time: timeInput,
+    from: z.string().optional().describe("输入时间所在的时区（时间不带偏移时使用），默认为系统时区"),
+    to: z.array(z.string()).min(1).max(20).describe("目标时区列表，例如 ['Europe/London', 'Asia/Tokyo']"),
+  }) as any,
+  handler: async (args: unknown) => {
+    const { time, from, to } = args as { time: string | number; from?: string; to: string[] };
+    return dateToolResult(() => convertTime(time, to, from));
+  },
+});
 
-    return {
-      datetime: formatted,
-      timestamp: now.getTime(),
-      timezone: timezone || Intl.DateTimeFormat().resolvedOptions().timeZone,
+// 时间解析工具
+export const parseDateTool = defineTool("parse_date", {
+  description: "解析时间字符串或时间戳，返回识别的格式、UTC 时间、当地时间与 Unix 时间戳",
+  parameters: z.object({
+    time: timeInput,
+    timezone: timezoneInput,
+  }) as any,
+  handler: async (args: unknown) => {
+    const { time, timezone } = args as { time: string | number; timezone?: string };
+    return dateToolResult(() => describeTime(time, timezone));
+  },
+});
+
+// 时间间隔工具
+export const dateDifferenceTool = defineTool("date_difference", {
+  description: "计算两个时间的间隔，按日历拆分为年、月、日、时、分、秒，并给出总天数、小时数等",
+  parameters: z.object({
+    start: timeInput,
+    end: timeInput,
+    timezone: timezoneInput,
+  }) as any,
+  handler: async (args: unknown) => {
+    const { start, end, timezone } = args as { start: string | number; end: string | number; timezone?: string };
+    return dateToolResult(() => timeDifference(start, end, timezone));
+  },
+});
+
+// 时间加减工具
+export const addDurationTool = defineTool("add_duration", {
+  description: "在时间上加上或减去一段时长（年、月、日按当地日历计算，月末自动收敛）",
+  parameters: z.object({
+    time: timeInput,
+    duration: z
+      .union([
+        z.string(),
+        z.object({
+          years: z.number().int().optional(),
+          months: z.number().int().optional(),
+          weeks: z.number().int().optional(),
+          days: z.number().int().optional(),
+          hours: z.number().optional(),
+          minutes: z.number().optional(),
+          seconds: z.number().optional(),
+        }),
+      ])
+      .describe("时长：ISO 8601（如 'P1M'、'PT90M'、'P1DT2H'）或 { days: 3, hours: 2 }"),
+    subtract: z.boolean().optional().describe("为 true 时减去时长"),
+    timezone: timezoneInput,
+  }) as any,
+  handler: async (args: unknown) => {
+    const { time, duration, subtract, timezone } = args as {
+      time: string | number;
+      duration: string | Duration;
+      subtract?: boolean;
+      timezone?: string;
     };
+    return dateToolResult(() => addDuration(time, duration, timezone, subtract));
+  },
+});
+
+// 工作日统计工具
+export const businessDaysTool = defineTool("count_business_days", {
+  description: "统计两个日期之间（含首尾）的工作日，排除周末与节假日日历中的节假日（支持中国调休）",
+  parameters: z.object({
+    start: z.string().describe("开始日期，例如 '2025-01-01'"),
+    end: z.string().describe("结束日期，例如 '2025-01-31'"),
+    calendar: z
+      .string()
+      .optional()
+      .describe("节假日日历：none(只排除周末)、CN(中国法定节假日)、US(美国联邦假日)或自定义日历"),
+    holidays: z.array(z.string()).optional().describe("额外的节假日（YYYY-MM-DD）"),
+    workdays: z.array(z.string()).optional().describe("额外的上班日期（如调休的周末）"),
+    listDates: z.boolean().optional().describe("是否列出每个工作日"),
+  }) as any,
+  handler: async (args: unknown) => {
+    const options = args as Parameters<typeof businessDays>[0];
+    return dateToolResult(() => businessDays(options));
+  },
+});
+
+// 会议时间工具
+export const meetingTimeTool = defineTool("find_meeting_time", {
+  description: "查找多个时区的工作时间在某一天的重叠时段，用于安排跨时区会议",
+  parameters: z.object({
+    timezones: z.array(z.string()).min(1).max(10).describe("参会者所在的时区，日期按第一个时区计算"),
+    date: z.string().optional().describe("日期（YYYY-MM-DD），默认为第一个时区的今天"),
+    workStart: z.string().optional().describe("工作时间开始（HH:MM），默认 09:00"),
+    workEnd: z.string().optional().describe("工作时间结束（HH:MM），默认 18:00"),
+    durationMinutes: z.number().int().min(1).max(1440).optional().describe("会议时长（分钟），默认 30"),
+    skipWeekends: z.boolean().optional().describe("是否排除各时区的周末，默认 true"),
+  }) as any,
+  handler: async (args: unknown) => {
+    const options = args as Parameters<typeof meetingOverlap>[0];
+    return dateToolResult(() => meetingOverlap(options));
   },
 });
 
 // 计算器工具
 export const calculatorTool = defineTool("calculate", {
-  description: "执行数学计算，支持加减乘除和基本数学函数",
+  description:
+    "执行数学计算，支持运算符优先级、变量、数学函数、常量（pi、e）、单位换算（如 '5 km to mi'）以及精确分数模式",
   parameters: z.object({
     expression: z
       .string()
-      .describe("数学表达式，例如 '2 + 3 * 4'、'sqrt(16)'、'pow(2, 10)'"),
+      .describe("数学表达式，例如 '2 + 3 * 4'、'sqrt(16)'、'pow(2, 10)'、'x^2 + 1'、'60 km/h to m/s'"),
+    variables: z
+      .record(z.number())
+      .optional()
+      .describe("表达式中使用的变量，例如 { \"x\": 3 }"),
+    mode: z
+      .enum(["float", "exact"])
+      .optional()
+      .describe("计算模式：float(浮点，默认)、exact(精确有理数，如 0.1 + 0.2 = 3/10)"),
   }) as any,
   handler: async (args: unknown) => {
-    const { expression } = args as { expression: string };
+    const { expression, variables, mode } = args as {
+      expression: string;
+      variables?: Record<string, number>;
+      mode?: CalcMode;
+    };
     try {
-      // 安全的数学表达式计算
-      const safeExpression = expression
-        .replace(/sqrt/g, "Math.sqrt")
-        .replace(/pow/g, "Math.pow")
-        .replace(/abs/g, "Math.abs")
-        .replace(/sin/g, "Math.sin")
-        .replace(/cos/g, "Math.cos")
-        .replace(/tan/g, "Math.tan")
-        .replace(/log/g, "Math.log")
-        .replace(/exp/g, "Math.exp")
-        .replace(/floor/g, "Math.floor")
-        .replace(/ceil/g, "Math.ceil")
-        .replace(/round/g, "Math.round")
-        .replace(/PI/g, "Math.PI")
-        .replace(/E/g, "Math.E");
-
-      // 检查是否只包含安全字符
-      if (!/^[\d\s+\-*/().Math,sqrtpowabsincostanlogexpfloorceround\sPI\sE]+$/.test(safeExpression)) {
-        throw new Error("表达式包含不允许的字符");
-      }
-
-      // eslint-disable-next-line no-eval
-      const result = eval(safeExpression);
-
+      const result = evaluateExpression(expression, { variables, mode });
+      // 精确模式下结果超出浮点范围时，以分数表示作为结果
+      const value = Number.isFinite(result.value) ? result.value : result.exact;
       return {
         expression: expression,
-        result: result,
-        type: typeof result,
+        result: value,
+        ...(result.exact !== undefined ? { exact: result.exact } : {}),
+        ...(result.unit !== undefined ? { unit: result.unit } : {}),
+        type: typeof value,
       };
     } catch (error) {
+      if (error instanceof CalcError) {
+        return {
+          expression: expression,
+          error: `计算错误: ${error.message}`,
+          code: error.code,
+          position: error.position,
+        };
+      }
       return {
         expression: expression,
         error: `计算错误: ${error instanceof Error ? error.message : "未知错误"}`,
@@ -88,57 +226,110 @@ export const calculatorTool = defineTool("calculate", {
   },
 });
 
-// 天气查询工具（模拟）
+// 天气查询工具
 export const getWeatherTool = defineTool("get_weather", {
-  description: "获取指定城市的天气信息（演示用，返回模拟数据）",
+  description: "获取指定城市的当前天气与未来几天的天气预报（温度、天气状况、湿度、风速、降水）",
   parameters: z.object({
-    city: z.string().describe("城市名称，例如 '北京'、'上海'、'New York'"),
+    city: z
+      .string()
+      .describe("城市名称，例如 '北京'、'上海'、'New York'，同名城市可附加国家代码，如 'Paris, FR'"),
+    days: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_FORECAST_DAYS)
+      .optional()
+      .describe(`预报天数（1-${MAX_FORECAST_DAYS}），默认 1（仅今天）`),
+    units: z
+      .enum(["metric", "imperial"])
+      .optional()
+      .describe("单位：metric(摄氏度、km/h、mm，默认)、imperial(华氏度、mph、inch)"),
   }) as any,
   handler: async (args: unknown) => {
-    const { city } = args as { city: string };
-    // 模拟天气数据
-    const weatherConditions = ["晴", "多云", "阴", "小雨", "大雨", "雪"];
-    const condition = weatherConditions[Math.floor(Math.random() * weatherConditions.length)];
-    const temperature = Math.floor(Math.random() * 35) - 5;
-    const humidity = Math.floor(Math.random() * 60) + 40;
-
-    return {
-      city: city,
-      condition: condition,
-      temperature: `${temperature}°C`,
-      humidity: `${humidity}%`,
-      note: "这是模拟数据，仅用于演示工具调用功能",
-    };
+    const { city, days, units } = args as { city: string; days?: number; units?: WeatherUnits };
+    try {
+      return await getWeather({ city, days, units });
+    } catch (error) {
+      if (error instanceof WeatherError) {
+        return {
+          city: city,
+          error: `天气查询失败: ${error.message}`,
+          code: error.code,
+          retryable: error.retryable,
+        };
+      }
+      return {
+        city: city,
+        error: `天气查询失败: ${error instanceof Error ? error.message : "未知错误"}`,
+      };
+    }
   },
 });
 
 // 文本处理工具
 export const textProcessorTool = defineTool("process_text", {
-  description: "处理文本：统计字数、提取关键信息等",
+  description:
+    "文本处理工具集：字数统计与分词（支持中日韩文）、大小写与反转、正则查找与替换（支持捕获组）、两段文本的差异比较、JSON/YAML/CSV 校验与格式化、base64/URL/hex 编解码、摘要计算、语言识别",
+  parameters: textToolSchema as any,
+  handler: async (args: unknown) => {
+    const operation = (args as { operation?: string })?.operation;
+    try {
+      return { operation, ...processText(args) };
+    } catch (error) {
+      if (error instanceof TextToolError) {
+        return {
+          operation,
+          error: `文本处理错误: ${error.message}`,
+          code: error.code,
+          ...(error.line !== undefined ? { line: error.line, column: error.column } : {}),
+        };
+      }
+      return {
+        operation,
+        error: `文本处理错误: ${error instanceof Error ? error.message : "未知错误"}`,
+      };
+    }
+  },
+});
+
+// 代码执行工具
+export const runCodeTool = defineTool("run_code", {
+  description:
+    "在隔离的沙箱中执行 JavaScript / TypeScript（服务器启用时也支持 Python）代码，返回 stdout、stderr 与退出码。" +
+    "代码可以读取会话的上传文件与工作区（使用消息中给出的路径），只能写入当前目录（会话的临时目录，多次执行之间保留），不能访问网络",
   parameters: z.object({
-    text: z.string().describe("要处理的文本内容"),
-    operation: z
-      .enum(["count", "uppercase", "lowercase", "reverse"])
-      .describe("操作类型：count(统计)、uppercase(大写)、lowercase(小写)、reverse(反转)"),
+    language: z.enum(["javascript", "typescript", "python"]).describe("编程语言"),
+    code: z.string().max(100_000).describe("要执行的代码，结果通过 console.log / print 输出"),
+    stdin: z.string().max(1024 * 1024).optional().describe("作为标准输入传给程序的内容"),
+    timeoutMs: z
+      .number()
+      .int()
+      .min(100)
+      .max(RUN_CODE_TIMEOUT)
+      .optional()
+      .describe(`超时时间（毫秒），默认且最多 ${RUN_CODE_TIMEOUT}`),
   }) as any,
-  handler: async (args: unknown) => {
-    const { text, operation } = args as { text: string; operation: "count" | "uppercase" | "lowercase" | "reverse" };
-    switch (operation) {
-      case "count":
+  handler: async (args: unknown, invocation: ToolInvocation) => {
+    const { language, code, stdin, timeoutMs } = args as {
+      language: SandboxLanguage;
+      code: string;
+      stdin?: string;
+      timeoutMs?: number;
+    };
+    try {
+      return await runCode({ language, code, stdin, timeoutMs, sessionId: invocation.sessionId });
+    } catch (error) {
+      if (error instanceof SandboxError) {
         return {
-          characters: text.length,
-          charactersNoSpaces: text.replace(/\s/g, "").length,
-          words: text.split(/\s+/).filter((w: string) => w.length > 0).length,
-          lines: text.split("\n").length,
+          language: language,
+          error: `执行失败: ${error.message}`,
+          code: error.code,
         };
-      case "uppercase":
-        return { result: text.toUpperCase() };
-      case "lowercase":
-        return { result: text.toLowerCase() };
-      case "reverse":
-        return { result: text.split("").reverse().join("") };
-      default:
-        return { error: "未知操作" };
+      }
+      return {
+        language: language,
+        error: `执行失败: ${error instanceof Error ? error.message : "未知错误"}`,
+      };
     }
   },
 });
@@ -146,7 +337,14 @@ export const textProcessorTool = defineTool("process_text", {
 // 导出所有工具
 export const allTools = [
   getCurrentTimeTool,
+  convertTimeTool,
+  parseDateTool,
+  dateDifferenceTool,
+  addDurationTool,
+  businessDaysTool,
+  meetingTimeTool,
   calculatorTool,
   getWeatherTool,
   textProcessorTool,
+  runCodeTool,
 ];
@@ -0,0 +1,504 @@
+import { createHash, randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import { extractDocument, isExtractable, type Extraction } from "./extract.js";
+import { checkUploadQuota } from "./limits.js";
+import { findWorkspaceByPath, getWorkspace, getWorkspacePath } from "./workspaces.js";
+import type { StoredMessage } from "./store.js";
+
+/**
+ * 上传文件管理
+ * - 内容去重：同一用户重复上传相同内容（SHA-256 与扩展名相同）时只保存一份
+ * - 元数据索引：记录文件的归属用户、原始文件名与引用它的会话；接口只返回上传 ID，不暴露服务器路径
+ * - 过期清理：未被任何会话引用的文件超过 UPLOAD_TTL_HOURS 后自动删除
+ * - 级联删除：删除会话时，一并删除不再被其他会话引用的文件
+ * - 文档提取：PDF、DOCX、表格与压缩包上传后生成派生产物（见 extract.ts），发送消息时默认附带提取结果
+ *
+ * 环境变量配置：
+ * - UPLOAD_TTL_HOURS: 未关联会话的上传文件保留时间（小时），默认 24，设为 0 表示不过期
+ * - UPLOAD_INDEX_FILE: 上传索引文件，默认 "./data/uploads.json"（SESSION_STORE=memory 时不持久化）
+ */
+
+// 发送给 SDK 的附件
+export type Attachment = NonNullable<StoredMessage["attachments"]>[number];
+
+// 客户端提交的附件：引用上传 ID、会话工作区 ID，或给出用户上传目录内的路径
+export interface AttachmentInput {
+  type: Attachment["type"];
+  uploadId?: string;
+  /** 会话工作区 ID（见 workspaces.ts），只能在所属会话中使用 */
+  workspaceId?: string;
+  /** 为 true 时附带原始文件而不是提取结果 */
+  raw?: boolean;
+  path?: string;
+  displayName?: string;
+}
+
+// 上传文件元数据
+export interface UploadRecord {
+  id: string;
+  /** 所属用户 ID（未启用认证时为空） */
+  ownerId?: string;
+  /** 文件内容的 SHA-256 */
+  hash: string;
+  /** 用户上传目录中的文件名 */
+  filename: string;
+  originalName: string;
+  mimetype: string;
+  size: number;
+  /** 最近一次上传（含去重命中）的时间，用于计算过期 */
+  uploadedAt: number;
+  /** 引用该文件的会话 */
+  sessionIds: string[];
+  /** 文档提取结果（派生产物保存在 derived/<filename>/ 下） */
+  extraction?: Extraction;
+  /** 文档提取失败的原因（发送时回退为原始文件） */
+  extractionError?: string;
+}
+
+// 返回给客户端的上传信息（不含服务器路径）
+export interface UploadInfo {
+  id: string;
+  originalName: string;
+  mimetype: string;
+  size: number;
+  uploadedAt: number;
+  /** 过期时间（已被会话引用或不过期时为空） */
+  expiresAt?: number;
+  sessionIds: string[];
+  extraction?: Omit<Extraction, "name">;
+  extractionError?: string;
+}
+
+const uploadRoot = path.join(process.cwd(), "uploads");
+
+// 派生产物目录（位于各用户上传目录下）
+const DERIVED_DIR = "derived";
+
+// multer 写入的临时文件前缀（登记完成后重命名为内容哈希）
+const TEMP_PREFIX = ".upload-";
+
+const ttlHours = Number(process.env.UPLOAD_TTL_HOURS ?? 24);
+const UPLOAD_TTL_MS = Number.isFinite(ttlHours) && ttlHours > 0 ? ttlHours * 60 * 60 * 1000 : 0;
+
+// 过期清理间隔
+const CLEANUP_INTERVAL = 60 * 60 * 1000;
+
+const uploads = new Map<string, UploadRecord>();
+let indexFile: string | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+let cleanupTimer: ReturnType<typeof setInterval> | null = null;
+
+if (!fs.existsSync(uploadRoot)) {
+  fs.mkdirSync(uploadRoot, { recursive: true });
+}
+
+/**
+ * 获取用户的上传目录
+ * 启用认证时每个用户使用独立子目录，否则使用根上传目录
+ */
+export function getUploadDir(userId?: string): string {
+  if (userId === undefined) return uploadRoot;
+  const dir = path.join(uploadRoot, "users", encodeURIComponent(userId));
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  return dir;
+}
+
+/**
+ * 生成临时文件名（供 multer 使用）
+ */
+export function tempUploadName(): string {
+  return `${TEMP_PREFIX}${randomUUID()}`;
+}
+
+function filePathOf(record: UploadRecord): string {
+  return path.join(getUploadDir(record.ownerId), record.filename);
+}
+
+function derivedDirOf(record: UploadRecord): string {
+  return path.join(getUploadDir(record.ownerId), DERIVED_DIR, record.filename);
+}
+
+function findByFilename(ownerId: string | undefined, filename: string): UploadRecord | undefined {
+  for (const record of uploads.values()) {
+    if (record.ownerId === ownerId && record.filename === filename) return record;
+  }
+  return undefined;
+}
+
+function findByPath(filePath: string): UploadRecord | undefined {
+  const resolved = path.resolve(filePath);
+  for (const record of uploads.values()) {
+    if (path.resolve(filePathOf(record)) === resolved) return record;
+    if (record.extraction && resolved.startsWith(path.resolve(derivedDirOf(record)) + path.sep)) return record;
+  }
+  return undefined;
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * 转换为返回给客户端的格式
+ */
+export function toUploadInfo(record: UploadRecord): UploadInfo {
+  return {
+    id: record.id,
+    originalName: record.originalName,
+    mimetype: record.mimetype,
+    size: record.size,
+    uploadedAt: record.uploadedAt,
+    expiresAt: UPLOAD_TTL_MS > 0 && record.sessionIds.length === 0 ? record.uploadedAt + UPLOAD_TTL_MS : undefined,
+    sessionIds: record.sessionIds,
+    extraction: record.extraction && {
+      kind: record.extraction.kind,
+      summary: record.extraction.summary,
+      truncated: record.extraction.truncated,
+    },
+    extractionError: record.extractionError,
+  };
+}
+
+/**
+ * 延迟合并写入索引（先写临时文件再重命名）
+ */
+function scheduleSave() {
+  if (!indexFile || saveTimer) return;
+  const file = indexFile;
+  saveTimer = setTimeout(async () => {
+    saveTimer = null;
+    try {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      const tmp = `${file}.tmp`;
+      await fs.promises.writeFile(tmp, JSON.stringify(Array.from(uploads.values()), null, 2), "utf-8");
+      await fs.promises.rename(tmp, file);
+    } catch (e) {
+      console.error("⚠️ 上传索引持久化失败", e);
+    }
+  }, 1000);
+  saveTimer.unref();
+}
+
+/**
+ * 登记上传目录中尚未建立索引的文件（旧版本上传的文件），并清理残留的临时文件与派生产物
+ */
+async function adoptUnindexedFiles(dir: string, ownerId: string | undefined): Promise<number> {
+  let adopted = 0;
+  for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+    if (entry.isDirectory() && entry.name === DERIVED_DIR) {
+      for (const derived of await fs.promises.readdir(path.join(dir, DERIVED_DIR))) {
+        if (!findByFilename(ownerId, derived)?.extraction) {
+          await fs.promises.rm(path.join(dir, DERIVED_DIR, derived), { recursive: true, force: true });
+        }
+      }
+      continue;
+    }
+    if (!entry.isFile()) continue;
+    const filePath = path.join(dir, entry.name);
+    if (entry.name.startsWith(TEMP_PREFIX)) {
+      await fs.promises.rm(filePath, { force: true });
+      continue;
+    }
+    if (findByFilename(ownerId, entry.name)) continue;
+
+    const stats = await fs.promises.stat(filePath);
+    const record: UploadRecord = {
+      id: randomUUID(),
+      ownerId,
+      hash: await hashFile(filePath),
+      filename: entry.name,
+      originalName: entry.name,
+      mimetype: "application/octet-stream",
+      size: stats.size,
+      uploadedAt: Math.round(stats.mtimeMs),
+      sessionIds: [],
+    };
+    uploads.set(record.id, record);
+    adopted++;
+  }
+  return adopted;
+}
+
+/**
+ * 加载上传索引，并与上传目录中的实际文件同步
+ * 应在恢复会话记录之前调用一次（恢复会话时会重新关联附件）
+ */
+export async function initUploadIndex(): Promise<void> {
+  indexFile =
+    process.env.SESSION_STORE === "memory"
+      ? null
+      : process.env.UPLOAD_INDEX_FILE || path.join(process.cwd(), "data", "uploads.json");
+
+  uploads.clear();
+  if (indexFile) {
+    try {
+      const records = JSON.parse(await fs.promises.readFile(indexFile, "utf-8")) as UploadRecord[];
+      for (const record of records) {
+        uploads.set(record.id, record);
+      }
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`⚠️ 无法读取上传索引: ${indexFile}`, e);
+      }
+    }
+  }
+
+  // 移除文件已不存在的记录
+  for (const record of uploads.values()) {
+    if (!fs.existsSync(filePathOf(record))) {
+      uploads.delete(record.id);
+    }
+  }
+
+  let adopted = await adoptUnindexedFiles(uploadRoot, undefined);
+  const usersDir = path.join(uploadRoot, "users");
+  if (fs.existsSync(usersDir)) {
+    for (const entry of await fs.promises.readdir(usersDir, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        adopted += await adoptUnindexedFiles(path.join(usersDir, entry.name), decodeURIComponent(entry.name));
+      }
+    }
+  }
+
+  scheduleSave();
+  console.log(`📁 已加载上传索引: ${uploads.size} 个文件${adopted > 0 ? `（新登记 ${adopted} 个）` : ""}`);
+}
+
+/**
+ * 删除过期的上传文件（未被任何会话引用且超过保留时间）
+ */
+export async function cleanupExpiredUploads(now = Date.now()): Promise<number> {
+  if (UPLOAD_TTL_MS <= 0) return 0;
+  let removed = 0;
+  for (const record of Array.from(uploads.values())) {
+    if (record.sessionIds.length === 0 && record.uploadedAt + UPLOAD_TTL_MS <= now) {
+      await removeUpload(record);
+      removed++;
+    }
+  }
+  if (removed > 0) {
+    console.log(`🧹 已清理 ${removed} 个过期的上传文件`);
+  }
+  return removed;
+}
+
+/**
+ * 立即执行一次过期清理，并定期重复执行
+ */
+export function startUploadCleanup(): void {
+  if (cleanupTimer) return;
+  void cleanupExpiredUploads();
+  cleanupTimer = setInterval(() => void cleanupExpiredUploads(), CLEANUP_INTERVAL);
+  cleanupTimer.unref();
+}
+
+async function removeUpload(record: UploadRecord) {
+  uploads.delete(record.id);
+  await fs.promises.rm(filePathOf(record), { force: true });
+  await fs.promises.rm(derivedDirOf(record), { recursive: true, force: true });
+  scheduleSave();
+}
+
+/**
+ * 获取用户已使用的上传空间（字节）
+ */
+export function getUsedBytes(ownerId?: string): number {
+  let total = 0;
+  for (const record of uploads.values()) {
+    if (record.ownerId === ownerId) total += record.size;
+  }
+  return total;
+}
+
+/**
+ * 登记 multer 写入的临时文件：按内容哈希去重后重命名，并复核上传配额
+ * 超出配额时删除本次的临时文件并抛出 LimitError
+ */
+export async function registerUploads(
+  files: Array<{ tempPath: string; originalName: string; mimetype: string }>,
+  ownerId?: string
+): Promise<Array<{ upload: UploadInfo; deduplicated: boolean }>> {
+  const dir = getUploadDir(ownerId);
+  const hashed: Array<(typeof files)[number] & { hash: string; filename: string; size: number }> = [];
+  try {
+    for (const file of files) {
+      const hash = await hashFile(file.tempPath);
+      const { size } = await fs.promises.stat(file.tempPath);
+      hashed.push({ ...file, hash, filename: `${hash}${path.extname(file.originalName).toLowerCase()}`, size });
+    }
+
+    // 只有新内容占用配额（同一请求中的重复文件只计一次）
+    const incoming = new Map<string, number>();
+    for (const file of hashed) {
+      if (!findByFilename(ownerId, file.filename)) incoming.set(file.filename, file.size);
+    }
+    checkUploadQuota(getUsedBytes(ownerId), Array.from(incoming.values()).reduce((a, b) => a + b, 0));
+  } catch (error) {
+    await Promise.all(files.map((file) => fs.promises.rm(file.tempPath, { force: true })));
+    throw error;
+  }
+
+  const results: Array<{ upload: UploadInfo; deduplicated: boolean }> = [];
+  for (const file of hashed) {
+    let record = findByFilename(ownerId, file.filename);
+    const deduplicated = record !== undefined;
+    if (record) {
+      fs.rmSync(file.tempPath, { force: true });
+      record.uploadedAt = Date.now();
+    } else {
+      fs.renameSync(file.tempPath, path.join(dir, file.filename));
+      record = {
+        id: randomUUID(),
+        ownerId,
+        hash: file.hash,
+        filename: file.filename,
+        originalName: file.originalName,
+        mimetype: file.mimetype,
+        size: file.size,
+        uploadedAt: Date.now(),
+        sessionIds: [],
+      };
+      uploads.set(record.id, record);
+    }
+    results.push({ upload: { ...toUploadInfo(record), originalName: file.originalName }, deduplicated });
+  }
+
+  scheduleSave();
+  return results;
+}
+
+/**
+ * 对上传文件执行文档提取（不支持提取的类型直接返回），结果记录在索引中
+ * 提取失败不影响上传，发送时回退为原始文件
+ */
+export async function extractUpload(id: string): Promise<UploadInfo | undefined> {
+  const record = uploads.get(id);
+  if (!record) return undefined;
+  if (!isExtractable(record.originalName)) return toUploadInfo(record);
+
+  try {
+    record.extraction = await extractDocument(filePathOf(record), record.originalName, derivedDirOf(record));
+    record.extractionError = undefined;
+    console.log(`📄 已提取文档: ${record.originalName} (${record.extraction?.summary})`);
+  } catch (error) {
+    record.extraction = undefined;
+    record.extractionError = error instanceof Error ? error.message : String(error);
+    console.warn(`⚠️ 文档提取失败: ${record.originalName}: ${record.extractionError}`);
+  }
+  scheduleSave();
+  return toUploadInfo(record);
+}
+
+/**
+ * 列出用户的上传文件
+ */
+export function listUploads(ownerId?: string): UploadInfo[] {
+  return Array.from(uploads.values())
+    .filter((record) => record.ownerId === ownerId)
+    .sort((a, b) => b.uploadedAt - a.uploadedAt)
+    .map(toUploadInfo);
+}
+
+/**
+ * 会话引用的上传文件及其提取产物的路径
+ */
+export function sessionUploadPaths(sessionId: string): string[] {
+  return Array.from(uploads.values())
+    .filter((record) => record.sessionIds.includes(sessionId))
+    .flatMap((record) => (record.extraction ? [filePathOf(record), derivedDirOf(record)] : [filePathOf(record)]));
+}
+
+/**
+ * 删除上传文件（已被会话引用的文件需先删除会话）
+ */
+export async function deleteUpload(id: string, ownerId?: string): Promise<"deleted" | "not-found" | "in-use"> {
+  const record = uploads.get(id);
+  if (!record || record.ownerId !== ownerId) return "not-found";
+  if (record.sessionIds.length > 0) return "in-use";
+  await removeUpload(record);
+  console.log(`🗑️ 删除文件: ${record.originalName}`);
+  return "deleted";
+}
+
+/**
+ * 将客户端提交的附件解析为发送给 SDK 的附件
+ * 上传 ID 或工作区不存在、不属于该用户（或该会话），或路径既不在用户上传目录内也不是该会话的工作区时返回 null
+ * （未启用认证时不限制路径）
+ */
+export function resolveAttachments(
+  attachments: AttachmentInput[] | undefined,
+  userId?: string,
+  sessionId?: string
+): Attachment[] | undefined | null {
+  if (!attachments) return undefined;
+  const userDir = path.resolve(getUploadDir(userId)) + path.sep;
+  const resolved: Attachment[] = [];
+  for (const attachment of attachments) {
+    if (attachment.uploadId) {
+      const record = uploads.get(attachment.uploadId);
+      if (!record || record.ownerId !== userId) return null;
+      const extraction = attachment.raw ? undefined : record.extraction;
+      resolved.push({
+        type: extraction?.kind === "archive" ? "directory" : "file",
+        path: extraction ? path.join(derivedDirOf(record), extraction.name) : filePathOf(record),
+        displayName: attachment.displayName || record.originalName,
+      });
+    } else if (attachment.workspaceId) {
+      const workspace = sessionId ? getWorkspace(sessionId, attachment.workspaceId, userId) : undefined;
+      if (!workspace) return null;
+      resolved.push({
+        type: "directory",
+        path: getWorkspacePath(workspace),
+        displayName: attachment.displayName || workspace.name,
+      });
+    } else if (attachment.path) {
+      // 会话工作区的目录（重新生成时校验消息中保存的附件）
+      const workspace = sessionId ? findWorkspaceByPath(sessionId, attachment.path, userId) : undefined;
+      if (workspace) {
+        resolved.push({ type: "directory", path: getWorkspacePath(workspace), displayName: attachment.displayName || workspace.name });
+        continue;
+      }
+      if (userId !== undefined && !path.resolve(attachment.path).startsWith(userDir)) return null;
+      resolved.push({ type: attachment.type, path: attachment.path, displayName: attachment.displayName });
+    } else {
+      return null;
+    }
+  }
+  return resolved;
+}
+
+/**
+ * 记录会话引用的上传文件（被引用的文件不会过期）
+ */
+export function linkUploads(sessionId: string, attachments: Attachment[] | undefined): void {
+  let changed = false;
+  for (const attachment of attachments || []) {
+    const record = findByPath(attachment.path);
+    if (record && !record.sessionIds.includes(sessionId)) {
+      record.sessionIds.push(sessionId);
+      changed = true;
+    }
+  }
+  if (changed) scheduleSave();
+}
+
+/**
+ * 解除会话对上传文件的引用，并删除不再被任何会话引用的文件
+ */
+export async function releaseSessionUploads(sessionId: string): Promise<void> {
+  for (const record of Array.from(uploads.values())) {
+    if (!record.sessionIds.includes(sessionId)) continue;
+    record.sessionIds = record.sessionIds.filter((id) => id !== sessionId);
+    if (record.sessionIds.length === 0) {
+      await removeUpload(record);
+    }
+  }
+  scheduleSave();
+}
@@ -0,0 +1,281 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * 用量统计
+ * 记录每轮对话的 Token 用量、工具调用次数、耗时与费用，
+ * 按用户（含每日明细）和会话汇总并持久化到 JSON 文件
+ *
+ * 环境变量配置：
+ * - USAGE_FILE: 用量汇总文件，默认 "./data/usage.json"（SESSION_STORE=memory 时不持久化）
+ * - MODEL_PRICING: 覆盖模型价格（美元 / 百万 Token），JSON 格式，
+ *   例如 '{"gpt-4o":{"input":2.5,"output":10,"cacheRead":1.25}}'
+ */
+
+// 模型价格（美元 / 百万 Token）
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** 缓存命中的输入 Token，未设置时按 input 计价 */
+  cacheRead?: number;
+  /** 写入缓存的输入 Token，未设置时按 input 计价 */
+  cacheWrite?: number;
+}
+
+// 单轮对话用量（随助手消息保存，并在 message-complete 中返回）
+export interface TurnUsage {
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  /** 思考 Token（SDK 未提供时按思考内容长度估算，已包含在 outputTokens 中） */
+  reasoningTokens: number;
+  /** 模型 API 调用次数 */
+  requests: number;
+  toolCalls: number;
+  /** 从发送到完成的耗时（毫秒） */
+  latencyMs: number;
+  /** 首个内容增量的耗时（毫秒） */
+  firstTokenMs?: number;
+  /** 按价格表计算的费用（美元） */
+  cost: number;
+}
+
+// 汇总用量
+export interface UsageTotals {
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  reasoningTokens: number;
+  requests: number;
+  toolCalls: number;
+  latencyMs: number;
+  cost: number;
+}
+
+export type UsageDelta = Partial<UsageTotals>;
+
+interface UserUsage {
+  total: UsageTotals;
+  /** 日期（YYYY-MM-DD，UTC）-> 当日用量 */
+  daily: Record<string, UsageTotals>;
+}
+
+interface SessionUsage extends UsageTotals {
+  ownerId?: string;
+  updatedAt: number;
+}
+
+interface UsageLedger {
+  users: Record<string, UserUsage>;
+  sessions: Record<string, SessionUsage>;
+}
+
+// 未启用认证时的用户键
+export const ANONYMOUS_USER = "anonymous";
+
+// 每个用户保留的每日明细天数
+const DAILY_RETENTION_DAYS = 90;
+
+// 价格覆盖配置
+const pricingOverrides: Record<string, ModelPricing> = (() => {
+  if (!process.env.MODEL_PRICING) return {};
+  try {
+    return JSON.parse(process.env.MODEL_PRICING) as Record<string, ModelPricing>;
+  } catch (e) {
+    console.error("⚠️ MODEL_PRICING 不是有效的 JSON，已忽略");
+    return {};
+  }
+})();
+
+let ledger: UsageLedger = { users: dictionary(), sessions: dictionary() };
+let usageFile: string | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * 创建无原型的字典（会话 ID 等键来自客户端，避免 "__proto__" 之类的键写到 Object.prototype 上）
+ */
+function dictionary<T>(entries?: Record<string, T>): Record<string, T> {
+  return Object.assign(Object.create(null) as Record<string, T>, entries);
+}
+
+export function emptyTotals(): UsageTotals {
+  return {
+    turns: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    reasoningTokens: 0,
+    requests: 0,
+    toolCalls: 0,
+    latencyMs: 0,
+    cost: 0,
+  };
+}
+
+export function emptyTurnUsage(model?: string): TurnUsage {
+  return {
+    model,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    reasoningTokens: 0,
+    requests: 0,
+    toolCalls: 0,
+    latencyMs: 0,
+    cost: 0,
+  };
+}
+
+/**
+ * 获取模型价格（环境变量覆盖优先）
+ */
+export function resolvePricing(model: string | undefined, defaults?: ModelPricing): ModelPricing | undefined {
+  return (model && pricingOverrides[model]) || defaults;
+}
+
+/**
+ * 按价格表计算费用（美元）
+ */
+export function computeCost(
+  tokens: { inputTokens?: number; outputTokens?: number; cacheReadTokens?: number; cacheWriteTokens?: number },
+  pricing?: ModelPricing
+): number {
+  if (!pricing) return 0;
+  const cost =
+    (tokens.inputTokens || 0) * pricing.input +
+    (tokens.outputTokens || 0) * pricing.output +
+    (tokens.cacheReadTokens || 0) * (pricing.cacheRead ?? pricing.input) +
+    (tokens.cacheWriteTokens || 0) * (pricing.cacheWrite ?? pricing.input);
+  return cost / 1_000_000;
+}
+
+/**
+ * 当前 UTC 日期（YYYY-MM-DD）
+ */
+export function usageDate(time = Date.now()): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function addTotals(target: UsageTotals, delta: UsageDelta) {
+  for (const key of Object.keys(delta) as Array<keyof UsageTotals>) {
+    target[key] += delta[key] || 0;
+  }
+}
+
+/**
+ * 加载用量汇总文件
+ * 应在服务启动时调用一次
+ */
+export async function initUsageLedger(): Promise<void> {
+  if (process.env.SESSION_STORE === "memory") {
+    usageFile = null;
+    return;
+  }
+
+  usageFile = process.env.USAGE_FILE || path.join(process.cwd(), "data", "usage.json");
+  try {
+    const raw = await fs.promises.readFile(usageFile, "utf-8");
+    const data = JSON.parse(raw) as UsageLedger;
+    const users = dictionary(data.users);
+    for (const user of Object.values(users)) {
+      user.daily = dictionary(user.daily);
+    }
+    ledger = { users, sessions: dictionary(data.sessions) };
+    console.log(`📊 已加载用量统计: ${Object.keys(ledger.users).length} 个用户`);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`⚠️ 无法读取用量统计文件: ${usageFile}`, e);
+    }
+  }
+}
+
+/**
+ * 延迟合并写入（先写临时文件再重命名）
+ */
+function scheduleSave() {
+  if (!usageFile || saveTimer) return;
+  const file = usageFile;
+  saveTimer = setTimeout(async () => {
+    saveTimer = null;
+    try {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      const tmp = `${file}.tmp`;
+      await fs.promises.writeFile(tmp, JSON.stringify(ledger, null, 2), "utf-8");
+      await fs.promises.rename(tmp, file);
+    } catch (e) {
+      console.error("⚠️ 用量统计持久化失败", e);
+    }
+  }, 1000);
+  saveTimer.unref();
+}
+
+/**
+ * 累加用量到用户（总计与当日）和会话汇总
+ */
+export function recordUsage(userId: string | undefined, sessionId: string, delta: UsageDelta): void {
+  const userKey = userId ?? ANONYMOUS_USER;
+  const today = usageDate();
+
+  const user = (ledger.users[userKey] ??= { total: emptyTotals(), daily: dictionary() });
+  addTotals(user.total, delta);
+  addTotals((user.daily[today] ??= emptyTotals()), delta);
+
+  // 清理过期的每日明细
+  const cutoff = usageDate(Date.now() - DAILY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  for (const date of Object.keys(user.daily)) {
+    if (date < cutoff) delete user.daily[date];
+  }
+
+  const session = (ledger.sessions[sessionId] ??= { ...emptyTotals(), ownerId: userId, updatedAt: Date.now() });
+  addTotals(session, delta);
+  session.updatedAt = Date.now();
+
+  scheduleSave();
+}
+
+/**
+ * 获取用户用量（总计、当日与每日明细）
+ */
+export function getUserUsage(userId?: string): UserUsage & { today: UsageTotals } {
+  const user = ledger.users[userId ?? ANONYMOUS_USER];
+  return {
+    total: user?.total ?? emptyTotals(),
+    today: user?.daily[usageDate()] ?? emptyTotals(),
+    daily: user?.daily ?? {},
+  };
+}
+
+/**
+ * 获取用户当日已使用的 Token 数（输入 + 输出，含缓存 Token）
+ */
+export function getDailyTokens(userId?: string): number {
+  const today = ledger.users[userId ?? ANONYMOUS_USER]?.daily[usageDate()];
+  return today ? today.inputTokens + today.outputTokens + today.cacheReadTokens + today.cacheWriteTokens : 0;
+}
+
+/**
+ * 获取会话用量汇总（按用户过滤；ownerId 为 undefined 时返回全部）
+ */
+export function listSessionUsage(ownerId?: string): Array<SessionUsage & { sessionId: string }> {
+  return Object.entries(ledger.sessions)
+    .filter(([, usage]) => ownerId === undefined || usage.ownerId === ownerId)
+    .map(([sessionId, usage]) => ({ sessionId, ...usage }));
+}
+
+/**
+ * 获取所有用户的用量汇总（管理员视图）
+ */
+export function listUserUsage(): Array<{ userId: string; total: UsageTotals; today: UsageTotals }> {
+  const today = usageDate();
+  return Object.entries(ledger.users).map(([userId, usage]) => ({
+    userId,
+    total: usage.total,
+    today: usage.daily[today] ?? emptyTotals(),
+  }));
+}
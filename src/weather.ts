@@ -0,0 +1,599 @@
+import fs from "fs";
+import { z } from "zod";
+
+/**
+ * 天气查询
+ * 先将城市名解析为经纬度，再从天气数据源（provider）获取当前天气与逐日预报，结果按 TTL 缓存
+ *
+ * 数据源：
+ * - open-meteo: Open-Meteo 的地理编码与天气预报 API（无需 API Key，默认）
+ * - fixture: 内置（或从文件读取）的固定数据，用于离线开发与测试
+ *
+ * 环境变量配置：
+ * - WEATHER_PROVIDER: 数据源（"open-meteo" | "fixture"），默认 "open-meteo"
+ * - WEATHER_API_URL: 天气预报 API 地址，默认 "https://api.open-meteo.com/v1/forecast"
+ * - WEATHER_GEOCODING_URL: 地理编码 API 地址，默认 "https://geocoding-api.open-meteo.com/v1/search"
+ *   （两者可指向本地桩服务器）
+ * - WEATHER_FIXTURE_FILE: fixture 数据文件（JSON），未设置时使用内置数据
+ * - WEATHER_LANGUAGE: 地理编码结果的语言，默认 "zh"
+ * - WEATHER_CACHE_TTL: 缓存时间（秒），默认 600，0 表示不缓存
+ * - WEATHER_TIMEOUT: 单次请求超时（毫秒），默认 8000
+ */
+
+export type WeatherErrorCode =
+  | "INVALID_ARGUMENT"
+  | "CITY_NOT_FOUND"
+  | "RATE_LIMITED"
+  | "TIMEOUT"
+  | "PROVIDER_ERROR"
+  | "NOT_CONFIGURED";
+
+/**
+ * 天气查询错误（retryable 表示稍后重试可能成功）
+ */
+export class WeatherError extends Error {
+  constructor(
+    public readonly code: WeatherErrorCode,
+    message: string,
+    public readonly retryable = false
+  ) {
+    super(message);
+    this.name = "WeatherError";
+  }
+}
+
+export type WeatherUnits = "metric" | "imperial";
+
+export interface WeatherLocation {
+  name: string;
+  country?: string;
+  /** 省 / 州 */
+  region?: string;
+  latitude: number;
+  longitude: number;
+  timezone?: string;
+}
+
+export interface CurrentWeather {
+  /** 观测时间（当地时间，ISO 格式） */
+  time: string;
+  condition: string;
+  /** WMO 天气代码 */
+  weatherCode: number;
+  temperature: number;
+  apparentTemperature?: number;
+  /** 相对湿度（%） */
+  humidity?: number;
+  windSpeed?: number;
+  /** 风向（度） */
+  windDirection?: number;
+  precipitation?: number;
+}
+
+export interface DailyForecast {
+  /** 日期（YYYY-MM-DD） */
+  date: string;
+  condition: string;
+  weatherCode: number;
+  temperatureMax: number;
+  temperatureMin: number;
+  precipitation?: number;
+  /** 降水概率（%） */
+  precipitationProbability?: number;
+}
+
+export interface WeatherReport {
+  location: WeatherLocation;
+  units: { temperature: string; windSpeed: string; precipitation: string };
+  current: CurrentWeather;
+  daily: DailyForecast[];
+  /** 数据源名称 */
+  source: string;
+  /** 是否来自缓存 */
+  cached: boolean;
+}
+
+export interface WeatherQuery {
+  city: string;
+  /** 预报天数（1 到 MAX_FORECAST_DAYS），默认 1 */
+  days?: number;
+  units?: WeatherUnits;
+}
+
+/**
+ * 天气数据源
+ * 实现此接口即可接入其他天气服务
+ */
+export interface WeatherProvider {
+  readonly name: string;
+  /** 将城市名解析为位置，找不到时抛出 CITY_NOT_FOUND */
+  geocode(city: string, countryCode?: string): Promise<WeatherLocation>;
+  /** 获取当前天气与逐日预报（按 units 返回对应单位的数值） */
+  forecast(
+    location: WeatherLocation,
+    days: number,
+    units: WeatherUnits
+  ): Promise<{ current: CurrentWeather; daily: DailyForecast[] }>;
+}
+
+export const MAX_FORECAST_DAYS = 7;
+
+const CACHE_TTL = (Number(process.env.WEATHER_CACHE_TTL ?? 600) || 0) * 1000;
+const REQUEST_TIMEOUT = Number(process.env.WEATHER_TIMEOUT) || 8000;
+const MAX_CACHE_ENTRIES = 500;
+
+const UNIT_LABELS: Record<WeatherUnits, WeatherReport["units"]> = {
+  metric: { temperature: "°C", windSpeed: "km/h", precipitation: "mm" },
+  imperial: { temperature: "°F", windSpeed: "mph", precipitation: "inch" },
+};
+
+// WMO 天气代码
+const WEATHER_CODES: Record<number, string> = {
+  0: "晴",
+  1: "大部晴朗",
+  2: "多云",
+  3: "阴",
+  45: "雾",
+  48: "冻雾",
+  51: "小毛毛雨",
+  53: "毛毛雨",
+  55: "大毛毛雨",
+  56: "冻毛毛雨",
+  57: "强冻毛毛雨",
+  61: "小雨",
+  63: "中雨",
+  65: "大雨",
+  66: "冻雨",
+  67: "强冻雨",
+  71: "小雪",
+  73: "中雪",
+  75: "大雪",
+  77: "雪粒",
+  80: "阵雨",
+  81: "中阵雨",
+  82: "强阵雨",
+  85: "阵雪",
+  86: "强阵雪",
+  95: "雷暴",
+  96: "雷暴伴小冰雹",
+  99: "雷暴伴大冰雹",
+};
+
+/**
+ * WMO 天气代码对应的天气描述
+ */
+export function describeWeatherCode(code: number): string {
+  return WEATHER_CODES[code] ?? "未知";
+}
+
+// ===== Open-Meteo =====
+
+// 响应格式（只校验用到的字段；Open-Meteo 缺少数据时返回 null）
+const optionalNumber = z
+  .number()
+  .nullish()
+  .transform((value) => value ?? undefined);
+
+const geocodingResponseSchema = z.object({
+  results: z
+    .array(
+      z.object({
+        name: z.string(),
+        country: z.string().optional(),
+        admin1: z.string().optional(),
+        latitude: z.number(),
+        longitude: z.number(),
+        timezone: z.string().optional(),
+      })
+    )
+    .optional(),
+});
+
+const forecastResponseSchema = z
+  .object({
+    current: z.object({
+      time: z.string(),
+      weather_code: z.number(),
+      temperature_2m: z.number(),
+      apparent_temperature: optionalNumber,
+      relative_humidity_2m: optionalNumber,
+      precipitation: optionalNumber,
+      wind_speed_10m: optionalNumber,
+      wind_direction_10m: optionalNumber,
+    }),
+    daily: z.object({
+      time: z.array(z.string()),
+      weather_code: z.array(z.number()),
+      temperature_2m_max: z.array(z.number()),
+      temperature_2m_min: z.array(z.number()),
+      precipitation_sum: z.array(optionalNumber).optional(),
+      precipitation_probability_max: z.array(optionalNumber).optional(),
+    }),
+  })
+  .refine(
+    ({ daily }) =>
+      [daily.weather_code, daily.temperature_2m_max, daily.temperature_2m_min].every(
+        (values) => values.length === daily.time.length
+      ),
+    { message: "逐日数据的长度不一致", path: ["daily"] }
+  );
+
+const errorResponseSchema = z.object({ reason: z.string() });
+
+/**
+ * 校验响应格式，不符合时抛出 PROVIDER_ERROR
+ */
+function parseResponse<S extends z.ZodTypeAny>(schema: S, body: unknown): z.infer<S> {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new WeatherError("PROVIDER_ERROR", `天气服务返回的数据格式不正确: ${issue.path.join(".") || "(根)"} ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * 请求 JSON（超时、限流与 HTTP 错误转换为 WeatherError）
+ */
+async function fetchJson(url: URL): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT) });
+  } catch (error) {
+    if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+      throw new WeatherError("TIMEOUT", `天气服务请求超时（${REQUEST_TIMEOUT}ms）`, true);
+    }
+    throw new WeatherError("PROVIDER_ERROR", `无法连接天气服务: ${error instanceof Error ? error.message : error}`, true);
+  }
+
+  const body: unknown = await response.json().catch(() => undefined);
+  if (response.status === 429) {
+    throw new WeatherError("RATE_LIMITED", "天气服务请求过于频繁，请稍后再试", true);
+  }
+  if (!response.ok || body === undefined) {
+    const error = errorResponseSchema.safeParse(body);
+    const reason = error.success ? error.data.reason : `HTTP ${response.status}`;
+    throw new WeatherError("PROVIDER_ERROR", `天气服务返回错误: ${reason}`, response.status >= 500);
+  }
+  return body;
+}
+
+export function createOpenMeteoProvider(
+  options: { apiUrl?: string; geocodingUrl?: string; language?: string } = {}
+): WeatherProvider {
+  const apiUrl = options.apiUrl || "https://api.open-meteo.com/v1/forecast";
+  const geocodingUrl = options.geocodingUrl || "https://geocoding-api.open-meteo.com/v1/search";
+  const language = options.language || "zh";
+
+  return {
+    name: "open-meteo",
+
+    async geocode(city, countryCode) {
+      const url = new URL(geocodingUrl);
+      url.searchParams.set("name", city);
+      url.searchParams.set("count", "1");
+      url.searchParams.set("language", language);
+      url.searchParams.set("format", "json");
+      if (countryCode) {
+        url.searchParams.set("countryCode", countryCode);
+      }
+
+      const body = parseResponse(geocodingResponseSchema, await fetchJson(url));
+      const result = body.results?.[0];
+      if (!result) {
+        throw new WeatherError("CITY_NOT_FOUND", `找不到城市: ${city}`);
+      }
+      return {
+        name: result.name,
+        country: result.country,
+        region: result.admin1,
+        latitude: result.latitude,
+        longitude: result.longitude,
+        timezone: result.timezone,
+      };
+    },
+
+    async forecast(location, days, units) {
+      const url = new URL(apiUrl);
+      url.searchParams.set("latitude", String(location.latitude));
+      url.searchParams.set("longitude", String(location.longitude));
+      url.searchParams.set(
+        "current",
+        "temperature_2m,apparent_temperature,relative_humidity_2m,precipitation,weather_code,wind_speed_10m,wind_direction_10m"
+      );
+      url.searchParams.set(
+        "daily",
+        "weather_code,temperature_2m_max,temperature_2m_min,precipitation_sum,precipitation_probability_max"
+      );
+      url.searchParams.set("timezone", location.timezone || "auto");
+      url.searchParams.set("forecast_days", String(days));
+      if (units === "imperial") {
+        url.searchParams.set("temperature_unit", "fahrenheit");
+        url.searchParams.set("wind_speed_unit", "mph");
+        url.searchParams.set("precipitation_unit", "inch");
+      }
+
+      const { current, daily } = parseResponse(forecastResponseSchema, await fetchJson(url));
+      return {
+        current: {
+          time: current.time,
+          condition: describeWeatherCode(current.weather_code),
+          weatherCode: current.weather_code,
+          temperature: current.temperature_2m,
+          apparentTemperature: current.apparent_temperature,
+          humidity: current.relative_humidity_2m,
+          windSpeed: current.wind_speed_10m,
+          windDirection: current.wind_direction_10m,
+          precipitation: current.precipitation,
+        },
+        daily: daily.time.map((date, i) => ({
+          date,
+          condition: describeWeatherCode(daily.weather_code[i]),
+          weatherCode: daily.weather_code[i],
+          temperatureMax: daily.temperature_2m_max[i],
+          temperatureMin: daily.temperature_2m_min[i],
+          precipitation: daily.precipitation_sum?.[i],
+          precipitationProbability: daily.precipitation_probability_max?.[i],
+        })),
+      };
+    },
+  };
+}
+
+// ===== Fixture =====
+
+// fixture 数据（公制单位），键为城市名或别名（不区分大小写）
+interface WeatherFixture {
+  aliases?: string[];
+  location: WeatherLocation;
+  current: CurrentWeather;
+  daily: DailyForecast[];
+}
+
+// fixture 数据文件的格式
+const weatherFixtureSchema: z.ZodType<WeatherFixture> = z.object({
+  aliases: z.array(z.string()).optional(),
+  location: z.object({
+    name: z.string(),
+    country: z.string().optional(),
+    region: z.string().optional(),
+    latitude: z.number(),
+    longitude: z.number(),
+    timezone: z.string().optional(),
+  }),
+  current: z.object({
+    time: z.string(),
+    condition: z.string(),
+    weatherCode: z.number(),
+    temperature: z.number(),
+    apparentTemperature: z.number().optional(),
+    humidity: z.number().optional(),
+    windSpeed: z.number().optional(),
+    windDirection: z.number().optional(),
+    precipitation: z.number().optional(),
+  }),
+  daily: z.array(
+    z.object({
+      date: z.string(),
+      condition: z.string(),
+      weatherCode: z.number(),
+      temperatureMax: z.number(),
+      temperatureMin: z.number(),
+      precipitation: z.number().optional(),
+      precipitationProbability: z.number().optional(),
+    })
+  ),
+});
+
+const BUILTIN_FIXTURES: WeatherFixture[] = [
+  {
+    aliases: ["beijing", "北京市"],
+    location: { name: "北京", country: "中国", region: "北京", latitude: 39.9075, longitude: 116.39723, timezone: "Asia/Shanghai" },
+    current: { time: "2024-05-01T14:00", condition: "晴", weatherCode: 0, temperature: 25.3, apparentTemperature: 24.1, humidity: 28, windSpeed: 12.2, windDirection: 200, precipitation: 0 },
+    daily: [
+      { date: "2024-05-01", condition: "晴", weatherCode: 0, temperatureMax: 27.1, temperatureMin: 13.4, precipitation: 0, precipitationProbability: 0 },
+      { date: "2024-05-02", condition: "多云", weatherCode: 2, temperatureMax: 24.8, temperatureMin: 14.0, precipitation: 0, precipitationProbability: 10 },
+      { date: "2024-05-03", condition: "小雨", weatherCode: 61, temperatureMax: 19.5, temperatureMin: 12.2, precipitation: 3.2, precipitationProbability: 70 },
+    ],
+  },
+  {
+    aliases: ["shanghai", "上海市"],
+    location: { name: "上海", country: "中国", region: "上海", latitude: 31.22222, longitude: 121.45806, timezone: "Asia/Shanghai" },
+    current: { time: "2024-05-01T14:00", condition: "阴", weatherCode: 3, temperature: 22.6, apparentTemperature: 23.0, humidity: 72, windSpeed: 15.8, windDirection: 120, precipitation: 0 },
+    daily: [
+      { date: "2024-05-01", condition: "阴", weatherCode: 3, temperatureMax: 24.0, temperatureMin: 17.3, precipitation: 0.4, precipitationProbability: 35 },
+      { date: "2024-05-02", condition: "中雨", weatherCode: 63, temperatureMax: 21.2, temperatureMin: 17.8, precipitation: 12.5, precipitationProbability: 90 },
+      { date: "2024-05-03", condition: "阵雨", weatherCode: 80, temperatureMax: 22.4, temperatureMin: 17.1, precipitation: 4.1, precipitationProbability: 60 },
+    ],
+  },
+  {
+    aliases: ["new york", "纽约"],
+    location: { name: "New York", country: "United States", region: "New York", latitude: 40.71427, longitude: -74.00597, timezone: "America/New_York" },
+    current: { time: "2024-05-01T02:00", condition: "多云", weatherCode: 2, temperature: 14.2, apparentTemperature: 12.9, humidity: 64, windSpeed: 9.7, windDirection: 250, precipitation: 0 },
+    daily: [
+      { date: "2024-05-01", condition: "多云", weatherCode: 2, temperatureMax: 19.6, temperatureMin: 10.8, precipitation: 0, precipitationProbability: 15 },
+      { date: "2024-05-02", condition: "晴", weatherCode: 0, temperatureMax: 22.3, temperatureMin: 11.5, precipitation: 0, precipitationProbability: 5 },
+      { date: "2024-05-03", condition: "雷暴", weatherCode: 95, temperatureMax: 18.1, temperatureMin: 12.6, precipitation: 15.8, precipitationProbability: 80 },
+    ],
+  },
+];
+
+const round1 = (value: number | undefined) => (value === undefined ? undefined : Math.round(value * 10) / 10);
+
+/**
+ * 将公制数值换算为英制（°F、mph、inch）
+ */
+function toImperial(fixture: WeatherFixture): { current: CurrentWeather; daily: DailyForecast[] } {
+  const f = (c: number | undefined) => round1(c === undefined ? undefined : (c * 9) / 5 + 32);
+  const mph = (kmh: number | undefined) => round1(kmh === undefined ? undefined : kmh / 1.609344);
+  const inch = (mm: number | undefined) => (mm === undefined ? undefined : Math.round((mm / 25.4) * 100) / 100);
+  return {
+    current: {
+      ...fixture.current,
+      temperature: f(fixture.current.temperature)!,
+      apparentTemperature: f(fixture.current.apparentTemperature),
+      windSpeed: mph(fixture.current.windSpeed),
+      precipitation: inch(fixture.current.precipitation),
+    },
+    daily: fixture.daily.map((day) => ({
+      ...day,
+      temperatureMax: f(day.temperatureMax)!,
+      temperatureMin: f(day.temperatureMin)!,
+      precipitation: inch(day.precipitation),
+    })),
+  };
+}
+
+export function createFixtureProvider(fixtures: WeatherFixture[] = BUILTIN_FIXTURES): WeatherProvider {
+  const find = (location: WeatherLocation) =>
+    fixtures.find((fixture) => fixture.location.latitude === location.latitude && fixture.location.longitude === location.longitude);
+
+  return {
+    name: "fixture",
+
+    async geocode(city) {
+      const key = city.trim().toLowerCase();
+      const fixture = fixtures.find(
+        (f) => f.location.name.toLowerCase() === key || f.aliases?.some((alias) => alias.toLowerCase() === key)
+      );
+      if (!fixture) {
+        throw new WeatherError("CITY_NOT_FOUND", `找不到城市: ${city}`);
+      }
+      return fixture.location;
+    },
+
+    async forecast(location, days, units) {
+      const fixture = find(location);
+      if (!fixture) {
+        throw new WeatherError("CITY_NOT_FOUND", `没有该位置的天气数据: ${location.name}`);
+      }
+      const data = units === "imperial" ? toImperial(fixture) : { current: fixture.current, daily: fixture.daily };
+      return { current: data.current, daily: data.daily.slice(0, days) };
+    },
+  };
+}
+
+/**
+ * 读取 fixture 数据文件（格式与内置数据相同：WeatherFixture 数组）
+ */
+function loadFixtureFile(file: string): WeatherFixture[] {
+  try {
+    const parsed = z.array(weatherFixtureSchema).safeParse(JSON.parse(fs.readFileSync(file, "utf-8")));
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`${issue.path.join(".") || "(根)"} ${issue.message}`);
+    }
+    return parsed.data;
+  } catch (error) {
+    throw new WeatherError(
+      "NOT_CONFIGURED",
+      `无法读取天气 fixture 文件 ${file}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+// ===== 数据源选择与缓存 =====
+
+let provider: WeatherProvider | null = null;
+const cache = new Map<string, { expiresAt: number; value: unknown }>();
+
+/**
+ * 根据 WEATHER_PROVIDER 创建数据源
+ */
+export function createWeatherProvider(name = process.env.WEATHER_PROVIDER || "open-meteo"): WeatherProvider {
+  switch (name) {
+    case "open-meteo":
+      return createOpenMeteoProvider({
+        apiUrl: process.env.WEATHER_API_URL,
+        geocodingUrl: process.env.WEATHER_GEOCODING_URL,
+        language: process.env.WEATHER_LANGUAGE,
+      });
+    case "fixture":
+      return createFixtureProvider(
+        process.env.WEATHER_FIXTURE_FILE ? loadFixtureFile(process.env.WEATHER_FIXTURE_FILE) : undefined
+      );
+    default:
+      throw new WeatherError("NOT_CONFIGURED", `未知的天气数据源: ${name}（可选: open-meteo、fixture）`);
+  }
+}
+
+/**
+ * 获取当前使用的数据源（首次调用时按环境变量创建）
+ */
+export function getWeatherProvider(): WeatherProvider {
+  provider ??= createWeatherProvider();
+  return provider;
+}
+
+/**
+ * 替换数据源并清空缓存（用于测试）
+ */
+export function setWeatherProvider(next: WeatherProvider | null): void {
+  provider = next;
+  cache.clear();
+}
+
+/**
+ * 带 TTL 的缓存（只缓存成功结果）
+ */
+async function cached<T>(key: string, load: () => Promise<T>): Promise<{ value: T; hit: boolean }> {
+  const entry = cache.get(key);
+  if (entry && entry.expiresAt > Date.now()) {
+    return { value: entry.value as T, hit: true };
+  }
+  const value = await load();
+  if (CACHE_TTL > 0) {
+    cache.delete(key);
+    cache.set(key, { expiresAt: Date.now() + CACHE_TTL, value });
+    // 超出容量时淘汰最早写入的条目
+    if (cache.size > MAX_CACHE_ENTRIES) {
+      cache.delete(cache.keys().next().value!);
+    }
+  }
+  return { value, hit: false };
+}
+
+/**
+ * 拆分 "城市, 国家代码" 形式的输入（如 "Paris, FR"）
+ */
+function parseCity(input: string): { city: string; countryCode?: string } {
+  const match = /^(.+?)\s*[,，]\s*([A-Za-z]{2})$/.exec(input.trim());
+  return match ? { city: match[1], countryCode: match[2].toUpperCase() } : { city: input.trim() };
+}
+
+/**
+ * 查询城市的当前天气与逐日预报
+ * 参数无效、城市不存在或数据源出错时抛出 WeatherError
+ */
+export async function getWeather(query: WeatherQuery): Promise<WeatherReport> {
+  const days = query.days ?? 1;
+  const units = query.units ?? "metric";
+  if (!query.city?.trim()) {
+    throw new WeatherError("INVALID_ARGUMENT", "城市名称不能为空");
+  }
+  if (!Number.isInteger(days) || days < 1 || days > MAX_FORECAST_DAYS) {
+    throw new WeatherError("INVALID_ARGUMENT", `预报天数应为 1 到 ${MAX_FORECAST_DAYS} 之间的整数`);
+  }
+  if (units !== "metric" && units !== "imperial") {
+    throw new WeatherError("INVALID_ARGUMENT", "单位应为 metric 或 imperial");
+  }
+
+  const source = getWeatherProvider();
+  const { city, countryCode } = parseCity(query.city);
+  const { value: location } = await cached(`${source.name}:geo:${city.toLowerCase()}:${countryCode ?? ""}`, () =>
+    source.geocode(city, countryCode)
+  );
+  const { value: forecast, hit } = await cached(
+    `${source.name}:forecast:${location.latitude},${location.longitude}:${days}:${units}`,
+    () => source.forecast(location, days, units)
+  );
+
+  return {
+    location,
+    units: UNIT_LABELS[units],
+    current: forecast.current,
+    daily: forecast.daily,
+    source: source.name,
+    cached: hit,
+  };
+}
@@ -0,0 +1,321 @@
+import { execFile } from "child_process";
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import { promisify } from "util";
+import ignore, { type Ignore } from "ignore";
+import { archiveLimitError, readZipTextFiles, unpackZip, type UnpackLimits } from "./extract.js";
+import { isValidSessionId } from "./store.js";
+
+/**
+ * 会话工作区
+ * 将上传的项目（zip 压缩包或 git bundle）解压到会话专属的沙箱目录，作为目录附件供模型浏览整个项目
+ * - 每个工作区位于 <WORKSPACE_DIR>/<会话 ID>/<工作区 ID>/files，只能由所属用户在所属会话中引用
+ * - zip 解压时遵循其中的 .gitignore（含子目录），并跳过 .git 目录与符号链接
+ * - git bundle 通过 git clone 检出（只包含已跟踪的文件），检出后移除 .git 目录
+ * - 删除会话时一并删除其工作区
+ *
+ * 环境变量配置：
+ * - WORKSPACE_DIR: 工作区根目录，默认 "./data/workspaces"
+ * - WORKSPACE_MAX_FILES: 单个工作区的最大文件数，默认 5000
+ * - WORKSPACE_MAX_MB: 单个工作区解压后的总大小上限（MB），默认 200
+ * - WORKSPACE_UPLOAD_MB: 上传的压缩包或 bundle 的大小上限（MB），默认 50
+ */
+
+export type WorkspaceSource = "zip" | "bundle";
+
+// 工作区信息（保存在工作区目录的 workspace.json 中）
+export interface WorkspaceInfo {
+  id: string;
+  sessionId: string;
+  /** 所属用户 ID（未启用认证时为空） */
+  ownerId?: string;
+  /** 上传的文件名 */
+  name: string;
+  source: WorkspaceSource;
+  files: number;
+  bytes: number;
+  /** 因 .gitignore 或 .git 目录被跳过的条目数 */
+  ignored: number;
+  createdAt: number;
+}
+
+const execFileAsync = promisify(execFile);
+
+const WORKSPACE_ROOT = process.env.WORKSPACE_DIR || path.join(process.cwd(), "data", "workspaces");
+
+const WORKSPACE_LIMITS: UnpackLimits = {
+  maxFiles: Number(process.env.WORKSPACE_MAX_FILES) || 5000,
+  maxBytes: (Number(process.env.WORKSPACE_MAX_MB) || 200) * 1024 * 1024,
+};
+
+export const WORKSPACE_UPLOAD_BYTES = (Number(process.env.WORKSPACE_UPLOAD_MB) || 50) * 1024 * 1024;
+
+// git clone 超时
+const CLONE_TIMEOUT = 60 * 1000;
+
+const META_FILE = "workspace.json";
+const FILES_DIR = "files";
+
+/**
+ * 上传中的压缩包暂存目录（供 multer 使用）
+ */
+export function getIncomingDir(): string {
+  const dir = path.join(WORKSPACE_ROOT, ".incoming");
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  return dir;
+}
+
+/**
+ * 会话的工作区目录
+ * 会话 ID 不合法或目录不在工作区根目录之内时抛出 Error（避免路径穿越）
+ */
+function sessionDir(sessionId: string): string {
+  const root = path.resolve(WORKSPACE_ROOT);
+  const dir = path.resolve(root, sessionId);
+  if (!isValidSessionId(sessionId) || !dir.startsWith(root + path.sep)) {
+    throw new Error("无效的会话 ID");
+  }
+  return dir;
+}
+
+function workspaceDir(sessionId: string, id: string): string {
+  return path.join(sessionDir(sessionId), id);
+}
+
+/**
+ * 根据文件名判断工作区来源
+ */
+export function workspaceSourceOf(filename: string): WorkspaceSource | undefined {
+  const ext = path.extname(filename).toLowerCase();
+  if (ext === ".zip") return "zip";
+  if (ext === ".bundle") return "bundle";
+  return undefined;
+}
+
+/**
+ * 根据 zip 中的 .gitignore 文件生成过滤函数（返回 true 表示保留）
+ */
+async function gitignoreFilter(zipPath: string): Promise<(entryPath: string) => boolean> {
+  const rules = await readZipTextFiles(zipPath, (entryPath) => path.posix.basename(entryPath) === ".gitignore");
+  const matchers: Array<{ base: string; ig: Ignore }> = Array.from(rules, ([file, content]) => ({
+    base: path.posix.dirname(file) === "." ? "" : path.posix.dirname(file),
+    ig: ignore().add(content),
+  }));
+
+  return (entryPath) => {
+    const parts = entryPath.split("/").filter(Boolean);
+    if (parts.includes(".git")) return false;
+
+    // 任一上级目录被忽略时，其中的文件同样被忽略
+    for (let i = 1; i <= parts.length; i++) {
+      const current = parts.slice(0, i).join("/");
+      const candidate = i < parts.length ? `${current}/` : current;
+      for (const { base, ig } of matchers) {
+        if (base && !current.startsWith(`${base}/`)) continue;
+        if (ig.ignores(base ? candidate.slice(base.length + 1) : candidate)) return false;
+      }
+    }
+    return true;
+  };
+}
+
+/**
+ * 统计目录中的文件数与总大小（不跟随符号链接）
+ */
+async function measure(dir: string): Promise<{ files: number; bytes: number }> {
+  let files = 0;
+  let bytes = 0;
+  for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      const sub = await measure(entryPath);
+      files += sub.files;
+      bytes += sub.bytes;
+    } else if (entry.isFile()) {
+      files++;
+      bytes += (await fs.promises.stat(entryPath)).size;
+    }
+  }
+  return { files, bytes };
+}
+
+/**
+ * 执行 git 命令（带超时，禁用钩子、符号链接与交互式提示）
+ */
+async function git(args: string[], cwd?: string): Promise<string> {
+  const { stdout } = await execFileAsync("git", ["-c", "core.symlinks=false", "-c", "core.hooksPath=/dev/null", ...args], {
+    cwd,
+    timeout: CLONE_TIMEOUT,
+    maxBuffer: 16 * 1024 * 1024,
+    env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
+  });
+  return stdout;
+}
+
+function gitError(error: unknown): Error {
+  const reason = (error as { stderr?: string }).stderr?.trim().split("\n")[0];
+  return new Error(`无法读取 git bundle${reason ? `: ${reason}` : ""}`);
+}
+
+/**
+ * 从 git bundle 检出文件，检出后移除 .git 目录
+ * 先只克隆对象（大小与 bundle 相当），按 HEAD 中文件的数量与大小检查限制后再检出，
+ * 避免高压缩率的 bundle 在检出时写满磁盘
+ */
+async function cloneBundle(bundlePath: string, dest: string): Promise<void> {
+  let tree: string;
+  try {
+    await git(["clone", "--quiet", "--no-checkout", bundlePath, dest]);
+    tree = await git(["ls-tree", "-r", "-l", "-z", "HEAD"], dest);
+  } catch (error) {
+    throw gitError(error);
+  }
+
+  // 每项格式为 "<mode> <type> <object> <size>\t<path>"，只统计文件（子模块的大小为 "-"）
+  let files = 0;
+  let bytes = 0;
+  for (const entry of tree.split("\0")) {
+    const [, type, , size] = entry.split("\t")[0].split(/\s+/);
+    if (type !== "blob") continue;
+    files++;
+    bytes += Number(size) || 0;
+  }
+  if (files > WORKSPACE_LIMITS.maxFiles || bytes > WORKSPACE_LIMITS.maxBytes) {
+    throw archiveLimitError(WORKSPACE_LIMITS);
+  }
+
+  try {
+    await git(["checkout", "--quiet"], dest);
+  } catch (error) {
+    throw gitError(error);
+  }
+  await fs.promises.rm(path.join(dest, ".git"), { recursive: true, force: true });
+}
+
+/**
+ * 由上传的压缩包或 git bundle 创建工作区（完成后删除上传的文件）
+ * 格式不支持、文件损坏或超出限制时抛出 Error
+ */
+export async function createWorkspace(options: {
+  archivePath: string;
+  name: string;
+  sessionId: string;
+  ownerId?: string;
+}): Promise<WorkspaceInfo> {
+  const { archivePath, name, sessionId, ownerId } = options;
+  const id = randomUUID();
+  let dir: string | undefined;
+
+  try {
+    dir = workspaceDir(sessionId, id);
+    const filesDir = path.join(dir, FILES_DIR);
+    const source = workspaceSourceOf(name);
+    if (!source) {
+      throw new Error("仅支持 zip 压缩包（.zip）或 git bundle（.bundle）");
+    }
+
+    await fs.promises.mkdir(filesDir, { recursive: true });
+    let ignored = 0;
+    if (source === "zip") {
+      ({ skipped: ignored } = await unpackZip(archivePath, filesDir, WORKSPACE_LIMITS, await gitignoreFilter(archivePath)));
+    } else {
+      await cloneBundle(archivePath, filesDir);
+    }
+
+    const { files, bytes } = await measure(filesDir);
+    if (files > WORKSPACE_LIMITS.maxFiles || bytes > WORKSPACE_LIMITS.maxBytes) {
+      throw archiveLimitError(WORKSPACE_LIMITS);
+    }
+
+    const info: WorkspaceInfo = { id, sessionId, ownerId, name, source, files, bytes, ignored, createdAt: Date.now() };
+    await fs.promises.writeFile(path.join(dir, META_FILE), JSON.stringify(info, null, 2), "utf-8");
+    console.log(`🗂️ 已创建工作区: [${sessionId}] ${name} (${files} 个文件)`);
+    return info;
+  } catch (error) {
+    if (dir) {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+    throw error;
+  } finally {
+    await fs.promises.rm(archivePath, { force: true });
+  }
+}
+
+/**
+ * 获取工作区信息（工作区不存在或不属于该用户 / 会话时返回 undefined）
+ */
+export function getWorkspace(sessionId: string, id: string, ownerId?: string): WorkspaceInfo | undefined {
+  // 工作区 ID 为 UUID，拒绝其他格式避免路径穿越
+  if (!/^[0-9a-f-]{36}$/.test(id)) return undefined;
+  try {
+    const info = JSON.parse(fs.readFileSync(path.join(workspaceDir(sessionId, id), META_FILE), "utf-8")) as WorkspaceInfo;
+    return info.sessionId === sessionId && info.ownerId === ownerId ? info : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 工作区文件所在目录（作为目录附件发送给 SDK）
+ */
+export function getWorkspacePath(info: WorkspaceInfo): string {
+  return path.join(workspaceDir(info.sessionId, info.id), FILES_DIR);
+}
+
+/**
+ * 根据文件目录查找会话的工作区（重新校验保存在消息中的附件时使用）
+ */
+export function findWorkspaceByPath(sessionId: string, dirPath: string, ownerId?: string): WorkspaceInfo | undefined {
+  let parts: string[];
+  try {
+    parts = path.relative(sessionDir(sessionId), path.resolve(dirPath)).split(path.sep);
+  } catch {
+    return undefined;
+  }
+  if (parts.length !== 2 || parts[1] !== FILES_DIR) return undefined;
+  return getWorkspace(sessionId, parts[0], ownerId);
+}
+
+/**
+ * 会话的全部工作区所在目录（目录可能不存在，会话 ID 不合法时抛出 Error）
+ */
+export function getSessionWorkspaceDir(sessionId: string): string {
+  return sessionDir(sessionId);
+}
+
+/**
+ * 列出会话的工作区
+ */
+export async function listWorkspaces(sessionId: string, ownerId?: string): Promise<WorkspaceInfo[]> {
+  let ids: string[];
+  try {
+    ids = await fs.promises.readdir(sessionDir(sessionId));
+  } catch {
+    return [];
+  }
+  return ids
+    .map((id) => getWorkspace(sessionId, id, ownerId))
+    .filter((info): info is WorkspaceInfo => info !== undefined)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * 删除工作区
+ */
+export async function deleteWorkspace(sessionId: string, id: string, ownerId?: string): Promise<boolean> {
+  if (!getWorkspace(sessionId, id, ownerId)) return false;
+  await fs.promises.rm(workspaceDir(sessionId, id), { recursive: true, force: true });
+  console.log(`🗑️ 删除工作区: [${sessionId}] ${id}`);
+  return true;
+}
+
+/**
+ * 删除会话的全部工作区（删除会话时调用）
+ */
+export async function removeSessionWorkspaces(sessionId: string): Promise<void> {
+  if (!isValidSessionId(sessionId)) return;
+  await fs.promises.rm(sessionDir(sessionId), { recursive: true, force: true });
+}